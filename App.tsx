@@ -9,19 +9,30 @@ import AddSourceModal from './components/AddSourceModal';
 import DiscoverSourcesModal from './components/DiscoverSourcesModal';
 import ConfigureChatModal from './components/ConfigureChatModal';
 import LanguageModal from './components/LanguageModal';
-import { Source, Message, SourceStatus, Notebook, SourceType, Chunk, Artifact, DiscoveredSource, ChatConfig } from './types';
-import { generateChatResponse, generateSuggestions } from './services/openRouterService';
-import { processDocumentToChunks } from './services/embeddingService';
+import IndexingModal, { IndexingMigration, IndexingSettings } from './components/IndexingModal';
+import ModelLoadingIndicator from './components/ModelLoadingIndicator';
+import SettingsModal from './components/SettingsModal';
+import DuplicateSourcesModal from './components/DuplicateSourcesModal';
+import { Source, Message, SourceStatus, Notebook, SourceType, Citation, Artifact, DiscoveredSource, ChatConfig } from './types';
+import { generateChatResponse, generateTableQueryResponse, generateSuggestions } from './services/chatService';
 import { vectorStore } from './services/vectorStore';
+import { toCitation, stripCitationMarkers } from './services/citationService';
+import { downloadNotebookArchive, importNotebookArchive, ARCHIVE_FILE_EXTENSION } from './services/notebookArchiveService';
+import { isSettingsLocked } from './services/settingsService';
+import { enqueueIngestion, cancelIngestion, retryIngestion, reembedSources, reindexSources, removeIngestionJob, resumeIngestionJobs, getIngestionJobs, subscribeToIngestion, IngestionJob } from './services/ingestionQueue';
+import { isYouTubeUrl } from './services/youtubeService';
+import { getOfficeDocumentFormat } from './services/officeDocumentService';
+import { isEpubFile } from './services/epubService';
+import { getTableFormat } from './services/tableService';
+import { DEFAULT_CHUNKING_CONFIG } from './services/chunkingService';
+import { DEFAULT_EMBEDDING_CONFIG, getEmbeddingModelKey } from './services/embeddingProviders';
+import { computeSourceHash, findDuplicateSources, DuplicateAction, DuplicateSource } from './services/deduplicationService';
 import TabPanel from './components/TabPanel';
-import { iconMap, artifacts as initialArtifacts } from './constants';
-import { Plus, LayoutGrid, List, ChevronDown, MoreVertical, Pencil, Trash2, StickyNote } from 'lucide-react';
-import { db, getAllNotebooks, addNotebook, deleteNotebook, getSourcesByNotebookId, addSource, updateSourceStatus, deleteSource, updateNotebookTitle } from './services/db';
+import { iconMap } from './constants';
+import { Plus, LayoutGrid, List, ChevronDown, MoreVertical, Pencil, Trash2, Download, Upload, X } from 'lucide-react';
+import { db, getAllNotebooks, addNotebook, deleteNotebook, getSourcesByNotebookId, addSource, getSource, deleteSource, updateNotebookTitle, getMessagesByNotebookId, addMessage, deleteMessagesByNotebookId, getArtifactsByNotebookId, addArtifact, deleteArtifact, updateNotebookSettings, runIntegrityCheck } from './services/db';
 import { FileText } from 'lucide-react';
 
-// Make pdf.js globally available from the script tag in index.html
-declare const pdfjsLib: any;
-
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -38,41 +49,6 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-// Dynamically load pdf.js from CDN if it's not already present on the page.
-const loadPdfJs = (): Promise<any> => {
-    return new Promise((resolve, reject) => {
-        const existing = (window as any).pdfjsLib || (globalThis as any).pdfjsLib;
-        if (existing) return resolve(existing);
-
-        const script = document.createElement('script');
-        script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.min.js';
-        script.async = true;
-        script.onload = () => {
-            const lib = (window as any).pdfjsLib || (globalThis as any).pdfjsLib;
-            if (lib) resolve(lib);
-            else reject(new Error('pdf.js loaded but global pdfjsLib is not available'));
-        };
-        script.onerror = async () => {
-            // CDN failed; try to load local package (pdfjs-dist) as a fallback.
-            try {
-                // dynamic import from node_modules (works in dev with Vite)
-                const mod = await import('pdfjs-dist');
-                // Some builds export a default or named exports; normalize
-                const lib = (mod && (mod as any).default) ? (mod as any).default : mod;
-                if (lib) return resolve(lib);
-                // Try legacy subpath as last resort
-                const legacy = await import('pdfjs-dist/legacy/build/pdf');
-                const legacyLib = (legacy && (legacy as any).default) ? (legacy as any).default : legacy;
-                if (legacyLib) return resolve(legacyLib);
-                reject(new Error('Failed to import pdfjs-dist after CDN failure'));
-            } catch (e) {
-                reject(new Error('Failed to load pdf.js from CDN and failed to import pdfjs-dist: ' + (e instanceof Error ? e.message : String(e))));
-            }
-        };
-        document.head.appendChild(script);
-    });
-};
-
 // --- Sub-components for HomePage ---
 
 interface NotebookTitleInputProps {
@@ -136,13 +112,14 @@ interface NotebookCardProps {
     isMenuOpen: boolean;
     onToggleMenu: (event: React.MouseEvent) => void;
     onDelete: (event: React.MouseEvent) => void;
+    onExport: (event: React.MouseEvent) => void;
     isEditing: boolean;
     onStartEdit: () => void;
     onSaveEdit: (newTitle: string) => void;
     onCancelEdit: () => void;
 }
 
-const NotebookCard: React.FC<NotebookCardProps> = ({ notebook, onClick, isMenuOpen, onToggleMenu, onDelete, isEditing, onStartEdit, onSaveEdit, onCancelEdit }) => {
+const NotebookCard: React.FC<NotebookCardProps> = ({ notebook, onClick, isMenuOpen, onToggleMenu, onDelete, onExport, isEditing, onStartEdit, onSaveEdit, onCancelEdit }) => {
     const Icon = iconMap[notebook.icon];
     return (
         <div className="relative group">
@@ -185,6 +162,12 @@ const NotebookCard: React.FC<NotebookCardProps> = ({ notebook, onClick, isMenuOp
                         >
                             <Pencil className="w-4 h-4 text-gray-500"/> Edit title
                         </button>
+                        <button 
+                            onClick={onExport}
+                            className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                        >
+                            <Download className="w-4 h-4 text-gray-500"/> Export
+                        </button>
                         <button 
                             onClick={onDelete} 
                             className="w-full text-left px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
@@ -217,13 +200,14 @@ interface NotebookRowProps {
     isMenuOpen: boolean;
     onToggleMenu: (event: React.MouseEvent) => void;
     onDelete: (event: React.MouseEvent) => void;
+    onExport: (event: React.MouseEvent) => void;
     isEditing: boolean;
     onStartEdit: () => void;
     onSaveEdit: (newTitle: string) => void;
     onCancelEdit: () => void;
 }
 
-const NotebookRow: React.FC<NotebookRowProps> = ({ notebook, onClick, isMenuOpen, onToggleMenu, onDelete, isEditing, onStartEdit, onSaveEdit, onCancelEdit }) => {
+const NotebookRow: React.FC<NotebookRowProps> = ({ notebook, onClick, isMenuOpen, onToggleMenu, onDelete, onExport, isEditing, onStartEdit, onSaveEdit, onCancelEdit }) => {
     const Icon = iconMap[notebook.icon];
     return (
         <div className="relative group flex items-center w-full hover:bg-gray-50 rounded-lg transition-colors">
@@ -258,6 +242,9 @@ const NotebookRow: React.FC<NotebookRowProps> = ({ notebook, onClick, isMenuOpen
                         >
                             <Pencil className="w-4 h-4 text-gray-500"/> Edit title
                         </button>
+                        <button onClick={onExport} className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2">
+                            <Download className="w-4 h-4 text-gray-500"/> Export
+                        </button>
                         <button onClick={onDelete} className="w-full text-left px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2">
                             <Trash2 className="w-4 h-4"/> Delete
                         </button>
@@ -274,10 +261,16 @@ interface HomePageProps {
     notebooks: Notebook[];
     onOpenDeleteConfirmation: (notebook: Notebook) => void;
     onUpdateNotebookTitle: (id: number, newTitle: string) => void;
+    onExportNotebook: (notebook: Notebook) => void;
+    onImportNotebook: (file: File) => void;
+    isImporting: boolean;
+    archiveNotice: { message: string; isError: boolean } | null;
+    onDismissArchiveNotice: () => void;
 }
 
-const HomePage: React.FC<HomePageProps> = ({ onNotebookSelect, notebooks, onOpenDeleteConfirmation, onUpdateNotebookTitle }) => {
+const HomePage: React.FC<HomePageProps> = ({ onNotebookSelect, notebooks, onOpenDeleteConfirmation, onUpdateNotebookTitle, onExportNotebook, onImportNotebook, isImporting, archiveNotice, onDismissArchiveNotice }) => {
     const [menuOpenFor, setMenuOpenFor] = useState<number | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const [viewType, setViewType] = useState<'grid' | 'list'>('grid');
     const [editingNotebookId, setEditingNotebookId] = useState<number | null>(null);
 
@@ -319,6 +312,25 @@ const HomePage: React.FC<HomePageProps> = ({ onNotebookSelect, notebooks, onOpen
                         Most recent
                         <ChevronDown className="w-4 h-4" />
                     </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting}
+                        className="flex items-center gap-2 text-sm text-gray-700 hover:bg-gray-100 px-3 py-1.5 rounded-lg border border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Upload className="w-4 h-4" />
+                        {isImporting ? 'Importing...' : 'Import'}
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept={`${ARCHIVE_FILE_EXTENSION},application/json`}
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImportNotebook(file);
+                            e.target.value = '';
+                        }}
+                    />
                     <button 
                         onClick={() => onNotebookSelect()}
                         className="flex items-center gap-2 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 px-4 py-2 rounded-lg"
@@ -331,6 +343,14 @@ const HomePage: React.FC<HomePageProps> = ({ onNotebookSelect, notebooks, onOpen
 
             {/* Notebook Grid / List */}
             <main className="flex-1 p-4 md:p-9">
+                {archiveNotice && (
+                    <div className={`mb-6 flex items-start gap-3 rounded-lg border px-4 py-3 text-sm ${archiveNotice.isError ? 'border-red-200 bg-red-50 text-red-700' : 'border-gray-200 bg-gray-50 text-gray-700'}`} role="status">
+                        <p className="flex-1">{archiveNotice.message}</p>
+                        <button onClick={onDismissArchiveNotice} aria-label="Dismiss" className="p-0.5 rounded hover:bg-gray-200">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
                 <h2 className="text-2xl font-normal text-gray-800 mb-6">My notebooks</h2>
                 {viewType === 'grid' ? (
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
@@ -350,6 +370,11 @@ const HomePage: React.FC<HomePageProps> = ({ onNotebookSelect, notebooks, onOpen
                                     onOpenDeleteConfirmation(notebook);
                                     setMenuOpenFor(null);
                                 }}
+                                onExport={(e) => {
+                                    e.stopPropagation();
+                                    onExportNotebook(notebook);
+                                    setMenuOpenFor(null);
+                                }}
                                 isEditing={editingNotebookId === notebook.id}
                                 onStartEdit={() => {
                                     setEditingNotebookId(notebook.id);
@@ -386,6 +411,11 @@ const HomePage: React.FC<HomePageProps> = ({ onNotebookSelect, notebooks, onOpen
                                     onOpenDeleteConfirmation(notebook);
                                     setMenuOpenFor(null);
                                 }}
+                                onExport={(e) => {
+                                    e.stopPropagation();
+                                    onExportNotebook(notebook);
+                                    setMenuOpenFor(null);
+                                }}
                                 isEditing={editingNotebookId === notebook.id}
                                 onStartEdit={() => {
                                     setEditingNotebookId(notebook.id);
@@ -414,6 +444,9 @@ const initialSuggestions = [
     "Apa perbandingan risiko, imbal hasil, dan psikologi antara scalping futures dan trading Gold?",
 ];
 
+const defaultChatConfig: ChatConfig = { style: 'Default', length: 'Default', customPrompt: '' };
+const defaultOutputLanguage = 'Indonesia';
+
 const App: React.FC = () => {
     const [currentView, setCurrentView] = useState<'homepage' | 'main'>('homepage');
     const [notebooks, setNotebooks] = useState<Notebook[]>([]);
@@ -425,33 +458,79 @@ const App: React.FC = () => {
     const [sources, setSources] = useState<Source[]>([]);
     const [messages, setMessages] = useState<Message[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [isComputeMode, setIsComputeMode] = useState(false); // Compute answers over selected tables
     const [error, setError] = useState<string | null>(null);
-    const [artifacts, setArtifacts] = useState<Artifact[]>(initialArtifacts);
+    const [artifacts, setArtifacts] = useState<Artifact[]>([]);
     const [selectedArtifact, setSelectedArtifact] = useState<Artifact | null>(null);
     const [artifactToDelete, setArtifactToDelete] = useState<Artifact | null>(null);
+    const [viewedCitation, setViewedCitation] = useState<Citation | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const activeNotebookIdRef = useRef<number | undefined>(undefined);
     const [suggestions, setSuggestions] = useState<string[]>(initialSuggestions);
+    const [ingestionJobs, setIngestionJobs] = useState<Record<string, IngestionJob>>({});
 
 
     const [sourceToDelete, setSourceToDelete] = useState<Source | null>(null);
+    const [duplicatePrompt, setDuplicatePrompt] = useState<{ duplicates: DuplicateSource[]; resolve: (action: DuplicateAction) => void } | null>(null);
     const [notebookToDelete, setNotebookToDelete] = useState<Notebook | null>(null);
+    const [isImportingNotebook, setIsImportingNotebook] = useState(false);
+    const [archiveNotice, setArchiveNotice] = useState<{ message: string; isError: boolean } | null>(null);
     
     const [isAddSourceModalOpen, setIsAddSourceModalOpen] = useState(false);
     const [isDiscoverModalOpen, setIsDiscoverModalOpen] = useState(false);
     const [isConfigureChatModalOpen, setIsConfigureChatModalOpen] = useState(false);
-    const [chatConfig, setChatConfig] = useState<ChatConfig>({ style: 'Default', length: 'Default', customPrompt: '' });
+    const [chatConfig, setChatConfig] = useState<ChatConfig>(defaultChatConfig);
     const [activeTab, setActiveTab] = useState<'sources' | 'chat' | 'studio'>('studio');
     const [isLanguageModalOpen, setIsLanguageModalOpen] = useState(false);
-    const [outputLanguage, setOutputLanguage] = useState('Indonesia');
+    const [isIndexingModalOpen, setIsIndexingModalOpen] = useState(false);
+    const [staleSourceIds, setStaleSourceIds] = useState<string[]>([]); // Embedded with a model other than the notebook's
+    const [outputLanguage, setOutputLanguage] = useState(defaultOutputLanguage);
+    // Ask for the passphrase right away when saved API keys are encrypted
+    const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(isSettingsLocked);
 
     // --- Database and State Initialization ---
     useEffect(() => {
         const initializeDB = async () => {
+            try {
+                const { orphanedChunks, resetSources } = await runIntegrityCheck();
+                if (orphanedChunks > 0 || resetSources > 0) {
+                    console.log(`Integrity check removed ${orphanedChunks} orphaned chunks and reset ${resetSources} interrupted sources`);
+                }
+            } catch (error) {
+                console.error('Integrity check failed:', error);
+            }
             const existingNotebooks = await getAllNotebooks();
             setNotebooks(existingNotebooks);
+            await resumeIngestionJobs();
         };
         initializeDB();
     }, []);
 
+    // --- Track ingestion jobs and reflect their outcome in the source list ---
+    useEffect(() => {
+        setIngestionJobs(Object.fromEntries(getIngestionJobs().map(job => [job.sourceId, job])));
+        return subscribeToIngestion(job => {
+            setIngestionJobs(prev => {
+                const { [job.sourceId]: _previous, ...rest } = prev;
+                return job.status === 'done' ? rest : { ...rest, [job.sourceId]: job };
+            });
+
+            if (job.status === 'done') {
+                // Indexing may have renamed the source or filled in its text, metadata and table rows
+                getSource(job.sourceId).then(stored => {
+                    if (!stored) return;
+                    setSources(prev => prev.map(s => s.id === job.sourceId
+                        ? { ...s, name: stored.name, textContent: stored.textContent, metadata: stored.metadata, table: stored.table, status: stored.status }
+                        : s
+                    ));
+                });
+            } else {
+                const status = job.status === 'failed' || job.status === 'cancelled' ? SourceStatus.FAILED : SourceStatus.INDEXING;
+                setSources(prev => prev.map(s => (s.id === job.sourceId && s.status !== status ? { ...s, status } : s)));
+            }
+        });
+    }, []);
+
     // --- Fetch sources when current notebook changes ---
     useEffect(() => {
         if (currentNotebook) {
@@ -461,6 +540,43 @@ const App: React.FC = () => {
         }
     }, [currentNotebook]);
 
+    // --- Find sources embedded with a model other than the notebook's, so they can be re-embedded ---
+    const embeddingModelKey = getEmbeddingModelKey(currentNotebook?.embedding);
+    useEffect(() => {
+        let cancelled = false;
+        const indexedSourceIds = sources.filter(s => s.status === SourceStatus.INDEXED).map(s => s.id);
+        vectorStore.findSourcesWithOtherEmbeddings(indexedSourceIds, embeddingModelKey).then(ids => {
+            if (!cancelled) setStaleSourceIds(ids);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [sources, embeddingModelKey]);
+
+    // --- Load chat history, Studio artifacts and chat settings when the notebook changes ---
+    const currentNotebookId = currentNotebook?.id;
+    useEffect(() => {
+        abortControllerRef.current?.abort(); // Don't let an answer stream into another notebook
+        activeNotebookIdRef.current = currentNotebookId;
+        setSelectedArtifact(null);
+        setViewedCitation(null);
+        setChatConfig(currentNotebook?.chatConfig || defaultChatConfig);
+        setOutputLanguage(currentNotebook?.outputLanguage || defaultOutputLanguage);
+        if (currentNotebookId !== undefined) {
+            // A slow load must not fill a notebook the user has already switched away from
+            const isActive = () => activeNotebookIdRef.current === currentNotebookId;
+            getMessagesByNotebookId(currentNotebookId).then(loaded => {
+                if (isActive()) setMessages(loaded);
+            });
+            getArtifactsByNotebookId(currentNotebookId).then(loaded => {
+                if (isActive()) setArtifacts(loaded);
+            });
+        } else {
+            setMessages([]);
+            setArtifacts([]);
+        }
+    }, [currentNotebookId]); // Only reload when switching notebooks, not when the notebook's counts or settings change
+
     // --- Navigation and View Management ---
     const handleNotebookSelect = useCallback(async (notebook?: Notebook) => {
         if (notebook) {
@@ -487,13 +603,14 @@ const App: React.FC = () => {
     const handleGoToHomepage = useCallback(async () => {
         // If the current notebook is empty (has no sources), delete it when navigating away.
         if (currentNotebook && sources.length === 0) {
-            await deleteNotebook(currentNotebook.id);
+            const deletedSourceIds = await deleteNotebook(currentNotebook.id);
+            vectorStore.evictSources(deletedSourceIds);
         }
         
         const updatedNotebooks = await getAllNotebooks();
         setNotebooks(updatedNotebooks);
         setCurrentNotebook(null);
-        setMessages([]); // Clear chat history
+        setMessages([]); // Chat history stays persisted in IndexedDB
         setCurrentView('homepage');
     }, [currentNotebook, sources]);
 
@@ -502,6 +619,52 @@ const App: React.FC = () => {
     const handleToggleRightSidebar = useCallback(() => setIsRightSidebarOpen(prev => !prev), []);
     
     // --- Source Management ---
+    /**
+     * Save new sources, update the notebook's count and index them in the background.
+     * Exact duplicates of sources already in the notebook are skipped or replace the
+     * existing source, as the user chooses; repeats within the batch are always skipped.
+     */
+    const addSourcesToNotebook = useCallback(async (newSources: Source[]) => {
+        if (!currentNotebook || newSources.length === 0) return;
+
+        const hashedSources = await Promise.all(newSources.map(async source => ({ ...source, contentHash: await computeSourceHash(source) })));
+        const duplicates = await findDuplicateSources(hashedSources, sources);
+
+        let sourcesToAdd = hashedSources;
+        const replacedSources = new Map<string, Source>();
+        if (duplicates.length > 0) {
+            const action = await new Promise<DuplicateAction>(resolve => setDuplicatePrompt({ duplicates, resolve }));
+            setDuplicatePrompt(null);
+            const skippedIds = new Set(duplicates.filter(d => action === 'skip' || d.sameBatch).map(d => d.source.id));
+            sourcesToAdd = hashedSources.filter(source => !skippedIds.has(source.id));
+            if (action === 'replace') {
+                duplicates.filter(d => !d.sameBatch).forEach(d => replacedSources.set(d.existing.id, d.existing));
+            }
+        }
+
+        for (const replaced of replacedSources.values()) {
+            await removeIngestionJob(replaced.id);
+            await deleteSource(replaced.id);
+            await vectorStore.removeChunksBySourceId(replaced.id);
+        }
+
+        setSources(prev => [...prev.filter(s => !replacedSources.has(s.id)), ...sourcesToAdd]);
+
+        for (const source of sourcesToAdd) {
+            await addSource(source);
+        }
+
+        const updatedNotebook = { ...currentNotebook, sources: currentNotebook.sources + sourcesToAdd.length - replacedSources.size };
+        await db.notebooks.update(currentNotebook.id, { sources: updatedNotebook.sources });
+        setCurrentNotebook(updatedNotebook);
+        setNotebooks(prev => prev.map(n => n.id === currentNotebook.id ? updatedNotebook : n));
+
+        // Index sources in the background; progress shows in the sources panel
+        sourcesToAdd
+            .filter(source => source.status === SourceStatus.INDEXING)
+            .forEach(source => enqueueIngestion(source.id, currentNotebook.id));
+    }, [currentNotebook, sources]);
+
     const handleFileUpload = useCallback(async (files: FileList) => {
         if (!currentNotebook) return;
 
@@ -524,38 +687,17 @@ const App: React.FC = () => {
                         mimeType: file.type,
                     };
                 } else if (file.type === 'application/pdf') {
-                    // Ensure pdf.js is available at runtime. Try to load it dynamically if needed.
-                    const pdfjs = await loadPdfJs();
-                    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
-                        // Try to resolve a local worker URL via Vite's ?url import. This keeps the worker served
-                        // by the dev server / build instead of relying on a CDN path which may 404 or be blocked.
-                        try {
-                            // Vite will return a string URL when importing with ?url
-                            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-                            // @ts-ignore
-                            const workerUrlModule = await import('pdfjs-dist/legacy/build/pdf.worker.min.mjs?url');
-                            const workerUrl = workerUrlModule && (workerUrlModule.default || workerUrlModule);
-                            if (workerUrl) {
-                                pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
-                            } else {
-                                throw new Error('pdf.worker URL not found from pdfjs-dist');
-                            }
-                        } catch (e) {
-                            // Fallback to the CDN .mjs worker URL (use .mjs for newer pdf.js releases)
-                            pdfjs.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.mjs`;
-                        }
-                    }
-
-                    const arrayBuffer = await file.arrayBuffer();
-                    const pdf = await pdfjs.getDocument(arrayBuffer).promise;
-                    let fullText = '';
-                    for (let i = 1; i <= pdf.numPages; i++) {
-                        const page = await pdf.getPage(i);
-                        const textContent = await page.getTextContent();
-                        const pageText = textContent.items.map((item: any) => item.str).join(' ');
-                        fullText += pageText + '\n\n';
-                    }
-                    return { ...baseSource, type: 'pdf', textContent: fullText.trim() };
+                    // Parsed in an ingestion worker; the file is kept for the PDF viewer
+                    return { ...baseSource, type: 'pdf', content: file };
+                } else if (getOfficeDocumentFormat(file)) {
+                    // Parsed in an ingestion worker, keeping sections and slides
+                    return { ...baseSource, type: getOfficeDocumentFormat(file)!, content: file };
+                } else if (getTableFormat(file)) {
+                    // Parsed in an ingestion worker; the rows are kept for computed answers
+                    return { ...baseSource, type: 'table', content: file };
+                } else if (isEpubFile(file)) {
+                    // Parsed in an ingestion worker, one section per chapter
+                    return { ...baseSource, type: 'epub', content: file };
                 } else if (file.type.startsWith('audio/')) {
                      const base64Content = await fileToBase64(file);
                      return {
@@ -592,60 +734,17 @@ const App: React.FC = () => {
         });
         
         const newSources = await Promise.all(sourcePromises);
-
-        setSources(prev => [...prev, ...newSources]);
-        
-        for (const source of newSources) {
-            await addSource(source);
-        }
-        
-        const updatedNotebook = { ...currentNotebook, sources: currentNotebook.sources + newSources.length };
-        await db.notebooks.update(currentNotebook.id, { sources: updatedNotebook.sources });
-        setCurrentNotebook(updatedNotebook);
-        setNotebooks(prev => prev.map(n => n.id === currentNotebook.id ? updatedNotebook : n));
-
-        // Process sources with embeddings for RAG
-        newSources.forEach(source => {
-            if (source.status === SourceStatus.INDEXING) {
-                // Generate embeddings asynchronously
-                (async () => {
-                    try {
-                        // Only process text-based sources
-                        if ((source.type === 'text' || source.type === 'pdf') && source.textContent) {
-                            console.log(`Processing embeddings for: ${source.name}`);
-                            const chunks = await processDocumentToChunks(
-                                source.id,
-                                source.name,
-                                source.textContent
-                            );
-                            await vectorStore.addChunks(chunks);
-                            console.log(`Added ${chunks.length} chunks to vector store for ${source.name}`);
-                        }
-                        
-                        await updateSourceStatus(source.id, SourceStatus.INDEXED);
-                        setSources(prev => prev.map(s => 
-                            s.id === source.id ? { ...s, status: SourceStatus.INDEXED } : s
-                        ));
-                    } catch (error) {
-                        console.error(`Failed to process source ${source.name}:`, error);
-                        await updateSourceStatus(source.id, SourceStatus.FAILED);
-                        setSources(prev => prev.map(s => 
-                            s.id === source.id ? { ...s, status: SourceStatus.FAILED } : s
-                        ));
-                    }
-                })();
-            }
-        });
-    }, [currentNotebook]);
+        await addSourcesToNotebook(newSources);
+    }, [currentNotebook, addSourcesToNotebook]);
     
     const handleAddTextSource = useCallback(async (content: string, type: 'website' | 'youtube' | 'text') => {
         if (!currentNotebook) return;
     
-        if (type === 'website') {
+        if (type === 'website' || type === 'youtube') {
             const urls = content.split(/[\s\n]+/).filter(url => {
                 try {
                     new URL(url);
-                    return true;
+                    return type === 'website' || isYouTubeUrl(url);
                 } catch (_) {
                     return false;
                 }
@@ -656,28 +755,18 @@ const App: React.FC = () => {
             const newSources: Source[] = urls.map(url => ({
                 id: crypto.randomUUID(),
                 name: url,
-                type: 'website',
-                status: SourceStatus.INDEXED,
+                type,
+                status: SourceStatus.INDEXING,
                 checked: true,
                 notebookId: currentNotebook.id,
                 textContent: url,
+                metadata: { url },
             }));
     
-            setSources(prev => [...prev, ...newSources]);
-    
-            for (const source of newSources) {
-                await addSource(source);
-            }
-
-            const updatedNotebook = { ...currentNotebook, sources: currentNotebook.sources + newSources.length };
-            await db.notebooks.update(currentNotebook.id, { sources: updatedNotebook.sources });
-            setCurrentNotebook(updatedNotebook);
-            setNotebooks(prev => prev.map(n => n.id === currentNotebook.id ? updatedNotebook : n));
+            await addSourcesToNotebook(newSources);
     
-        } else { // Handle 'youtube' and 'text'
-            const sourceName = type === 'text' 
-                ? `Pasted Text - ${new Date().toLocaleTimeString()}` 
-                : content;
+        } else { // Handle 'text'
+            const sourceName = `Pasted Text - ${new Date().toLocaleTimeString()}`;
     
             const newSource: Source = {
                 id: crypto.randomUUID(),
@@ -689,84 +778,31 @@ const App: React.FC = () => {
                 textContent: content,
             };
             
-            setSources(prev => [...prev, newSource]);
-            
-            await addSource(newSource);
-    
-            const updatedNotebook = { ...currentNotebook, sources: currentNotebook.sources + 1 };
-            await db.notebooks.update(currentNotebook.id, { sources: updatedNotebook.sources });
-            setCurrentNotebook(updatedNotebook);
-            setNotebooks(prev => prev.map(n => n.id === currentNotebook.id ? updatedNotebook : n));
-    
-            // Process text source with embeddings
-            (async () => {
-                try {
-                    if (newSource.textContent) {
-                        console.log(`Processing embeddings for: ${newSource.name}`);
-                        const chunks = await processDocumentToChunks(
-                            newSource.id,
-                            newSource.name,
-                            newSource.textContent
-                        );
-                        await vectorStore.addChunks(chunks);
-                        console.log(`Added ${chunks.length} chunks to vector store for ${newSource.name}`);
-                    }
-                    
-                    await updateSourceStatus(newSource.id, SourceStatus.INDEXED);
-                    setSources(prev => prev.map(s => 
-                        s.id === newSource.id ? { ...s, status: SourceStatus.INDEXED } : s
-                    ));
-                } catch (error) {
-                    console.error(`Failed to process source ${newSource.name}:`, error);
-                    await updateSourceStatus(newSource.id, SourceStatus.FAILED);
-                    setSources(prev => prev.map(s => 
-                        s.id === newSource.id ? { ...s, status: SourceStatus.FAILED } : s
-                    ));
-                }
-            })();
+            await addSourcesToNotebook([newSource]);
         }
-    }, [currentNotebook]);
+    }, [currentNotebook, addSourcesToNotebook]);
 
     const handleImportSources = useCallback(async (discoveredSources: DiscoveredSource[]) => {
         if (!currentNotebook) return;
     
         const newSources: Source[] = discoveredSources.map(ds => {
-            let type: SourceType = 'website';
-            try {
-                const url = new URL(ds.link);
-                if (url.hostname.includes('youtube.com') || url.hostname.includes('youtu.be')) {
-                    type = 'youtube';
-                }
-            } catch (e) {
-                console.warn(`Invalid URL discovered: ${ds.link}`);
-            }
+            const type: SourceType = isYouTubeUrl(ds.link) ? 'youtube' : 'website';
     
             return {
                 id: crypto.randomUUID(),
                 name: ds.title,
                 type: type,
-                status: SourceStatus.INDEXED, // Assume web sources are ready
+                status: SourceStatus.INDEXING,
                 checked: true,
                 notebookId: currentNotebook.id,
                 textContent: ds.link, // Store the link here
+                metadata: { url: ds.link, title: ds.title },
             };
         });
     
-        if (newSources.length > 0) {
-            setSources(prev => [...prev, ...newSources]);
-            
-            for (const source of newSources) {
-                await addSource(source);
-            }
-    
-            const updatedNotebook = { ...currentNotebook, sources: currentNotebook.sources + newSources.length };
-            await db.notebooks.update(currentNotebook.id, { sources: updatedNotebook.sources });
-            setCurrentNotebook(updatedNotebook);
-            setNotebooks(prev => prev.map(n => n.id === currentNotebook.id ? updatedNotebook : n));
-        }
-    
         setIsDiscoverModalOpen(false);
-    }, [currentNotebook]);
+        await addSourcesToNotebook(newSources);
+    }, [currentNotebook, addSourcesToNotebook]);
 
     const handleToggleSource = useCallback((id: string) => {
         setSources(prevSources => prevSources.map(source =>
@@ -778,11 +814,15 @@ const App: React.FC = () => {
         setSources(prevSources => prevSources.map(source => ({ ...source, checked })));
     }, []);
     
+    const handleRetrySource = useCallback((source: Source) => retryIngestion(source.id), []);
+    const handleCancelSourceIndexing = useCallback((source: Source) => cancelIngestion(source.id), []);
+
     const handleOpenDeleteConfirmation = (source: Source) => setSourceToDelete(source);
     const handleCloseDeleteConfirmation = () => setSourceToDelete(null);
 
     const handleDeleteSource = async () => {
         if (sourceToDelete && currentNotebook) {
+            await removeIngestionJob(sourceToDelete.id);
             await deleteSource(sourceToDelete.id);
             
             // Remove from vector store
@@ -820,12 +860,44 @@ const App: React.FC = () => {
 
     const handleDeleteNotebook = async () => {
         if (notebookToDelete) {
-            await deleteNotebook(notebookToDelete.id);
+            const deletedSourceIds = await deleteNotebook(notebookToDelete.id);
+            vectorStore.evictSources(deletedSourceIds);
             setNotebooks(prev => prev.filter(n => n.id !== notebookToDelete.id));
             setNotebookToDelete(null);
         }
     };
 
+    const handleExportNotebook = useCallback(async (notebook: Notebook) => {
+        try {
+            await downloadNotebookArchive(notebook.id);
+        } catch (error) {
+            console.error('Failed to export notebook:', error);
+            setArchiveNotice({ message: `Failed to export "${notebook.title}": ${(error as Error).message}`, isError: true });
+        }
+    }, []);
+
+    const handleImportNotebook = useCallback(async (file: File) => {
+        setIsImportingNotebook(true);
+        setArchiveNotice(null);
+        try {
+            const result = await importNotebookArchive(file);
+            setNotebooks(await getAllNotebooks());
+            let message = `Imported "${result.notebook.title}" with ${result.sourceCount} source${result.sourceCount !== 1 ? 's' : ''}.`;
+            if (result.reembeddedSourceCount > 0) {
+                message += ` ${result.reembeddedSourceCount} source${result.reembeddedSourceCount !== 1 ? 's were' : ' was'} indexed with ${result.archiveEmbeddingModel} and ${result.reembeddedSourceCount !== 1 ? 'are' : 'is'} being re-embedded.`;
+            }
+            if (result.resumedSourceCount > 0) {
+                message += ` ${result.resumedSourceCount} source${result.resumedSourceCount !== 1 ? 's were' : ' was'} still being indexed when exported and ${result.resumedSourceCount !== 1 ? 'are' : 'is'} being indexed again.`;
+            }
+            setArchiveNotice({ message, isError: false });
+        } catch (error) {
+            console.error('Failed to import notebook:', error);
+            setArchiveNotice({ message: `Import failed: ${(error as Error).message}`, isError: true });
+        } finally {
+            setIsImportingNotebook(false);
+        }
+    }, []);
+
     // --- Chat, Notes and Suggestions ---
     const updateSuggestions = useCallback(async () => {
         if (!currentNotebook) return;
@@ -833,14 +905,14 @@ const App: React.FC = () => {
         const relevantSources = sources.filter(s => s.checked && s.status === SourceStatus.INDEXED);
         
         try {
-            const newSuggestions = await generateSuggestions(relevantSources, messages);
+            const newSuggestions = await generateSuggestions(relevantSources, messages, chatConfig);
             if (newSuggestions && newSuggestions.length > 0) {
                 setSuggestions(newSuggestions);
             }
         } catch (e) {
             console.error("Failed to update suggestions:", e);
         }
-    }, [currentNotebook, sources, messages]);
+    }, [currentNotebook, sources, messages, chatConfig]);
 
     useEffect(() => {
         if (currentNotebook) {
@@ -855,10 +927,11 @@ const App: React.FC = () => {
     }, [currentNotebook, messages, sources, updateSuggestions]); // `sources` is added as a dependency to regenerate suggestions when sources change
 
 
-    const handleSaveToNote = useCallback((messageToSave: Message) => {
+    const handleSaveToNote = useCallback(async (messageToSave: Message) => {
+        if (!currentNotebook) return;
+
         const noteContent = messageToSave.text;
-        const plainText = noteContent
-            .replace(/\[source:\d+\]/g, '')
+        const plainText = stripCitationMarkers(noteContent)
             .replace(/(\*\*|__)(.*?)\1/g, '$2')
             .replace(/(\*|_)(.*?)\1/g, '$2')
             .replace(/`{1,3}(.*?)`{1,3}/gs, '$1')
@@ -866,30 +939,38 @@ const App: React.FC = () => {
             .replace(/\s+/g, ' ')
             .trim();
 
-        const newArtifact: Artifact = {
-            id: Date.now(),
+        const now = Date.now();
+        const artifactData: Omit<Artifact, 'id'> = {
+            notebookId: currentNotebook.id,
+            kind: 'saved-response',
             title: plainText.substring(0, 40) + (plainText.length > 40 ? '...' : ''),
-            icon: StickyNote,
-            details: `Saved just now`,
             content: noteContent,
             sources: messageToSave.sources,
-            chunks: messageToSave.chunks,
+            citations: messageToSave.citations,
+            createdAt: now,
+            updatedAt: now,
         };
-        setArtifacts(prev => [newArtifact, ...prev]);
+        const newId = await addArtifact(artifactData);
+        setArtifacts(prev => [{ ...artifactData, id: newId }, ...prev]);
         setActiveTab('studio');
-    }, []);
+    }, [currentNotebook]);
+
+    const handleAddNote = useCallback(async () => {
+        if (!currentNotebook) return;
 
-    const handleAddNote = useCallback(() => {
-        const newArtifact: Artifact = {
-            id: Date.now(),
+        const now = Date.now();
+        const artifactData: Omit<Artifact, 'id'> = {
+            notebookId: currentNotebook.id,
+            kind: 'note',
             title: 'Untitled Note',
-            icon: StickyNote,
-            details: `Created just now`,
             content: '',
+            createdAt: now,
+            updatedAt: now,
         };
-        setArtifacts(prev => [newArtifact, ...prev]);
+        const newId = await addArtifact(artifactData);
+        setArtifacts(prev => [{ ...artifactData, id: newId }, ...prev]);
         setActiveTab('studio');
-    }, []);
+    }, [currentNotebook]);
 
     const handleArtifactSelect = (artifact: Artifact) => {
         if (artifact.content !== undefined) { // Only notes can be opened
@@ -912,6 +993,7 @@ const App: React.FC = () => {
     
     const handleDeleteArtifact = async () => {
         if (artifactToDelete) {
+            await deleteArtifact(artifactToDelete.id);
             setArtifacts(prev => prev.filter(a => a.id !== artifactToDelete.id));
             if (selectedArtifact && selectedArtifact.id === artifactToDelete.id) {
                 setSelectedArtifact(null);
@@ -922,50 +1004,106 @@ const App: React.FC = () => {
 
 
     const handleQuerySubmit = useCallback(async (query: string) => {
-        if (!query.trim() || isLoading) return;
+        if (!query.trim() || isLoading || !currentNotebook) return;
 
+        const notebookId = currentNotebook.id;
         setError(null);
         setIsLoading(true);
-        const userMessage: Message = { id: Date.now().toString(), sender: 'user', text: query };
+        const userMessage: Message = { id: crypto.randomUUID(), sender: 'user', text: query, createdAt: Date.now() };
         setMessages(prev => [...prev, userMessage]);
+        addMessage(notebookId, userMessage).catch(e => console.error('Failed to persist message:', e));
 
         const checkedSources = sources.filter(s => s.checked && s.status === SourceStatus.INDEXED);
+        const botMessageId = crypto.randomUUID();
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+
+        // Insert the bot message on the first streamed text, then keep it updated
+        const handleStreamedText = (text: string) => {
+            setMessages(prev => prev.some(m => m.id === botMessageId)
+                ? prev.map(m => m.id === botMessageId ? { ...m, text } : m)
+                : [...prev, { id: botMessageId, sender: 'bot', text, isStreaming: true, createdAt: Date.now() }]
+            );
+        };
         
         try {
-            // Use RAG-based generation with vector search
-            const { text: botResponseText, retrievedChunks } = await generateChatResponse(
-                query, 
-                checkedSources,
-                messages // Pass conversation history for context
-            );
-            
-            console.log(`RAG retrieved ${retrievedChunks?.length || 0} relevant chunks`);
+            const responseOptions = { chatConfig, outputLanguage, embedding: currentNotebook.embedding, onText: handleStreamedText, signal: abortController.signal };
+            const { text: botResponseText, citations, stopped } = isComputeMode && checkedSources.some(s => s.type === 'table')
+                // Compute the answer over the selected tables; citations point at the rows behind each figure
+                ? await generateTableQueryResponse(query, checkedSources, messages, responseOptions)
+                // Use RAG-based generation with vector search
+                : await generateChatResponse(query, checkedSources, messages, responseOptions).then(response => {
+                    console.log(`RAG retrieved ${response.retrievedChunks?.length || 0} relevant chunks`);
+                    // [Source N] in the answer refers to the N-th retrieved chunk
+                    return { ...response, citations: response.retrievedChunks?.map(result => toCitation(result.chunk)) };
+                });
+
+            // Stopped before any text arrived: nothing worth keeping
+            if (stopped && !botResponseText.trim()) {
+                setMessages(prev => prev.filter(m => m.id !== botMessageId));
+                return;
+            }
             
+            // Citations resolve only once the full (or stopped) answer is in
             const botMessage: Message = { 
-                id: (Date.now() + 1).toString(), 
+                id: botMessageId, 
                 sender: 'bot', 
                 text: botResponseText,
                 sources: checkedSources,
-                // Convert retrieved chunks to the Message chunk format if needed
-                chunks: retrievedChunks?.map((result, idx) => ({
-                    sourceIndex: idx,
-                    content: result.chunk.content
-                })),
+                citations,
+                createdAt: Date.now(),
             };
-            setMessages(prev => [...prev, botMessage]);
+            if (activeNotebookIdRef.current !== notebookId) {
+                // The user switched notebooks mid-answer; keep the partial answer in its own history only
+                addMessage(notebookId, botMessage).catch(e => console.error('Failed to persist message:', e));
+                return;
+            }
+            setMessages(prev => prev.some(m => m.id === botMessageId)
+                ? prev.map(m => m.id === botMessageId ? botMessage : m)
+                : [...prev, botMessage]
+            );
+            addMessage(notebookId, botMessage).catch(e => console.error('Failed to persist message:', e));
         } catch (err) {
+            // Cancelled before an answer came, e.g. a table query: handled like an answer stopped before any text
+            if (err instanceof DOMException && err.name === 'AbortError') {
+                setMessages(prev => prev.filter(m => m.id !== botMessageId));
+                return;
+            }
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            const botErrorMessage: Message = { id: botMessageId, sender: 'bot', text: `Sorry, an error occurred: ${errorMessage}`, createdAt: Date.now() };
+            // Saved like any answer, so the question isn't left unanswered after a reload
+            addMessage(notebookId, botErrorMessage).catch(e => console.error('Failed to persist message:', e));
+            if (activeNotebookIdRef.current !== notebookId) return;
             setError(errorMessage);
-            const botErrorMessage: Message = { id: (Date.now() + 1).toString(), sender: 'bot', text: `Sorry, an error occurred: ${errorMessage}` };
-            setMessages(prev => [...prev, botErrorMessage]);
+            setMessages(prev => [...prev.filter(m => m.id !== botMessageId), botErrorMessage]);
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
-    }, [isLoading, sources]);
+    }, [isLoading, sources, messages, currentNotebook, chatConfig, outputLanguage, isComputeMode]);
+
+    const handleStopGeneration = useCallback(() => {
+        abortControllerRef.current?.abort();
+    }, []);
     
-    const handleClearChat = useCallback(() => {
+    const handleClearChat = useCallback(async () => {
         setMessages([]);
-    }, []);
+        if (currentNotebook) {
+            await deleteMessagesByNotebookId(currentNotebook.id);
+        }
+    }, [currentNotebook]);
+
+    const handleCitationClick = useCallback((citation: Citation) => {
+        if (!sources.some(s => s.id === citation.sourceId)) {
+            setError(`"${citation.sourceName}" is no longer in this notebook.`);
+            return;
+        }
+        setViewedCitation(citation);
+        setIsLeftSidebarOpen(true);
+        setActiveTab('sources');
+    }, [sources]);
+
+    const handleCloseSourceView = useCallback(() => setViewedCitation(null), []);
 
     // --- Modals ---
     const handleAddSourceClick = useCallback(() => setIsAddSourceModalOpen(true), []);
@@ -974,21 +1112,43 @@ const App: React.FC = () => {
         setIsDiscoverModalOpen(true);
     }, []);
     const handleOpenConfigureChat = useCallback(() => setIsConfigureChatModalOpen(true), []);
+    const saveNotebookSettings = useCallback(async (settings: Pick<Notebook, 'chatConfig' | 'outputLanguage' | 'chunking' | 'embedding'>) => {
+        if (!currentNotebook) return;
+
+        await updateNotebookSettings(currentNotebook.id, settings);
+        const updatedNotebook = { ...currentNotebook, ...settings };
+        setCurrentNotebook(updatedNotebook);
+        setNotebooks(prev => prev.map(n => n.id === currentNotebook.id ? updatedNotebook : n));
+    }, [currentNotebook]);
+
     const handleSaveChatConfig = useCallback((newConfig: ChatConfig) => {
         setChatConfig(newConfig);
-        // In a real app, you would likely save this to the DB for the current notebook
-        console.log("Chat config saved:", newConfig);
-    }, []);
+        saveNotebookSettings({ chatConfig: newConfig });
+    }, [saveNotebookSettings]);
 
     const handleOpenLanguageModal = useCallback(() => setIsLanguageModalOpen(true), []);
+    const handleOpenSettingsModal = useCallback(() => setIsSettingsModalOpen(true), []);
+    const handleOpenIndexingModal = useCallback(() => setIsIndexingModalOpen(true), []);
     const handleSaveLanguage = useCallback((language: string) => {
         setOutputLanguage(language);
-        console.log("Language saved:", language);
-        // In a real app, this would likely be saved to user preferences or DB.
-    }, []);
+        saveNotebookSettings({ outputLanguage: language });
+    }, [saveNotebookSettings]);
+    const handleSaveIndexing = useCallback(async (settings: IndexingSettings, migration?: IndexingMigration) => {
+        // Saved first: queued jobs read the notebook's settings when they run
+        await saveNotebookSettings(settings);
+        const indexedSourceIds = sources.filter(s => s.status === SourceStatus.INDEXED).map(s => s.id);
+        if (migration === 'reindex') {
+            await reindexSources(indexedSourceIds);
+        } else if (migration === 'reembed') {
+            await reembedSources(await vectorStore.findSourcesWithOtherEmbeddings(indexedSourceIds, getEmbeddingModelKey(settings.embedding)));
+        }
+    }, [saveNotebookSettings, sources]);
+    const handleReembedStaleSources = useCallback(() => reembedSources(staleSourceIds), [staleSourceIds]);
 
     // --- Computed values ---
+    const viewedSource = viewedCitation ? sources.find(s => s.id === viewedCitation.sourceId) || null : null;
     const checkedSourcesCount = sources.filter(s => s.checked).length;
+    const canCompute = sources.some(s => s.checked && s.status === SourceStatus.INDEXED && s.type === 'table');
     const isAllSourcesSelected = sources.length > 0 && checkedSourcesCount === sources.length;
     const totalSourcesCount = sources.length;
 
@@ -1001,6 +1161,8 @@ const App: React.FC = () => {
                 notebookTitle={currentNotebook?.title}
                 onUpdateTitle={(newTitle) => currentNotebook && handleUpdateNotebookTitle(currentNotebook.id, newTitle)}
                 onOpenLanguageModal={handleOpenLanguageModal}
+                onOpenSettingsModal={handleOpenSettingsModal}
+                onOpenIndexingModal={currentView === 'main' ? handleOpenIndexingModal : undefined}
             />
             
             {currentView === 'homepage' ? (
@@ -1009,6 +1171,11 @@ const App: React.FC = () => {
                     notebooks={notebooks}
                     onOpenDeleteConfirmation={handleOpenNotebookDeleteConfirmation}
                     onUpdateNotebookTitle={handleUpdateNotebookTitle}
+                    onExportNotebook={handleExportNotebook}
+                    onImportNotebook={handleImportNotebook}
+                    isImporting={isImportingNotebook}
+                    archiveNotice={archiveNotice}
+                    onDismissArchiveNotice={() => setArchiveNotice(null)}
                 />
             ) : (
                 <>
@@ -1030,6 +1197,12 @@ const App: React.FC = () => {
                                 onToggleAllSources={handleToggleAllSources}
                                 isAllSelected={isAllSourcesSelected}
                                 onOpenDeleteConfirmation={handleOpenDeleteConfirmation}
+                                ingestionJobs={ingestionJobs}
+                                onRetrySource={handleRetrySource}
+                                onCancelSourceIndexing={handleCancelSourceIndexing}
+                                selectedSource={viewedSource}
+                                highlightedCitation={viewedCitation ?? undefined}
+                                onCloseSource={handleCloseSourceView}
                             />
                         </div>
                         {/* Chat View */}
@@ -1039,6 +1212,7 @@ const App: React.FC = () => {
                                 isLoading={isLoading}
                                 error={error}
                                 onSubmit={handleQuerySubmit}
+                                onStop={handleStopGeneration}
                                 sourceCount={checkedSourcesCount}
                                 totalSourcesCount={totalSourcesCount}
                                 onSaveToNote={handleSaveToNote}
@@ -1046,6 +1220,10 @@ const App: React.FC = () => {
                                 onAddSource={handleAddSourceClick}
                                 suggestions={suggestions}
                                 onOpenConfigureChat={handleOpenConfigureChat}
+                                onCitationClick={handleCitationClick}
+                                canCompute={canCompute}
+                                isComputeMode={isComputeMode}
+                                onToggleComputeMode={() => setIsComputeMode(prev => !prev)}
                             />
                         </div>
                         {/* Right Sidebar (Studio) */}
@@ -1059,6 +1237,7 @@ const App: React.FC = () => {
                                 onArtifactSelect={handleArtifactSelect}
                                 onBack={handleBackToStudio}
                                 onDelete={handleOpenArtifactDeleteConfirmation}
+                                onCitationClick={handleCitationClick}
                                 disabled={totalSourcesCount === 0}
                             />
                         </div>
@@ -1102,6 +1281,7 @@ const App: React.FC = () => {
                 isOpen={isDiscoverModalOpen}
                 onClose={() => setIsDiscoverModalOpen(false)}
                 onImport={handleImportSources}
+                chatConfig={chatConfig}
             />
             <ConfigureChatModal
                 isOpen={isConfigureChatModalOpen}
@@ -1115,6 +1295,25 @@ const App: React.FC = () => {
                 onSave={handleSaveLanguage}
                 initialLanguage={outputLanguage}
             />
+            <IndexingModal
+                isOpen={isIndexingModalOpen}
+                onClose={() => setIsIndexingModalOpen(false)}
+                onSave={handleSaveIndexing}
+                onReembed={handleReembedStaleSources}
+                initialChunking={currentNotebook?.chunking ?? DEFAULT_CHUNKING_CONFIG}
+                initialEmbedding={currentNotebook?.embedding ?? DEFAULT_EMBEDDING_CONFIG}
+                indexedSourceCount={sources.filter(s => s.status === SourceStatus.INDEXED).length}
+                staleSourceCount={staleSourceIds.length}
+            />
+            <SettingsModal
+                isOpen={isSettingsModalOpen}
+                onClose={() => setIsSettingsModalOpen(false)}
+            />
+            <DuplicateSourcesModal
+                duplicates={duplicatePrompt?.duplicates ?? null}
+                onResolve={action => duplicatePrompt?.resolve(action)}
+            />
+            <ModelLoadingIndicator />
         </div>
     );
 };
@@ -113,7 +113,7 @@ const AddSourceModal: React.FC<AddSourceModalProps> = ({ isOpen, onClose, onFile
                         Drag & drop or <button onClick={handleChooseFileClick} className="font-medium text-gray-800 hover:underline focus:outline-none">choose file</button> to upload
                     </p>
                     <p className="text-xs text-gray-400 mt-4">
-                        Supported file types: PDF, .txt, Markdown, Audio (e.g. mp3)
+                        Supported file types: PDF, Word (.docx), PowerPoint (.pptx), OpenDocument (.odt), EPUB, CSV, Excel (.xlsx), .txt, Markdown, Audio (e.g. mp3)
                     </p>
                 </div>
 
@@ -177,8 +177,8 @@ const AddSourceModal: React.FC<AddSourceModalProps> = ({ isOpen, onClose, onFile
                     description="Paste in a YouTube URL below to upload as a source in OmnibookLM."
                     inputPlaceholder="Paste YouTube URL *"
                     notes={[
-                        'The AI will analyze the video and audio content of the YouTube video.',
-                        'Only public YouTube videos are supported',
+                        'The video\'s captions are imported as a timestamped transcript.',
+                        'Only public YouTube videos with captions are supported',
                         'Recently uploaded videos may not be available to import',
                         'If upload fails, <a href="#" class="underline">learn more</a> for common reasons.'
                     ]}
@@ -229,7 +229,7 @@ const AddSourceModal: React.FC<AddSourceModalProps> = ({ isOpen, onClose, onFile
                     ref={fileInputRef}
                     hidden
                     onChange={handleFileSelect}
-                    accept="application/pdf,text/plain,text/markdown,audio/*,image/*"
+                    accept="application/pdf,.docx,.pptx,.odt,.epub,.csv,.xlsx,text/plain,text/markdown,audio/*,image/*"
                 />
                 {currentView === 'main' ? renderMainView() : renderDetailView()}
             </div>
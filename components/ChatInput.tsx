@@ -1,20 +1,25 @@
 import React, { useState, useRef } from 'react';
-import { Loader2, ArrowUp, ChevronRight, ChevronLeft } from 'lucide-react';
+import { Square, ArrowUp, ChevronRight, ChevronLeft, Calculator } from 'lucide-react';
 
 
 interface ChatInputProps {
     isLoading: boolean;
     error: string | null;
     onSubmit: (query: string) => void;
+    onStop: () => void;
     sourceCount: number; // Checked sources
     totalSourcesCount: number; // All sources
     suggestions: string[];
+    canCompute: boolean;
+    isComputeMode: boolean; // Questions are computed over the selected tables
+    onToggleComputeMode: () => void;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ isLoading, error, onSubmit, sourceCount, totalSourcesCount, suggestions }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ isLoading, error, onSubmit, onStop, sourceCount, totalSourcesCount, suggestions, canCompute, isComputeMode, onToggleComputeMode }) => {
     const [inputValue, setInputValue] = useState('');
     const carouselRef = useRef<HTMLDivElement>(null);
     const isDisabled = totalSourcesCount === 0;
+    const isComputing = canCompute && isComputeMode;
 
     const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         setInputValue(e.target.value);
@@ -68,22 +73,44 @@ const ChatInput: React.FC<ChatInputProps> = ({ isLoading, error, onSubmit, sourc
                                 value={inputValue}
                                 onChange={handleInputChange}
                                 onKeyDown={handleKeyDown}
-                                placeholder={isDisabled ? "Upload a source to get started" : "Start typing..."}
+                                placeholder={isDisabled ? "Upload a source to get started" : isComputing ? "Ask for a total, average or breakdown..." : "Start typing..."}
                                 className="w-full p-3 rounded-lg bg-transparent text-gray-800 resize-none focus:outline-none focus:ring-0 placeholder:text-gray-500 text-sm no-scrollbar disabled:cursor-not-allowed"
                                 rows={1}
                                 disabled={isDisabled}
                             />
                         </div>
                         <div className="flex items-center gap-3 pr-2">
+                            {canCompute && (
+                                <button
+                                    onClick={onToggleComputeMode}
+                                    className={`h-9 flex items-center gap-1.5 px-2.5 rounded-lg text-sm font-medium transition-colors flex-shrink-0 ${isComputing ? 'bg-gray-800 text-white hover:bg-gray-700' : 'text-gray-600 hover:bg-[#f8f8f7]'}`}
+                                    aria-pressed={isComputing}
+                                    title="Compute answers over every row of the selected tables"
+                                >
+                                    <Calculator className="h-4 w-4" />
+                                    Compute
+                                </button>
+                            )}
                             <span className="text-sm text-gray-500 font-medium whitespace-nowrap">{sourceCount} source{sourceCount !== 1 ? 's' : ''}</span>
-                            <button
-                                onClick={handleSubmit}
-                                disabled={isSendButtonDisabled}
-                                className={`w-9 h-9 flex items-center justify-center rounded-lg transition-colors flex-shrink-0 bg-gray-800 text-white ${isSendButtonDisabled ? 'opacity-40 cursor-not-allowed' : 'hover:bg-gray-700'}`}
-                                aria-label={isDisabled ? 'Upload a source to get started' : 'Send message'}
-                            >
-                                {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <ArrowUp className="h-5 w-5" />}
-                            </button>
+                            {isLoading ? (
+                                <button
+                                    onClick={onStop}
+                                    className="w-9 h-9 flex items-center justify-center rounded-lg transition-colors flex-shrink-0 bg-gray-800 text-white hover:bg-gray-700"
+                                    aria-label="Stop generating"
+                                    title="Stop generating"
+                                >
+                                    <Square className="h-4 w-4 fill-current" />
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleSubmit}
+                                    disabled={isSendButtonDisabled}
+                                    className={`w-9 h-9 flex items-center justify-center rounded-lg transition-colors flex-shrink-0 bg-gray-800 text-white ${isSendButtonDisabled ? 'opacity-40 cursor-not-allowed' : 'hover:bg-gray-700'}`}
+                                    aria-label={isDisabled ? 'Upload a source to get started' : 'Send message'}
+                                >
+                                    <ArrowUp className="h-5 w-5" />
+                                </button>
+                            )}
                         </div>
                     </div>
                      {/* Hide suggestions when no sources are available */}
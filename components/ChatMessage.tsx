@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { Message, Source } from '../types';
+import { Message, Source, Citation, SourceStatus } from '../types';
 import { SourceIcon } from './SourceIcon';
 import { Bookmark, Copy, Check } from 'lucide-react';
+import { renderCitationMarkers, formatCitationLocation, getCitationLink } from '../services/citationService';
 
 
 // Using a global 'marked' instance from the script tag in index.html
@@ -10,44 +11,57 @@ declare const marked: {
 };
 
 interface CitationPopoverProps {
-    source: Source;
-    chunkContent: string;
+    citation: Citation;
+    source?: Source;
     style: React.CSSProperties;
     onMouseEnter: () => void;
     onMouseLeave: () => void;
 }
 
-const CitationPopover: React.FC<CitationPopoverProps> = ({ source, chunkContent, style, onMouseEnter, onMouseLeave }) => (
-    <div
-        style={style}
-        className="absolute z-20 w-80 rounded-lg shadow-lg border border-gray-200 bg-white/90 backdrop-blur-md transform -translate-x-1/2 -translate-y-full -mt-3"
-        role="tooltip"
-        onMouseEnter={onMouseEnter}
-        onMouseLeave={onMouseLeave}
-    >
-        <div className="p-4">
-            <div className="flex items-center gap-3 mb-3">
-                <div className="w-7 h-7 flex-shrink-0 bg-white rounded-full flex items-center justify-center border border-gray-200">
-                    <SourceIcon type={source.type} status={source.status} sizeClass="h-4 w-4" />
+const CitationPopover: React.FC<CitationPopoverProps> = ({ citation, source, style, onMouseEnter, onMouseLeave }) => {
+    const link = getCitationLink(citation, source);
+    return (
+        <div
+            style={style}
+            className="absolute z-20 w-80 rounded-lg shadow-lg border border-gray-200 bg-white/90 backdrop-blur-md transform -translate-x-1/2 -translate-y-full -mt-3"
+            role="tooltip"
+            onMouseEnter={onMouseEnter}
+            onMouseLeave={onMouseLeave}
+        >
+            <div className="p-4">
+                <div className="flex items-center gap-3 mb-3">
+                    <div className="w-7 h-7 flex-shrink-0 bg-white rounded-full flex items-center justify-center border border-gray-200">
+                        <SourceIcon type={source?.type || 'file'} status={source?.status || SourceStatus.INDEXED} sizeClass="h-4 w-4" />
+                    </div>
+                    <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate" title={citation.sourceName}>{citation.sourceName}</p>
+                        {link ? (
+                            <a href={link} target="_blank" rel="noopener noreferrer" className="text-xs text-gray-500 hover:text-gray-800 underline">
+                                {formatCitationLocation(citation)}
+                            </a>
+                        ) : (
+                            <p className="text-xs text-gray-500">{formatCitationLocation(citation)}</p>
+                        )}
+                    </div>
                 </div>
-                <p className="text-sm font-medium text-gray-900 truncate" title={source.name}>{source.name}</p>
+                <p className="text-sm text-gray-700 line-clamp-4" title={citation.content}>{citation.content}</p>
             </div>
-            <p className="text-sm text-gray-700 line-clamp-4" title={chunkContent}>{chunkContent}</p>
+            {/* Arrow */}
+            <div className="absolute left-1/2 -translate-x-1/2 bottom-[-6px] w-3 h-3 bg-white/90 border-r border-b border-gray-200 transform rotate-45"></div>
         </div>
-        {/* Arrow */}
-        <div className="absolute left-1/2 -translate-x-1/2 bottom-[-6px] w-3 h-3 bg-white/90 border-r border-b border-gray-200 transform rotate-45"></div>
-    </div>
-);
+    );
+};
 
 
 interface ChatMessageProps {
     message: Message;
     onSaveToNote?: (message: Message) => void;
+    onCitationClick?: (citation: Citation) => void;
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSaveToNote }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSaveToNote, onCitationClick }) => {
     const isUser = message.sender === 'user';
-    const [popoverState, setPopoverState] = useState<{ source: Source; chunkContent: string; style: React.CSSProperties } | null>(null);
+    const [popoverState, setPopoverState] = useState<{ citation: Citation; source?: Source; style: React.CSSProperties } | null>(null);
     const [isCopied, setIsCopied] = useState(false);
     const contentRef = useRef<HTMLDivElement>(null);
     const hideTimerRef = useRef<number | null>(null);
@@ -62,15 +76,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSaveToNote }) => {
 
     const processedText = useMemo(() => {
         if (isUser || !message.text) return message.text;
+        // Citations resolve once streaming finishes; until then markers stay as plain text
+        if (message.isStreaming) return message.text;
         
-        return message.text.replace(/\[source:(\d+)\]/g, (match, p1) => {
-            const chunkIndex = parseInt(p1, 10) - 1;
-            if (message.chunks && message.chunks[chunkIndex]) {
-                return `<button class="citation-button" data-chunk-index="${chunkIndex}" aria-label="Source chunk ${p1}">${p1}</button>`;
-            }
-            return ''; // Remove marker if chunk not found
-        });
-    }, [message.text, message.chunks, isUser]);
+        return renderCitationMarkers(message.text, message.citations);
+    }, [message.text, message.citations, message.isStreaming, isUser]);
 
     const rawMarkup = useMemo(() => {
         if (isUser) return '';
@@ -99,25 +109,34 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSaveToNote }) => {
             const target = e.target as HTMLElement;
             if (target.classList.contains('citation-button')) {
                 cancelHidePopover();
-                const chunkIndex = parseInt(target.dataset.chunkIndex || '', 10);
-                if (message.chunks && !isNaN(chunkIndex) && message.chunks[chunkIndex]) {
-                    const chunk = message.chunks[chunkIndex];
-                    const source = message.sources?.[chunk.sourceIndex];
-                    
-                    if (source) {
-                        const rect = target.getBoundingClientRect();
-                        const containerRect = contentEl.getBoundingClientRect();
-
-                        setPopoverState({
-                            source,
-                            chunkContent: chunk.content,
-                            style: {
-                                top: rect.top - containerRect.top,
-                                left: rect.left - containerRect.left + rect.width / 2,
-                                position: 'absolute'
-                            },
-                        });
-                    }
+                const citationIndex = parseInt(target.dataset.citationIndex || '', 10);
+                const citation = !isNaN(citationIndex) ? message.citations?.[citationIndex] : undefined;
+                if (citation) {
+                    const source = message.sources?.find(s => s.id === citation.sourceId);
+                    const rect = target.getBoundingClientRect();
+                    const containerRect = contentEl.getBoundingClientRect();
+
+                    setPopoverState({
+                        citation,
+                        source,
+                        style: {
+                            top: rect.top - containerRect.top,
+                            left: rect.left - containerRect.left + rect.width / 2,
+                            position: 'absolute'
+                        },
+                    });
+                }
+            }
+        };
+
+        const handleClick = (e: MouseEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.classList.contains('citation-button')) {
+                const citationIndex = parseInt(target.dataset.citationIndex || '', 10);
+                const citation = !isNaN(citationIndex) ? message.citations?.[citationIndex] : undefined;
+                if (citation) {
+                    setPopoverState(null);
+                    onCitationClick?.(citation);
                 }
             }
         };
@@ -131,13 +150,15 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSaveToNote }) => {
 
         contentEl.addEventListener('mouseover', handleMouseOver);
         contentEl.addEventListener('mouseout', handleMouseOut);
+        contentEl.addEventListener('click', handleClick);
 
         return () => {
             contentEl.removeEventListener('mouseover', handleMouseOver);
             contentEl.removeEventListener('mouseout', handleMouseOut);
+            contentEl.removeEventListener('click', handleClick);
             cancelHidePopover();
         };
-    }, [rawMarkup, message.chunks, message.sources, isUser, cancelHidePopover, hidePopover]);
+    }, [rawMarkup, message.citations, message.sources, isUser, cancelHidePopover, hidePopover, onCitationClick]);
 
     if (isUser) {
          return (
@@ -157,15 +178,15 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSaveToNote }) => {
                 <div className="relative">
                     <div ref={contentRef} className="markdown-body" dangerouslySetInnerHTML={{ __html: rawMarkup }} />
                     {popoverState && <CitationPopover 
+                        citation={popoverState.citation} 
                         source={popoverState.source} 
-                        chunkContent={popoverState.chunkContent} 
                         style={popoverState.style}
                         onMouseEnter={cancelHidePopover}
                         onMouseLeave={hidePopover}
                     />}
                 </div>
 
-                {message.text && (
+                {message.text && !message.isStreaming && (
                     <div className="mt-4 flex items-center gap-2">
                         <button
                             onClick={() => onSaveToNote?.(message)}
@@ -1,7 +1,7 @@
 
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Message } from '../types';
+import { Message, Citation } from '../types';
 import ChatInput from './ChatInput';
 import WelcomeMessage from './WelcomeMessage';
 import ChatMessage from './ChatMessage';
@@ -12,6 +12,7 @@ interface ChatViewProps {
     isLoading: boolean;
     error: string | null;
     onSubmit: (query: string) => void;
+    onStop: () => void;
     sourceCount: number;
     totalSourcesCount: number;
     onSaveToNote: (message: Message) => void;
@@ -19,6 +20,10 @@ interface ChatViewProps {
     onAddSource: () => void;
     suggestions: string[];
     onOpenConfigureChat: () => void;
+    onCitationClick: (citation: Citation) => void;
+    canCompute: boolean; // A CSV or spreadsheet source is selected
+    isComputeMode: boolean;
+    onToggleComputeMode: () => void;
 }
 
 const LoadingIndicator = () => {
@@ -34,7 +39,7 @@ const LoadingIndicator = () => {
     return <p className="text-gray-600">Let me learn it{dots}</p>;
 };
 
-const ChatView: React.FC<ChatViewProps> = ({ messages, isLoading, error, onSubmit, sourceCount, totalSourcesCount, onSaveToNote, onClearChat, onAddSource, suggestions, onOpenConfigureChat }) => {
+const ChatView: React.FC<ChatViewProps> = ({ messages, isLoading, error, onSubmit, onStop, sourceCount, totalSourcesCount, onSaveToNote, onClearChat, onAddSource, suggestions, onOpenConfigureChat, onCitationClick, canCompute, isComputeMode, onToggleComputeMode }) => {
     const chatContainerRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -44,6 +49,7 @@ const ChatView: React.FC<ChatViewProps> = ({ messages, isLoading, error, onSubmi
     }, [messages, isLoading]);
     
     const showWelcomeArea = messages.length === 0 && !isLoading;
+    const isStreaming = !!messages[messages.length - 1]?.isStreaming;
 
     return (
         <div className="flex-1 min-w-0 h-full bg-white md:rounded-lg md:border md:border-gray-200 flex flex-col overflow-hidden">
@@ -74,9 +80,9 @@ const ChatView: React.FC<ChatViewProps> = ({ messages, isLoading, error, onSubmi
                 ) : (
                     <div className="max-w-5xl mx-auto px-3 py-6 space-y-6 w-full">
                         {messages.map((msg) => (
-                           <ChatMessage key={msg.id} message={msg} onSaveToNote={onSaveToNote} />
+                           <ChatMessage key={msg.id} message={msg} onSaveToNote={onSaveToNote} onCitationClick={onCitationClick} />
                         ))}
-                        {isLoading && (
+                        {isLoading && !isStreaming && (
                             <div className="flex justify-start">
                                 <LoadingIndicator />
                             </div>
@@ -88,9 +94,13 @@ const ChatView: React.FC<ChatViewProps> = ({ messages, isLoading, error, onSubmi
                 isLoading={isLoading} 
                 error={error} 
                 onSubmit={onSubmit} 
+                onStop={onStop}
                 sourceCount={sourceCount} 
                 totalSourcesCount={totalSourcesCount}
                 suggestions={suggestions}
+                canCompute={canCompute}
+                isComputeMode={isComputeMode}
+                onToggleComputeMode={onToggleComputeMode}
             />
         </div>
     );
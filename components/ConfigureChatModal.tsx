@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, Check } from 'lucide-react';
-import { ChatConfig, ConversationalStyle, ResponseLength } from '../types';
+import { ChatConfig, ConversationalStyle, ResponseLength, ProviderId } from '../types';
+import { PROVIDER_OPTIONS, DEFAULT_PROVIDER_ID, getProvider } from '../services/providers';
 
 interface ConfigureChatModalProps {
     isOpen: boolean;
@@ -21,8 +22,21 @@ const ConfigureChatModal: React.FC<ConfigureChatModalProps> = ({ isOpen, onClose
     const [selectedStyle, setSelectedStyle] = useState<ConversationalStyle>(initialConfig.style);
     const [selectedLength, setSelectedLength] = useState<ResponseLength>(initialConfig.length);
     const [customPrompt, setCustomPrompt] = useState(initialConfig.customPrompt || '');
+    const [selectedProvider, setSelectedProvider] = useState<ProviderId>(initialConfig.provider || DEFAULT_PROVIDER_ID);
+    const [model, setModel] = useState(initialConfig.model || '');
     const MAX_CHARS = 500;
 
+    // Re-sync with the current notebook's config each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedStyle(initialConfig.style);
+            setSelectedLength(initialConfig.length);
+            setCustomPrompt(initialConfig.customPrompt || '');
+            setSelectedProvider(initialConfig.provider || DEFAULT_PROVIDER_ID);
+            setModel(initialConfig.model || '');
+        }
+    }, [isOpen, initialConfig]);
+
     if (!isOpen) return null;
 
     const handleSave = () => {
@@ -30,11 +44,20 @@ const ConfigureChatModal: React.FC<ConfigureChatModalProps> = ({ isOpen, onClose
             style: selectedStyle, 
             length: selectedLength,
             customPrompt: selectedStyle === 'Custom' ? customPrompt : '',
+            provider: selectedProvider,
+            model: model.trim() || undefined,
         });
         onClose();
     };
     
     const selectedStyleDescription = styleOptions.find(opt => opt.id === selectedStyle)?.description || '';
+    const selectedProviderOption = PROVIDER_OPTIONS.find(opt => opt.id === selectedProvider);
+
+    const handleSelectProvider = (id: ProviderId) => {
+        if (id === selectedProvider) return;
+        setSelectedProvider(id);
+        setModel(''); // Model names are provider specific
+    };
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog" onClick={onClose}>
@@ -111,6 +134,40 @@ const ConfigureChatModal: React.FC<ConfigureChatModalProps> = ({ isOpen, onClose
                             ))}
                         </div>
                     </div>
+
+                    {/* Model Provider */}
+                    <div>
+                        <h3 className="text-base font-medium text-gray-800 mb-3">Choose the AI model</h3>
+                        <div className="inline-flex items-center p-0.5 border border-gray-300 rounded-lg bg-gray-100">
+                            {PROVIDER_OPTIONS.map(opt => (
+                                <button
+                                    key={opt.id}
+                                    onClick={() => handleSelectProvider(opt.id)}
+                                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors flex items-center gap-1 ${
+                                        selectedProvider === opt.id
+                                        ? 'bg-gray-900 text-white'
+                                        : 'bg-transparent text-gray-600 hover:bg-gray-200'
+                                    }`}
+                                >
+                                    {selectedProvider === opt.id && <Check className="w-4 h-4" />}
+                                    {opt.name}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-sm text-gray-500 mt-3">{selectedProviderOption?.description}</p>
+                        <input
+                            type="text"
+                            value={model}
+                            onChange={(e) => setModel(e.target.value)}
+                            list="configure-chat-models"
+                            placeholder={`Model (default: ${getProvider(selectedProvider).defaultModel})`}
+                            aria-label="Model"
+                            className="mt-3 w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 text-sm"
+                        />
+                        <datalist id="configure-chat-models">
+                            {selectedProviderOption?.suggestedModels.map(m => <option key={m} value={m} />)}
+                        </datalist>
+                    </div>
                 </div>
 
                 {/* Footer */}
@@ -1,12 +1,13 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { X, Wand2, WandSparkles, Loader2, ArrowLeft, ThumbsUp, ThumbsDown, FileText, ExternalLink } from 'lucide-react';
-import { discoverSources } from '../services/geminiService';
-import { DiscoverResults, DiscoveredSource } from '../types';
+import { discoverSources } from '../services/chatService';
+import { ChatConfig, DiscoverResults, DiscoveredSource } from '../types';
 
 interface DiscoverSourcesModalProps {
     isOpen: boolean;
     onClose: () => void;
     onImport: (sources: DiscoveredSource[]) => void;
+    chatConfig?: ChatConfig; // Selects the notebook's LLM provider and model
 }
 
 const renderWithEmphasis = (text: string) => {
@@ -21,7 +22,7 @@ const renderWithEmphasis = (text: string) => {
 };
 
 
-const DiscoverSourcesModal: React.FC<DiscoverSourcesModalProps> = ({ isOpen, onClose, onImport }) => {
+const DiscoverSourcesModal: React.FC<DiscoverSourcesModalProps> = ({ isOpen, onClose, onImport, chatConfig }) => {
     const [view, setView] = useState<'search' | 'loading' | 'results' | 'error'>('search');
     const [topic, setTopic] = useState('');
     const [results, setResults] = useState<DiscoverResults | null>(null);
@@ -46,7 +47,7 @@ const DiscoverSourcesModal: React.FC<DiscoverSourcesModalProps> = ({ isOpen, onC
         setView('loading');
         setError(null);
         try {
-            const res = await discoverSources(searchTopic);
+            const res = await discoverSources(searchTopic, chatConfig);
             setResults(res);
             setView('results');
         } catch (err) {
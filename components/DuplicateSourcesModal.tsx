@@ -0,0 +1,65 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import type { DuplicateAction, DuplicateSource } from '../services/deduplicationService';
+
+interface DuplicateSourcesModalProps {
+    duplicates: DuplicateSource[] | null;
+    onResolve: (action: DuplicateAction) => void;
+}
+
+const DuplicateSourcesModal: React.FC<DuplicateSourcesModalProps> = ({ duplicates, onResolve }) => {
+    if (!duplicates) return null;
+
+    // Repeats within the upload itself have nothing to replace
+    const canReplace = duplicates.some(duplicate => !duplicate.sameBatch);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog" onClick={() => onResolve('skip')}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md" role="document" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6">
+                    <div className="sm:flex sm:items-start">
+                        <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 sm:mx-0 sm:h-10 sm:w-10">
+                            <Copy className="h-6 w-6 text-amber-600" aria-hidden="true" />
+                        </div>
+                        <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left min-w-0">
+                            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                                {duplicates.length === 1 ? 'This source is already added' : `${duplicates.length} sources are already added`}
+                            </h3>
+                            <p className="mt-2 text-sm text-gray-500">
+                                {duplicates.length === 1 ? 'Its' : 'Their'} content exactly matches a source in this notebook. Adding it again would only repeat the same passages in answers.
+                            </p>
+                            <ul className="mt-3 space-y-1 max-h-40 overflow-y-auto sidebar-scroll text-sm text-gray-700">
+                                {duplicates.map(({ source, existing }) => (
+                                    <li key={source.id} className="truncate" title={`${source.name} matches ${existing.name}`}>
+                                        <span className="font-semibold text-gray-600">{source.name}</span>
+                                        {existing.name !== source.name && <span className="text-gray-500"> matches {existing.name}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                </div>
+                <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse rounded-b-lg">
+                    <button
+                        type="button"
+                        className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gray-800 text-base font-medium text-white hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 sm:ml-3 sm:w-auto sm:text-sm transition-colors"
+                        onClick={() => onResolve('skip')}
+                    >
+                        Skip duplicates
+                    </button>
+                    {canReplace && (
+                        <button
+                            type="button"
+                            className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm transition-colors"
+                            onClick={() => onResolve('replace')}
+                        >
+                            Replace existing
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateSourcesModal;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Settings, Ratio, Settings2, UserCircle, Globe, Sun, Moon, MonitorSmartphone, ChevronRight } from 'lucide-react';
+import { Settings, Ratio, Settings2, UserCircle, Globe, Sun, Moon, MonitorSmartphone, ChevronRight, KeyRound, Rows3 } from 'lucide-react';
 
 interface HeaderProps {
     activeTab: 'sources' | 'chat' | 'studio';
@@ -7,9 +7,11 @@ interface HeaderProps {
     notebookTitle?: string;
     onUpdateTitle?: (newTitle: string) => void;
     onOpenLanguageModal: () => void;
+    onOpenSettingsModal: () => void;
+    onOpenIndexingModal?: () => void; // Only while a notebook is open
 }
 
-const Header: React.FC<HeaderProps> = ({ activeTab, onNavigateHome, notebookTitle, onUpdateTitle, onOpenLanguageModal }) => {
+const Header: React.FC<HeaderProps> = ({ activeTab, onNavigateHome, notebookTitle, onUpdateTitle, onOpenLanguageModal, onOpenSettingsModal, onOpenIndexingModal }) => {
     const [title, setTitle] = useState(notebookTitle || 'Untitled Notebook');
     const [isSettingsMenuOpen, setIsSettingsMenuOpen] = useState(false);
     const [isThemeSubMenuOpen, setIsThemeSubMenuOpen] = useState(false);
@@ -109,6 +111,16 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onNavigateHome, notebookTitl
                                 <Globe className="w-5 h-5 text-gray-500" />
                                 <span>Output Language</span>
                             </button>
+                            {onOpenIndexingModal && (
+                                <button onClick={() => { onOpenIndexingModal(); setIsSettingsMenuOpen(false); }} className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-800 hover:bg-gray-100">
+                                    <Rows3 className="w-5 h-5 text-gray-500" />
+                                    <span>Indexing</span>
+                                </button>
+                            )}
+                            <button onClick={() => { onOpenSettingsModal(); setIsSettingsMenuOpen(false); }} className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-800 hover:bg-gray-100">
+                                <KeyRound className="w-5 h-5 text-gray-500" />
+                                <span>API Keys & Models</span>
+                            </button>
                             <div
                                 className="relative"
                                 onMouseEnter={() => setIsThemeSubMenuOpen(true)}
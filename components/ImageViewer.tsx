@@ -0,0 +1,46 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { locatePassage } from '../services/pdfService';
+import type { OcrWord } from '../services/ocrService';
+
+interface ImageViewerProps {
+    src: string;
+    alt: string;
+    words?: OcrWord[]; // OCR word boxes of the image
+    highlight?: string; // Passage to highlight
+}
+
+const ImageViewer: React.FC<ImageViewerProps> = ({ src, alt, words, highlight }) => {
+    const firstHighlightRef = useRef<HTMLDivElement>(null);
+
+    const highlights = useMemo(() => {
+        if (!words || !highlight) return [];
+        return locatePassage(words.map(word => word.text), highlight).map(index => words[index]);
+    }, [words, highlight]);
+
+    useEffect(() => {
+        firstHighlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [highlights]);
+
+    return (
+        <div className="rounded-lg border border-gray-200 overflow-hidden">
+            <div className="relative bg-white">
+                <img src={src} alt={alt} className="block w-full h-auto" />
+                {highlights.map((word, index) => (
+                    <div
+                        key={index}
+                        ref={index === 0 ? firstHighlightRef : undefined}
+                        className="absolute bg-yellow-300/40 pointer-events-none rounded-sm"
+                        style={{
+                            left: `${word.left * 100}%`,
+                            top: `${word.top * 100}%`,
+                            width: `${word.width * 100}%`,
+                            height: `${word.height * 100}%`,
+                        }}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ImageViewer;
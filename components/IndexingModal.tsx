@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { X, Check, AlertTriangle } from 'lucide-react';
+import LocalModelStatus from './LocalModelStatus';
+import { ChunkingConfig, EmbeddingConfig, EmbeddingProviderId, SourceLanguage } from '../types';
+import { DEFAULT_CHUNKING_CONFIG, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, normalizeChunkingConfig } from '../services/chunkingService';
+import { EMBEDDING_PROVIDER_OPTIONS, SOURCE_LANGUAGE_OPTIONS, getEmbeddingModel, getEmbeddingModelKey, getLocalModelForLanguage } from '../services/embeddingProviders';
+
+export interface IndexingSettings {
+    chunking: ChunkingConfig;
+    embedding: EmbeddingConfig;
+}
+
+// What to do with indexed sources after saving: embed their stored chunks again, or parse and chunk them again too
+export type IndexingMigration = 'reembed' | 'reindex';
+
+interface IndexingModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (settings: IndexingSettings, migration?: IndexingMigration) => void;
+    onReembed: () => void; // Re-embed the sources embedded with another model
+    initialChunking: ChunkingConfig;
+    initialEmbedding: EmbeddingConfig;
+    indexedSourceCount: number;
+    staleSourceCount: number; // Indexed sources embedded with a model other than initialEmbedding's
+}
+
+const IndexingModal: React.FC<IndexingModalProps> = ({ isOpen, onClose, onSave, onReembed, initialChunking, initialEmbedding, indexedSourceCount, staleSourceCount }) => {
+    const [selectedProvider, setSelectedProvider] = useState<EmbeddingProviderId>(initialEmbedding.provider);
+    const [model, setModel] = useState(initialEmbedding.model || '');
+    const [language, setLanguage] = useState<SourceLanguage>(initialEmbedding.language ?? 'english');
+    const [reembed, setReembed] = useState(true);
+    const [chunkSize, setChunkSize] = useState(String(initialChunking.chunkSize));
+    const [chunkOverlap, setChunkOverlap] = useState(String(initialChunking.chunkOverlap));
+
+    // Re-sync with the current notebook's settings each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedProvider(initialEmbedding.provider);
+            setModel(initialEmbedding.model || '');
+            setLanguage(initialEmbedding.language ?? 'english');
+            setReembed(true);
+            setChunkSize(String(initialChunking.chunkSize));
+            setChunkOverlap(String(initialChunking.chunkOverlap));
+        }
+    }, [isOpen, initialEmbedding, initialChunking]);
+
+    if (!isOpen) return null;
+
+    const embedding: EmbeddingConfig = { provider: selectedProvider, model: model.trim() || undefined, language };
+    const modelChanged = getEmbeddingModelKey(embedding) !== getEmbeddingModelKey(initialEmbedding);
+    const selectedProviderOption = EMBEDDING_PROVIDER_OPTIONS.find(opt => opt.id === selectedProvider);
+
+    const handleSelectProvider = (id: EmbeddingProviderId) => {
+        if (id === selectedProvider) return;
+        setSelectedProvider(id);
+        setModel(''); // Model names are provider specific
+    };
+
+    const handleSave = (reindex: boolean) => {
+        const chunking = normalizeChunkingConfig({
+            chunkSize: Number(chunkSize) || DEFAULT_CHUNKING_CONFIG.chunkSize,
+            chunkOverlap: Number(chunkOverlap) || 0,
+        });
+        const migration: IndexingMigration | undefined = reindex
+            ? 'reindex'
+            : modelChanged && reembed && indexedSourceCount > 0 ? 'reembed' : undefined;
+        onSave({ chunking, embedding }, migration);
+        onClose();
+    };
+
+    const handleReembed = () => {
+        onReembed();
+        onClose();
+    };
+
+    const handleResetChunking = () => {
+        setChunkSize(String(DEFAULT_CHUNKING_CONFIG.chunkSize));
+        setChunkOverlap(String(DEFAULT_CHUNKING_CONFIG.chunkOverlap));
+    };
+
+    const inputClassName = "w-full h-12 px-3 bg-white text-base border border-gray-300 focus:outline-none focus:ring-1 focus:ring-gray-800 focus:border-gray-800 sm:text-sm rounded-lg";
+    const plural = (count: number) => count === 1 ? `${count} source` : `${count} sources`;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl" role="document" onClick={(e) => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 pl-6 border-b border-gray-200">
+                    <h2 className="text-xl font-medium text-gray-800">Indexing</h2>
+                    <button onClick={onClose} aria-label="Close modal" className="p-2 rounded-full hover:bg-gray-100 text-gray-600">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="p-6 space-y-8 max-h-[75vh] overflow-y-auto sidebar-scroll">
+                    {/* Source Language */}
+                    <div>
+                        <h3 className="text-base font-medium text-gray-800 mb-3">Source language</h3>
+                        <div className="inline-flex flex-wrap items-center p-0.5 border border-gray-300 rounded-lg bg-gray-100">
+                            {SOURCE_LANGUAGE_OPTIONS.map(opt => (
+                                <button
+                                    key={opt.id}
+                                    onClick={() => setLanguage(opt.id)}
+                                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors flex items-center gap-1 ${
+                                        language === opt.id
+                                        ? 'bg-gray-900 text-white'
+                                        : 'bg-transparent text-gray-600 hover:bg-gray-200'
+                                    }`}
+                                >
+                                    {language === opt.id && <Check className="w-4 h-4" />}
+                                    {opt.name}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-sm text-gray-500 mt-3">
+                            {selectedProvider === 'local'
+                                ? `Picks the local model: ${getLocalModelForLanguage(language)} unless you enter another one below.`
+                                : 'Only picks the model for local embeddings; hosted models handle most languages.'}
+                        </p>
+                    </div>
+
+                    {/* Embedding Model */}
+                    <div>
+                        <h3 className="text-base font-medium text-gray-800 mb-3">Embedding model</h3>
+                        <div className="inline-flex flex-wrap items-center p-0.5 border border-gray-300 rounded-lg bg-gray-100">
+                            {EMBEDDING_PROVIDER_OPTIONS.map(opt => (
+                                <button
+                                    key={opt.id}
+                                    onClick={() => handleSelectProvider(opt.id)}
+                                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors flex items-center gap-1 ${
+                                        selectedProvider === opt.id
+                                        ? 'bg-gray-900 text-white'
+                                        : 'bg-transparent text-gray-600 hover:bg-gray-200'
+                                    }`}
+                                >
+                                    {selectedProvider === opt.id && <Check className="w-4 h-4" />}
+                                    {opt.name}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-sm text-gray-500 mt-3">{selectedProviderOption?.description}</p>
+                        <input
+                            type="text"
+                            value={model}
+                            onChange={(e) => setModel(e.target.value)}
+                            list="indexing-embedding-models"
+                            placeholder={`Model (default: ${getEmbeddingModel({ provider: selectedProvider, language })})`}
+                            aria-label="Embedding model"
+                            className="mt-3 w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 text-sm"
+                        />
+                        <datalist id="indexing-embedding-models">
+                            {selectedProviderOption?.suggestedModels.map(m => <option key={m} value={m} />)}
+                        </datalist>
+                        {selectedProvider === 'local' && <LocalModelStatus model={getEmbeddingModel(embedding)} />}
+
+                        {modelChanged && indexedSourceCount > 0 ? (
+                            <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                                <p>
+                                    {plural(indexedSourceCount)} in this notebook {indexedSourceCount === 1 ? 'was' : 'were'} embedded with {getEmbeddingModel(initialEmbedding)}. Passages are only compared with questions embedded by the same model, so they can't be searched until they are re-embedded. Save and re-index instead to also split them by the new model's tokenizer.
+                                </p>
+                                <label className="mt-2 flex items-center gap-2 font-medium">
+                                    <input type="checkbox" checked={reembed} onChange={(e) => setReembed(e.target.checked)} className="rounded border-amber-300" />
+                                    Re-embed them after saving
+                                </label>
+                            </div>
+                        ) : !modelChanged && staleSourceCount > 0 && (
+                            <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-start gap-3">
+                                <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                                <p className="flex-1">
+                                    {plural(staleSourceCount)} {staleSourceCount === 1 ? 'was' : 'were'} embedded with a different model and can't be searched with {getEmbeddingModel(initialEmbedding)}.
+                                </p>
+                                <button
+                                    onClick={handleReembed}
+                                    className="px-3 py-1 bg-white border border-amber-300 rounded-md font-medium hover:bg-amber-100 transition-colors flex-shrink-0"
+                                >
+                                    Re-embed now
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Chunking */}
+                    <div>
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="text-base font-medium text-gray-800">Passages</h3>
+                            <button onClick={handleResetChunking} className="text-sm text-gray-600 hover:text-gray-900">
+                                Reset to defaults
+                            </button>
+                        </div>
+                        <p className="text-gray-600 text-sm mb-4">
+                            Sources are split into passages along their headings, lists and code blocks. Smaller passages make citations more precise; larger ones give answers more context. Changes apply to sources indexed from now on; re-index to apply them to the rest.
+                        </p>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="chunk-size" className="block text-sm font-medium text-gray-500 mb-2">
+                                    Passage size (tokens)
+                                </label>
+                                <input
+                                    id="chunk-size"
+                                    type="number"
+                                    min={MIN_CHUNK_SIZE}
+                                    max={MAX_CHUNK_SIZE}
+                                    value={chunkSize}
+                                    onChange={(e) => setChunkSize(e.target.value)}
+                                    className={inputClassName}
+                                />
+                                <p className="text-xs text-gray-500 mt-1">{MIN_CHUNK_SIZE}–{MAX_CHUNK_SIZE}</p>
+                            </div>
+                            <div>
+                                <label htmlFor="chunk-overlap" className="block text-sm font-medium text-gray-500 mb-2">
+                                    Overlap (tokens)
+                                </label>
+                                <input
+                                    id="chunk-overlap"
+                                    type="number"
+                                    min={0}
+                                    value={chunkOverlap}
+                                    onChange={(e) => setChunkOverlap(e.target.value)}
+                                    className={inputClassName}
+                                />
+                                <p className="text-xs text-gray-500 mt-1">Up to half the passage size</p>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 p-4 bg-white rounded-b-lg border-t border-gray-200">
+                    {indexedSourceCount > 0 && (
+                        <button
+                            onClick={() => handleSave(true)}
+                            title={`Parse, split and embed ${plural(indexedSourceCount)} again with these settings`}
+                            className="px-6 py-2 bg-white text-gray-800 font-medium text-sm rounded-lg border border-gray-300 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                        >
+                            Save and re-index
+                        </button>
+                    )}
+                    <button
+                        onClick={() => handleSave(false)}
+                        className="px-6 py-2 bg-gray-900 text-white font-medium text-sm rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default IndexingModal;
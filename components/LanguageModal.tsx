@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, ChevronDown } from 'lucide-react';
 
 interface LanguageModalProps {
@@ -13,6 +13,13 @@ const languages = ['Indonesia', 'English', 'Spanish', 'French', 'German'];
 const LanguageModal: React.FC<LanguageModalProps> = ({ isOpen, onClose, onSave, initialLanguage }) => {
     const [selectedLanguage, setSelectedLanguage] = useState(initialLanguage);
 
+    // Re-sync with the current notebook's language each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedLanguage(initialLanguage);
+        }
+    }, [isOpen, initialLanguage]);
+
     if (!isOpen) return null;
 
     const handleSave = () => {
@@ -1,8 +1,31 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Source, SourceStatus, SourceType } from '../types';
-import { Loader2, AlertCircle, Plus, Search, MoreVertical, Trash2, Pencil, PanelLeft, BookText } from 'lucide-react';
+import { Source, SourceStatus, SourceType, Citation } from '../types';
+import { Loader2, AlertCircle, Plus, Search, MoreVertical, Trash2, Pencil, PanelLeft, BookText, RotateCcw, XCircle } from 'lucide-react';
 import { SourceIcon } from './SourceIcon';
+import SourceDetailView from './SourceDetailView';
+import type { IngestionJob } from '../services/ingestionQueue';
+
+const STAGE_LABELS: Record<NonNullable<IngestionJob['stage']>, string> = {
+    parsing: 'Reading',
+    recognizing: 'Recognizing text',
+    transcribing: 'Transcribing',
+    'loading-model': 'Loading model',
+    chunking: 'Splitting',
+    embedding: 'Embedding',
+    persisting: 'Saving',
+};
+
+/**
+ * Short description of where a job is, e.g. "Embedding 40%"
+ */
+const describeJob = (job: IngestionJob): string => {
+    if (job.status === 'queued') return 'Queued';
+    if (job.status === 'waiting') return `Attempt ${job.attempts} failed, retrying...`;
+    if (!job.stage) return 'Starting...';
+    const percent = job.progress !== undefined ? ` ${Math.round(job.progress * 100)}%` : '';
+    return `${STAGE_LABELS[job.stage]}${percent}`;
+};
 
 
 interface LeftSidebarProps {
@@ -15,9 +38,15 @@ interface LeftSidebarProps {
     onToggleAllSources: (checked: boolean) => void;
     isAllSelected: boolean;
     onOpenDeleteConfirmation: (source: Source) => void;
+    ingestionJobs: Record<string, IngestionJob>;
+    onRetrySource: (source: Source) => void;
+    onCancelSourceIndexing: (source: Source) => void;
+    selectedSource: Source | null;
+    highlightedCitation?: Citation;
+    onCloseSource: () => void;
 }
 
-const LeftSidebar: React.FC<LeftSidebarProps> = ({ isOpen, onToggle, sources, onAddSource, onDiscoverSource, onToggleSource, onToggleAllSources, isAllSelected, onOpenDeleteConfirmation }) => {
+const LeftSidebar: React.FC<LeftSidebarProps> = ({ isOpen, onToggle, sources, onAddSource, onDiscoverSource, onToggleSource, onToggleAllSources, isAllSelected, onOpenDeleteConfirmation, ingestionJobs, onRetrySource, onCancelSourceIndexing, selectedSource, highlightedCitation, onCloseSource }) => {
     const [menuOpenFor, setMenuOpenFor] = useState<string | null>(null);
     const menuRef = useRef<HTMLDivElement>(null);
 
@@ -42,7 +71,13 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({ isOpen, onToggle, sources, on
     return (
         <aside className={`h-full bg-white flex flex-col md:rounded-lg transition-all duration-300 ease-in-out md:border md:border-gray-200 overflow-hidden ${isOpen ? 'w-full md:w-[350px]' : 'w-full md:w-20'}`}>
             {/* On mobile, isOpen is effectively always true because the collapsed view is hidden */}
-            {isOpen ? (
+            {isOpen && selectedSource ? (
+                <SourceDetailView
+                    source={selectedSource}
+                    highlightedCitation={highlightedCitation}
+                    onBack={onCloseSource}
+                />
+            ) : isOpen ? (
                 <div className="flex flex-col h-full">
                     <div className="hidden md:flex items-center justify-between px-4 h-[48px] border-b border-gray-200 flex-shrink-0">
                         <h2 className="text-base font-medium text-gray-800 whitespace-nowrap">Sources</h2>
@@ -75,56 +110,87 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({ isOpen, onToggle, sources, on
                                     </label>
                                 </div>
                                 <ul className="space-y-1">
-                                    {sources.map(source => (
-                                        <li key={source.id} className="relative flex items-center p-2 rounded-lg hover:bg-[#f8f8f7] group">
-                                            <div className="w-8 h-8 flex-shrink-0 flex items-center justify-center text-gray-600 relative">
-                                                <div className="absolute inset-0 flex items-center justify-center group-hover:opacity-0 transition-opacity duration-150">
-                                                    <SourceIcon type={source.type} status={source.status} />
+                                    {sources.map(source => {
+                                        const job = ingestionJobs[source.id];
+                                        const isJobActive = !!job && (job.status === 'queued' || job.status === 'running' || job.status === 'waiting');
+                                        return (
+                                            <li key={source.id} className="relative flex items-center p-2 rounded-lg hover:bg-[#f8f8f7] group">
+                                                <div className="w-8 h-8 flex-shrink-0 flex items-center justify-center text-gray-600 relative">
+                                                    <div className="absolute inset-0 flex items-center justify-center group-hover:opacity-0 transition-opacity duration-150">
+                                                        <SourceIcon type={source.type} status={source.status} />
+                                                    </div>
+                                                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-150">
+                                                        <button 
+                                                            onClick={(e) => { e.stopPropagation(); setMenuOpenFor(menuOpenFor === source.id ? null : source.id); }} 
+                                                            className="w-full h-full flex items-center justify-center rounded-lg hover:bg-gray-200"
+                                                            aria-haspopup="true"
+                                                            aria-expanded={menuOpenFor === source.id}
+                                                            title="More options"
+                                                        >
+                                                            <MoreVertical className="h-5 w-5" />
+                                                        </button>
+                                                    </div>
                                                 </div>
-                                                <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-150">
-                                                    <button 
-                                                        onClick={(e) => { e.stopPropagation(); setMenuOpenFor(menuOpenFor === source.id ? null : source.id); }} 
-                                                        className="w-full h-full flex items-center justify-center rounded-lg hover:bg-gray-200"
-                                                        aria-haspopup="true"
-                                                        aria-expanded={menuOpenFor === source.id}
-                                                        title="More options"
-                                                    >
-                                                        <MoreVertical className="h-5 w-5" />
-                                                    </button>
-                                                </div>
-                                            </div>
-                                            
-                                            {menuOpenFor === source.id && (
-                                                <div ref={menuRef} className="absolute z-10 top-full left-8 mt-1 bg-white shadow-lg rounded-lg border border-gray-200 w-48 py-1">
-                                                    <button className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2 disabled:opacity-50" disabled>
-                                                        <Pencil className="w-4 h-4 text-gray-500"/> Rename source
-                                                    </button>
-                                                    <button 
-                                                        onClick={() => { onOpenDeleteConfirmation(source); setMenuOpenFor(null); }} 
-                                                        className="w-full text-left px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
+                                                
+                                                {menuOpenFor === source.id && (
+                                                    <div ref={menuRef} className="absolute z-10 top-full left-8 mt-1 bg-white shadow-lg rounded-lg border border-gray-200 w-48 py-1">
+                                                        <button className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2 disabled:opacity-50" disabled>
+                                                            <Pencil className="w-4 h-4 text-gray-500"/> Rename source
+                                                        </button>
+                                                        {source.status === SourceStatus.FAILED && (
+                                                            <button
+                                                                onClick={() => { onRetrySource(source); setMenuOpenFor(null); }}
+                                                                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                                                            >
+                                                                <RotateCcw className="w-4 h-4 text-gray-500"/> Retry
+                                                            </button>
+                                                        )}
+                                                        {isJobActive && (
+                                                            <button
+                                                                onClick={() => { onCancelSourceIndexing(source); setMenuOpenFor(null); }}
+                                                                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                                                            >
+                                                                <XCircle className="w-4 h-4 text-gray-500"/> Cancel indexing
+                                                            </button>
+                                                        )}
+                                                        <button 
+                                                            onClick={() => { onOpenDeleteConfirmation(source); setMenuOpenFor(null); }} 
+                                                            className="w-full text-left px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
+                                                        >
+                                                            <Trash2 className="w-4 h-4"/> Remove source
+                                                        </button>
+                                                    </div>
+                                                )}
+
+                                                <div className="flex-1 min-w-0 mx-2">
+                                                    <p className={`text-sm truncate ${
+                                                        source.status === SourceStatus.INDEXING ? 'text-gray-500 italic' 
+                                                        : source.status === SourceStatus.FAILED ? 'text-red-500' 
+                                                        : 'text-gray-800'}`} 
+                                                        title={source.status === SourceStatus.FAILED ? job?.error || source.textContent : source.name}
                                                     >
-                                                        <Trash2 className="w-4 h-4"/> Remove source
-                                                    </button>
+                                                        {source.status === SourceStatus.INDEXING ? `Indexing ${source.name}...` 
+                                                        : source.status === SourceStatus.FAILED ? `${job?.status === 'cancelled' ? 'Cancelled' : 'Failed'}: ${source.name}` 
+                                                        : source.name}
+                                                    </p>
+                                                    {source.status === SourceStatus.INDEXING && isJobActive && (
+                                                        <div className="mt-1" title={job.status === 'waiting' ? job.error : undefined}>
+                                                            <div className="h-1 w-full rounded-full bg-gray-200 overflow-hidden">
+                                                                <div
+                                                                    className="h-full bg-gray-600 transition-all duration-300"
+                                                                    style={{ width: `${job.status === 'running' ? Math.round((job.progress ?? 0) * 100) : 0}%` }}
+                                                                />
+                                                            </div>
+                                                            <p className="text-xs text-gray-500 mt-0.5 truncate">{describeJob(job)}</p>
+                                                        </div>
+                                                    )}
                                                 </div>
-                                            )}
-
-                                            <div className="flex-1 min-w-0 mx-2">
-                                                <p className={`text-sm truncate ${
-                                                    source.status === SourceStatus.INDEXING ? 'text-gray-500 italic' 
-                                                    : source.status === SourceStatus.FAILED ? 'text-red-500' 
-                                                    : 'text-gray-800'}`} 
-                                                    title={source.status === SourceStatus.FAILED ? source.textContent : source.name}
-                                                >
-                                                    {source.status === SourceStatus.INDEXING ? `Indexing ${source.name}...` 
-                                                    : source.status === SourceStatus.FAILED ? `Failed: ${source.name}` 
-                                                    : source.name}
-                                                </p>
-                                            </div>
-                                            {source.status === SourceStatus.INDEXED && (
-                                                <input type="checkbox" className="h-4 w-4 rounded-lg border-gray-400 text-gray-800 focus:ring-gray-400 accent-gray-800 flex-shrink-0" checked={source.checked} onChange={() => onToggleSource(source.id)}/>
-                                            )}
-                                        </li>
-                                    ))}
+                                                {source.status === SourceStatus.INDEXED && (
+                                                    <input type="checkbox" className="h-4 w-4 rounded-lg border-gray-400 text-gray-800 focus:ring-gray-400 accent-gray-800 flex-shrink-0" checked={source.checked} onChange={() => onToggleSource(source.id)}/>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
                                 </ul>
                             </div>
                         ) : (
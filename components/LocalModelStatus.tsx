@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, CloudOff, Download, Loader2 } from 'lucide-react';
+import { getLocalModelAvailability, loadLocalModel, ModelAvailability, ModelLoadProgress, subscribeToModelLoading } from '../services/embeddingProviders';
+
+interface LocalModelStatusProps {
+    model: string;
+}
+
+const AVAILABILITY_LABELS: Record<ModelAvailability, string> = {
+    offline: 'Available offline.',
+    bundled: 'Not available offline yet: it ships with the app and is kept once it has loaded.',
+    remote: 'Not available offline: it downloads from Hugging Face the first time it is used.',
+};
+
+/**
+ * Whether a local embedding model loads without a connection, with a button
+ * to download it ahead of time
+ */
+const LocalModelStatus: React.FC<LocalModelStatusProps> = ({ model }) => {
+    const [availability, setAvailability] = useState<ModelAvailability | null>(null);
+    const [progress, setProgress] = useState<ModelLoadProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setAvailability(null);
+        setError(null);
+        getLocalModelAvailability(model).then(result => {
+            if (isCurrent) setAvailability(result);
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, [model]);
+
+    useEffect(() => subscribeToModelLoading(update => {
+        if (update.model === model) setProgress(update.status === 'loading' ? update : null);
+    }), [model]);
+
+    const handleDownload = async () => {
+        setError(null);
+        try {
+            await loadLocalModel(model);
+            setAvailability(await getLocalModelAvailability(model));
+        } catch (err) {
+            setError(`Could not load ${model}: ${(err as Error).message}`);
+        }
+    };
+
+    if (progress) {
+        const percent = progress.total > 0 ? Math.round(progress.loaded / progress.total * 100) : 0;
+        return (
+            <div className="mt-3 text-sm text-gray-600">
+                <div className="flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Downloading {model}... {percent}%
+                </div>
+                <div className="mt-2 h-1.5 max-w-md bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-gray-800 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+            </div>
+        );
+    }
+
+    if (!availability) {
+        return <p className="mt-3 text-sm text-gray-500">Checking whether {model} is available offline...</p>;
+    }
+
+    return (
+        <div className="mt-3 text-sm">
+            <div className={`flex items-center gap-2 ${availability === 'offline' ? 'text-green-700' : 'text-gray-600'}`}>
+                {availability === 'offline'
+                    ? <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+                    : <CloudOff className="w-4 h-4 flex-shrink-0" />}
+                <span className="flex-1">{AVAILABILITY_LABELS[availability]}</span>
+                {availability !== 'offline' && (
+                    <button
+                        onClick={handleDownload}
+                        className="px-3 py-1 border border-gray-300 rounded-md font-medium text-gray-800 hover:bg-gray-100 transition-colors flex items-center gap-1 flex-shrink-0"
+                    >
+                        <Download className="w-4 h-4" />
+                        Download now
+                    </button>
+                )}
+            </div>
+            {error && <p className="mt-2 text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default LocalModelStatus;
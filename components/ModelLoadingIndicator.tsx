@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { ModelLoadProgress, subscribeToModelLoading } from '../services/embeddingProviders';
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Progress of local embedding models downloading or warming up on the main
+ * thread, e.g. before a notebook's first question can be searched. Ingestion
+ * workers report their own downloads on each source.
+ */
+const ModelLoadingIndicator: React.FC = () => {
+    const [loading, setLoading] = useState<Record<string, ModelLoadProgress>>({});
+
+    useEffect(() => subscribeToModelLoading(progress => {
+        setLoading(prev => {
+            const next = { ...prev };
+            if (progress.status === 'loading') {
+                next[progress.model] = progress;
+            } else {
+                delete next[progress.model];
+            }
+            return next;
+        });
+    }), []);
+
+    const models: ModelLoadProgress[] = Object.values(loading);
+    if (models.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-72 space-y-3 p-4 bg-white border border-gray-200 rounded-lg shadow-lg" role="status">
+            {models.map(progress => (
+                <div key={progress.model}>
+                    <div className="flex items-center gap-2 text-sm font-medium text-gray-800">
+                        <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
+                        <span className="truncate">Loading {progress.model.split('/').pop()}</span>
+                    </div>
+                    <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-gray-800 transition-all"
+                            style={{ width: `${progress.total > 0 ? Math.round(progress.loaded / progress.total * 100) : 0}%` }}
+                        />
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                        {progress.total > 0 ? `${formatMegabytes(progress.loaded)} of ${formatMegabytes(progress.total)}` : 'Starting...'}
+                    </p>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ModelLoadingIndicator;
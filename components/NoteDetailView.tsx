@@ -1,9 +1,9 @@
 import React from 'react';
-import { Artifact } from '../types';
+import { Artifact, Citation } from '../types';
 import { ChevronRight, Minimize2 } from 'lucide-react';
 import NoteContentView from './NoteContentView';
 
-const NoteDetailView: React.FC<{ artifact: Artifact; onBack: () => void; onDelete: (artifact: Artifact) => void; }> = ({ artifact, onBack, onDelete }) => {
+const NoteDetailView: React.FC<{ artifact: Artifact; onBack: () => void; onDelete: (artifact: Artifact) => void; onCitationClick: (citation: Citation) => void; }> = ({ artifact, onBack, onDelete, onCitationClick }) => {
     
     return (
         <div className="flex flex-col h-full bg-white">
@@ -30,7 +30,7 @@ const NoteDetailView: React.FC<{ artifact: Artifact; onBack: () => void; onDelet
                 <h1 className="text-xl font-medium text-gray-800">{artifact.title}</h1>
                 <p className="text-sm text-gray-500">(Saved responses are view only)</p>
                 <div className="border-t border-gray-200 my-4"></div>
-                <NoteContentView artifact={artifact} />
+                <NoteContentView artifact={artifact} onCitationClick={onCitationClick} />
             </div>
 
              {/* Footer */}
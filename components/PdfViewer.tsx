@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { loadPdfJs, openPdfDocument, locatePassage } from '../services/pdfService';
+import type { OcrPage } from '../services/ocrService';
+
+interface PdfViewerProps {
+    data: File | ArrayBuffer;
+    pageNumber: number;
+    highlight?: string; // Passage to highlight on the page
+    ocrPages?: OcrPage[]; // Word boxes of pages without a text layer
+}
+
+interface HighlightRect {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+const PdfViewer: React.FC<PdfViewerProps> = ({ data, pageNumber, highlight, ocrPages }) => {
+    const [pdf, setPdf] = useState<any>(null);
+    const [page, setPage] = useState(pageNumber);
+    const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const firstHighlightRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        let loaded: any = null;
+        setPdf(null);
+        setError(null);
+        openPdfDocument(data)
+            .then(doc => {
+                loaded = doc;
+                if (cancelled) doc.destroy();
+                else setPdf(doc);
+            })
+            .catch(err => {
+                console.error('Failed to open PDF:', err);
+                if (!cancelled) setError('This PDF could not be opened.');
+            });
+        return () => {
+            cancelled = true;
+            loaded?.destroy();
+        };
+    }, [data]);
+
+    // Jump to the cited page whenever a new citation is opened
+    useEffect(() => {
+        setPage(pageNumber);
+    }, [pageNumber, highlight]);
+
+    // Render the page at the container width and position highlights over the passage
+    useEffect(() => {
+        if (!pdf || !canvasRef.current || !containerRef.current) return;
+        let cancelled = false;
+        let renderTask: any = null;
+        setHighlights([]);
+
+        (async () => {
+            try {
+                const pdfjs = await loadPdfJs();
+                const pdfPage = await pdf.getPage(Math.min(Math.max(page, 1), pdf.numPages));
+                if (cancelled || !canvasRef.current || !containerRef.current) return;
+
+                const scale = containerRef.current.clientWidth / pdfPage.getViewport({ scale: 1 }).width;
+                const viewport = pdfPage.getViewport({ scale });
+                const outputScale = window.devicePixelRatio || 1;
+                const canvas = canvasRef.current;
+                canvas.width = Math.floor(viewport.width * outputScale);
+                canvas.height = Math.floor(viewport.height * outputScale);
+                canvas.style.width = `${Math.floor(viewport.width)}px`;
+                canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+                renderTask = pdfPage.render({
+                    canvasContext: canvas.getContext('2d'),
+                    viewport,
+                    transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+                });
+
+                let rects: HighlightRect[] = [];
+                if (highlight && page === pageNumber) {
+                    const textContent = await pdfPage.getTextContent();
+                    const items: any[] = textContent.items;
+                    const ocrWords = ocrPages?.find(ocrPage => ocrPage.pageNumber === page)?.words;
+                    if (ocrWords && items.every(item => !item.str?.trim())) {
+                        // Scanned page: the passage came from OCR, so use its word boxes
+                        rects = locatePassage(ocrWords.map(word => word.text), highlight).map(index => ({
+                            left: ocrWords[index].left * viewport.width,
+                            top: ocrWords[index].top * viewport.height,
+                            width: ocrWords[index].width * viewport.width,
+                            height: ocrWords[index].height * viewport.height,
+                        }));
+                    } else {
+                        rects = locatePassage(items.map(item => item.str || ''), highlight).map(index => {
+                            const item = items[index];
+                            const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+                            const fontHeight = Math.hypot(tx[2], tx[3]);
+                            return { left: tx[4], top: tx[5] - fontHeight, width: item.width * scale, height: fontHeight };
+                        });
+                    }
+                }
+
+                await renderTask.promise;
+                if (!cancelled) setHighlights(rects);
+            } catch (err: any) {
+                if (err?.name !== 'RenderingCancelledException') {
+                    console.error('Failed to render PDF page:', err);
+                }
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+            renderTask?.cancel();
+        };
+    }, [pdf, page, pageNumber, highlight, ocrPages]);
+
+    useEffect(() => {
+        firstHighlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [highlights]);
+
+    if (error) {
+        return <p className="text-sm text-red-600">{error}</p>;
+    }
+
+    const numPages = pdf?.numPages ?? 0;
+
+    return (
+        <div className="rounded-lg border border-gray-200 overflow-hidden">
+            <div className="flex items-center justify-between px-2 h-9 border-b border-gray-200 bg-gray-50 text-xs text-gray-600">
+                <button
+                    onClick={() => setPage(p => Math.max(1, p - 1))}
+                    disabled={page <= 1}
+                    title="Previous page"
+                    className="w-7 h-7 flex items-center justify-center rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    <ChevronLeft className="h-4 w-4" />
+                </button>
+                <span>{numPages > 0 ? `Page ${page} of ${numPages}` : 'Loading PDF...'}</span>
+                <button
+                    onClick={() => setPage(p => Math.min(numPages, p + 1))}
+                    disabled={page >= numPages}
+                    title="Next page"
+                    className="w-7 h-7 flex items-center justify-center rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    <ChevronRight className="h-4 w-4" />
+                </button>
+            </div>
+            <div ref={containerRef} className="relative bg-white">
+                <canvas ref={canvasRef} className="block" />
+                {highlights.map((rect, index) => (
+                    <div
+                        key={index}
+                        ref={index === 0 ? firstHighlightRef : undefined}
+                        className="absolute bg-yellow-300/40 pointer-events-none rounded-sm"
+                        style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PdfViewer;
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { studioTools } from '../constants';
-import { StudioTool, Artifact } from '../types';
+import { studioTools, artifactIconMap } from '../constants';
+import { StudioTool, Artifact, Citation } from '../types';
 import { PanelRight, MoreVertical, StickyNote, Pencil, Trash2, FileUp, Files } from 'lucide-react';
 import AudioOverviewModal from './AudioOverviewModal';
 import QuizModal from './QuizModal';
@@ -65,6 +65,12 @@ const ToolItem: React.FC<ToolItemProps> = ({ tool, isCollapsed, onClick, onEditC
     );
 };
 
+const formatArtifactDetails = (artifact: Artifact): string => {
+    const verb = artifact.kind === 'saved-response' ? 'Saved' : 'Created';
+    const date = new Date(artifact.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${verb} ${date}`;
+};
+
 interface StudioHomeViewProps {
     onToggle: () => void;
     artifacts: Artifact[];
@@ -142,7 +148,7 @@ const StudioHomeView: React.FC<StudioHomeViewProps> = ({ onToggle, artifacts, on
                         <div className="px-4 pt-4"><div className="border-t border-gray-200"></div></div>
                         <div className="px-4 py-4 space-y-2">
                             {artifacts.map(artifact => {
-                                const Icon = artifact.icon;
+                                const Icon = artifactIconMap[artifact.kind];
                                 return (
                                     <div key={artifact.id} className="group flex items-center rounded-lg hover:bg-[#f8f8f7] transition-colors">
                                         <button onClick={() => onArtifactSelect(artifact)} className="flex-1 flex items-center p-2 text-left min-w-0">
@@ -151,7 +157,7 @@ const StudioHomeView: React.FC<StudioHomeViewProps> = ({ onToggle, artifacts, on
                                             </div>
                                             <div className="flex-1 min-w-0 mx-2">
                                                 <p className="text-sm font-medium text-gray-800 truncate">{artifact.title}</p>
-                                                <p className="text-xs text-gray-500 truncate">{artifact.details}</p>
+                                                <p className="text-xs text-gray-500 truncate">{formatArtifactDetails(artifact)}</p>
                                             </div>
                                         </button>
                                         <div className="relative flex-shrink-0 pr-2">
@@ -227,10 +233,11 @@ interface RightSidebarProps {
     onArtifactSelect: (artifact: Artifact) => void;
     onBack: () => void;
     onDelete: (artifact: Artifact) => void;
+    onCitationClick: (citation: Citation) => void;
     disabled: boolean;
 }
 
-const RightSidebar: React.FC<RightSidebarProps> = ({ isOpen, onToggle, artifacts, onAddNote, selectedArtifact, onArtifactSelect, onBack, onDelete, disabled }) => {
+const RightSidebar: React.FC<RightSidebarProps> = ({ isOpen, onToggle, artifacts, onAddNote, selectedArtifact, onArtifactSelect, onBack, onDelete, onCitationClick, disabled }) => {
     const [isAudioModalOpen, setAudioModalOpen] = useState(false);
     const [isQuizModalOpen, setQuizModalOpen] = useState(false);
     const [isFlashcardsModalOpen, setFlashcardsModalOpen] = useState(false);
@@ -245,6 +252,7 @@ const RightSidebar: React.FC<RightSidebarProps> = ({ isOpen, onToggle, artifacts
                             artifact={selectedArtifact}
                             onBack={onBack}
                             onDelete={onDelete}
+                            onCitationClick={onCitationClick}
                         />
                     ) : (
                         <StudioHomeView
@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import { X, Eye, EyeOff, Loader2, CheckCircle2, AlertCircle, Lock } from 'lucide-react';
+import {
+    AppSettings,
+    ConfigurableProviderId,
+    ProviderSettings,
+    getSettings,
+    saveSettings,
+    unlockSettings,
+    clearSettings,
+    isSettingsEncrypted,
+    isSettingsLocked,
+} from '../services/settingsService';
+import { createProvider, OPENROUTER_BASE_URL, OPENAI_COMPATIBLE_BASE_URL } from '../services/providers';
+import { GEMINI_DEFAULT_MODEL } from '../services/providers/geminiProvider';
+import { DEFAULT_CORS_PROXY } from '../services/websiteService';
+import ConfirmationModal from './ConfirmationModal';
+
+interface SettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+interface ProviderField {
+    id: ConfigurableProviderId;
+    name: string;
+    keyRequired: boolean;
+    keyHint: string;
+    baseUrlPlaceholder?: string; // Base URL input is shown only when set
+    modelPlaceholder: string;
+}
+
+const providerFields: ProviderField[] = [
+    {
+        id: 'openrouter',
+        name: 'OpenRouter',
+        keyRequired: true,
+        keyHint: 'Get a key at openrouter.ai/keys',
+        baseUrlPlaceholder: OPENROUTER_BASE_URL,
+        modelPlaceholder: 'openai/gpt-4o-mini',
+    },
+    {
+        id: 'gemini',
+        name: 'Google Gemini',
+        keyRequired: true,
+        keyHint: 'Get a key at aistudio.google.com/apikey',
+        modelPlaceholder: GEMINI_DEFAULT_MODEL,
+    },
+    {
+        id: 'openai-compatible',
+        name: 'OpenAI-compatible endpoint',
+        keyRequired: false,
+        keyHint: 'Optional for local servers such as Ollama or LM Studio',
+        baseUrlPlaceholder: OPENAI_COMPATIBLE_BASE_URL,
+        modelPlaceholder: 'llama3.1',
+    },
+];
+
+type TestStatus = { state: 'testing' | 'ok' | 'error'; message?: string };
+
+const inputClassName = 'w-full h-10 px-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-800 focus:border-gray-800 text-sm';
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+    const [isLocked, setIsLocked] = useState(false);
+    const [unlockPassphrase, setUnlockPassphrase] = useState('');
+    const [unlockError, setUnlockError] = useState<string | null>(null);
+    const [isUnlocking, setIsUnlocking] = useState(false);
+    const [isForgetConfirmationOpen, setIsForgetConfirmationOpen] = useState(false);
+
+    const [draft, setDraft] = useState<AppSettings>({});
+    const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
+    const [testStatus, setTestStatus] = useState<Record<string, TestStatus>>({});
+
+    const [wasEncrypted, setWasEncrypted] = useState(false);
+    const [encrypt, setEncrypt] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const resetForm = () => {
+        const encrypted = isSettingsEncrypted();
+        setDraft(getSettings());
+        setWasEncrypted(encrypted);
+        setEncrypt(encrypted);
+        setPassphrase('');
+        setConfirmPassphrase('');
+        setVisibleKeys({});
+        setTestStatus({});
+        setSaveError(null);
+    };
+
+    // Re-read stored settings each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setIsLocked(isSettingsLocked());
+            setUnlockPassphrase('');
+            setUnlockError(null);
+            resetForm();
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const updateField = (id: ConfigurableProviderId, field: keyof ProviderSettings, value: string) => {
+        setDraft(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+        setTestStatus(prev => {
+            const { [id]: _removed, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleUnlock = async () => {
+        setIsUnlocking(true);
+        setUnlockError(null);
+        try {
+            await unlockSettings(unlockPassphrase);
+            setIsLocked(false);
+            resetForm();
+        } catch (error) {
+            setUnlockError(error instanceof Error ? error.message : 'Could not unlock settings.');
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    const handleForget = () => {
+        setIsForgetConfirmationOpen(false);
+        clearSettings();
+        setIsLocked(false);
+        resetForm();
+    };
+
+    const handleTest = async (field: ProviderField) => {
+        setTestStatus(prev => ({ ...prev, [field.id]: { state: 'testing' } }));
+        try {
+            await createProvider(field.id, draft[field.id]).validate();
+            setTestStatus(prev => ({ ...prev, [field.id]: { state: 'ok', message: 'Connection works.' } }));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Connection failed.';
+            setTestStatus(prev => ({ ...prev, [field.id]: { state: 'error', message } }));
+        }
+    };
+
+    const handleSave = async () => {
+        setSaveError(null);
+        if (encrypt && (passphrase || !wasEncrypted)) {
+            if (passphrase.length < 8) {
+                setSaveError('Use a passphrase of at least 8 characters.');
+                return;
+            }
+            if (passphrase !== confirmPassphrase) {
+                setSaveError('The passphrases do not match.');
+                return;
+            }
+        }
+
+        setIsSaving(true);
+        try {
+            // A new passphrase re-encrypts; an empty one keeps the current passphrase
+            await saveSettings(draft, encrypt ? (passphrase || undefined) : null);
+            onClose();
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : 'Could not save settings.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" role="document" onClick={(e) => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 pl-6 border-b border-gray-200 flex-shrink-0">
+                    <h2 className="text-xl font-medium text-gray-800">API Keys & Models</h2>
+                    <button onClick={onClose} aria-label="Close modal" className="p-2 rounded-full hover:bg-gray-100 text-gray-600">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {isLocked ? (
+                    /* Unlock */
+                    <div className="p-6 space-y-4">
+                        <div className="flex items-center gap-2 text-gray-800">
+                            <Lock className="h-5 w-5 text-gray-500" />
+                            <p className="text-sm">Your saved settings are encrypted. Enter your passphrase to unlock them for this session.</p>
+                        </div>
+                        <input
+                            type="password"
+                            value={unlockPassphrase}
+                            onChange={(e) => setUnlockPassphrase(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && unlockPassphrase && handleUnlock()}
+                            placeholder="Passphrase"
+                            aria-label="Passphrase"
+                            autoFocus
+                            className={inputClassName}
+                        />
+                        {unlockError && <p className="text-sm text-red-600">{unlockError}</p>}
+                        <div className="flex items-center justify-between">
+                            <button onClick={() => setIsForgetConfirmationOpen(true)} className="text-sm text-gray-600 hover:text-gray-900 underline">
+                                Forgot passphrase? Delete saved settings
+                            </button>
+                            <button
+                                onClick={handleUnlock}
+                                disabled={!unlockPassphrase || isUnlocking}
+                                className="px-6 py-2 bg-gray-900 text-white font-medium text-sm rounded-lg hover:bg-gray-800 disabled:opacity-50 transition-colors flex items-center gap-2"
+                            >
+                                {isUnlocking && <Loader2 className="h-4 w-4 animate-spin" />}
+                                Unlock
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        {/* Body */}
+                        <div className="p-6 space-y-6 overflow-y-auto">
+                            <p className="text-gray-600 text-sm">
+                                Keys are stored only in this browser and sent only to the provider they belong to.
+                            </p>
+
+                            {providerFields.map(field => {
+                                const values = draft[field.id] || {};
+                                const status = testStatus[field.id];
+                                return (
+                                    <div key={field.id} className="space-y-2">
+                                        <div className="flex items-center justify-between">
+                                            <h3 className="text-base font-medium text-gray-800">{field.name}</h3>
+                                            <button
+                                                onClick={() => handleTest(field)}
+                                                disabled={status?.state === 'testing' || (field.keyRequired && !values.apiKey?.trim())}
+                                                className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+                                            >
+                                                {status?.state === 'testing' && <Loader2 className="h-4 w-4 animate-spin" />}
+                                                Test
+                                            </button>
+                                        </div>
+                                        <div className="relative">
+                                            <input
+                                                type={visibleKeys[field.id] ? 'text' : 'password'}
+                                                value={values.apiKey || ''}
+                                                onChange={(e) => updateField(field.id, 'apiKey', e.target.value)}
+                                                placeholder={field.keyRequired ? 'API key' : 'API key (optional)'}
+                                                aria-label={`${field.name} API key`}
+                                                autoComplete="off"
+                                                className={`${inputClassName} pr-10`}
+                                            />
+                                            <button
+                                                onClick={() => setVisibleKeys(prev => ({ ...prev, [field.id]: !prev[field.id] }))}
+                                                aria-label={visibleKeys[field.id] ? 'Hide key' : 'Show key'}
+                                                className="absolute inset-y-0 right-0 px-3 flex items-center text-gray-500 hover:text-gray-800"
+                                            >
+                                                {visibleKeys[field.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-gray-500">{field.keyHint}</p>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                            {field.baseUrlPlaceholder && (
+                                                <input
+                                                    type="url"
+                                                    value={values.baseUrl || ''}
+                                                    onChange={(e) => updateField(field.id, 'baseUrl', e.target.value)}
+                                                    placeholder={field.baseUrlPlaceholder}
+                                                    aria-label={`${field.name} base URL`}
+                                                    className={inputClassName}
+                                                />
+                                            )}
+                                            <input
+                                                type="text"
+                                                value={values.defaultModel || ''}
+                                                onChange={(e) => updateField(field.id, 'defaultModel', e.target.value)}
+                                                placeholder={`Default model (${field.modelPlaceholder})`}
+                                                aria-label={`${field.name} default model`}
+                                                className={inputClassName}
+                                            />
+                                        </div>
+                                        {status && status.state !== 'testing' && (
+                                            <p className={`text-sm flex items-start gap-1.5 ${status.state === 'ok' ? 'text-green-700' : 'text-red-600'}`}>
+                                                {status.state === 'ok'
+                                                    ? <CheckCircle2 className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                                                    : <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />}
+                                                <span className="break-words min-w-0">{status.message}</span>
+                                            </p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+
+                            {/* Web sources */}
+                            <div className="space-y-2">
+                                <h3 className="text-base font-medium text-gray-800">Web sources</h3>
+                                <input
+                                    type="text"
+                                    value={draft.corsProxyUrl || ''}
+                                    onChange={(e) => setDraft(prev => ({ ...prev, corsProxyUrl: e.target.value }))}
+                                    placeholder={DEFAULT_CORS_PROXY}
+                                    aria-label="CORS proxy URL"
+                                    className={inputClassName}
+                                />
+                                <p className="text-xs text-gray-500">
+                                    CORS proxy used to fetch websites. <code>{'{url}'}</code> is replaced by the page address; without it the address is appended.
+                                    The default works with <code>npm run dev</code> and <code>npm run preview</code>.
+                                </p>
+                            </div>
+
+                            {/* Encryption */}
+                            <div className="space-y-2 pt-2 border-t border-gray-200">
+                                <label className="flex items-center gap-2 text-sm font-medium text-gray-800 pt-4">
+                                    <input
+                                        type="checkbox"
+                                        checked={encrypt}
+                                        onChange={(e) => setEncrypt(e.target.checked)}
+                                        className="h-4 w-4 rounded border-gray-300"
+                                    />
+                                    Encrypt saved settings with a passphrase
+                                </label>
+                                {encrypt && (
+                                    <>
+                                        <p className="text-xs text-gray-500">
+                                            {wasEncrypted
+                                                ? 'Leave empty to keep your current passphrase.'
+                                                : 'You will need it to unlock your keys each time you open OmnibookLM. It cannot be recovered.'}
+                                        </p>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                            <input
+                                                type="password"
+                                                value={passphrase}
+                                                onChange={(e) => setPassphrase(e.target.value)}
+                                                placeholder={wasEncrypted ? 'New passphrase' : 'Passphrase'}
+                                                aria-label="Passphrase"
+                                                className={inputClassName}
+                                            />
+                                            <input
+                                                type="password"
+                                                value={confirmPassphrase}
+                                                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                                                placeholder="Confirm passphrase"
+                                                aria-label="Confirm passphrase"
+                                                className={inputClassName}
+                                            />
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Footer */}
+                        <div className="flex items-center justify-between gap-4 p-4 bg-white border-t border-gray-200 rounded-b-lg flex-shrink-0">
+                            <p className="text-sm text-red-600 min-w-0">{saveError}</p>
+                            <button
+                                onClick={handleSave}
+                                disabled={isSaving}
+                                className="px-6 py-2 bg-gray-900 text-white font-medium text-sm rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 transition-colors flex items-center gap-2 flex-shrink-0"
+                            >
+                                {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                                Save
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {/* Inside the dialog, so its clicks don't reach the backdrop and close it */}
+                <ConfirmationModal
+                    isOpen={isForgetConfirmationOpen}
+                    onClose={() => setIsForgetConfirmationOpen(false)}
+                    onConfirm={handleForget}
+                    title="Delete saved settings"
+                    itemName="all saved API keys and settings"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default SettingsModal;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Source, Citation } from '../types';
+import { ChevronRight, Minimize2, ExternalLink } from 'lucide-react';
+import { SourceIcon } from './SourceIcon';
+import { vectorStore } from '../services/vectorStore';
+import type { DocumentChunk } from '../services/embeddingService';
+import type { OcrPage } from '../services/ocrService';
+import { getOcrPages } from '../services/db';
+import { parseYouTubeVideoId, formatTimestamp } from '../services/youtubeService';
+import PdfViewer from './PdfViewer';
+import TableViewer from './TableViewer';
+import ImageViewer from './ImageViewer';
+import { describeLocation } from '../services/citationService';
+
+interface SourceDetailViewProps {
+    source: Source;
+    highlightedCitation?: Citation;
+    onBack: () => void;
+}
+
+/**
+ * "Author · Site · Date" line from the source metadata
+ */
+const formatByline = (source: Source): string => {
+    const { author, siteName, publishedAt } = source.metadata || {};
+    const date = publishedAt
+        ? new Date(publishedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+        : undefined;
+    return [author, siteName, date].filter(Boolean).join(' · ');
+};
+
+const SourceDetailView: React.FC<SourceDetailViewProps> = ({ source, highlightedCitation, onBack }) => {
+    const highlightedChunkId = highlightedCitation?.chunkId;
+    const [chunks, setChunks] = useState<DocumentChunk[] | null>(null);
+    const [playerStart, setPlayerStart] = useState<number | null>(null);
+    const [pdfTarget, setPdfTarget] = useState<{ pageNumber: number; passage?: string }>({ pageNumber: 1 });
+    const [imagePassage, setImagePassage] = useState<string | undefined>(undefined);
+    const [ocrPages, setOcrPages] = useState<OcrPage[]>([]);
+    const highlightedRef = useRef<HTMLDivElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const videoId = source.type === 'youtube' ? parseYouTubeVideoId(source.metadata?.url || source.textContent || source.name) : null;
+
+    useEffect(() => {
+        let cancelled = false;
+        setChunks(null);
+        vectorStore.getChunksBySourceIds([source.id]).then(sourceChunks => {
+            if (cancelled) return;
+            const ordered = [...sourceChunks].sort((a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0));
+            setChunks(ordered);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [source.id]);
+
+    // Word boxes of scanned pages and images, saved once indexing finishes
+    useEffect(() => {
+        let cancelled = false;
+        setOcrPages([]);
+        if (source.type !== 'pdf' && source.type !== 'image') return;
+        getOcrPages(source.id).then(pages => {
+            if (!cancelled) setOcrPages(pages);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [source.id, source.type, source.status]);
+
+    const pdfData = source.type === 'pdf' ? source.content : undefined;
+    const imageSrc = source.type === 'image' && source.base64Content ? `data:${source.mimeType};base64,${source.base64Content}` : undefined;
+    const audioSrc = source.type === 'audio' && source.base64Content ? `data:${source.mimeType};base64,${source.base64Content}` : undefined;
+
+    // Play the recording from a cited segment; clicking the same segment again replays it
+    const playAudioFrom = (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = seconds;
+        audio.play().catch(() => {
+            // Autoplay may be blocked until the user interacts with the page; the player is cued either way
+        });
+    };
+
+    // Cited rows: those behind a computed answer, or the retrieved row group
+    const highlightedRows = useMemo(() => {
+        if (highlightedCitation?.rowNumbers) return highlightedCitation.rowNumbers;
+        const { rowStart, rowEnd } = highlightedCitation || {};
+        return rowStart !== undefined ? Array.from({ length: (rowEnd ?? rowStart) - rowStart + 1 }, (_, i) => rowStart + i) : undefined;
+    }, [highlightedCitation]);
+
+    // Bring the cited passage into view once the chunks are rendered, and cue the video, audio, PDF page or image to it
+    useEffect(() => {
+        highlightedRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+        const highlighted = chunks?.find(chunk => chunk.id === highlightedChunkId);
+        setPlayerStart(highlighted?.metadata?.startTime ?? null);
+        if (highlighted?.metadata?.startTime !== undefined) playAudioFrom(highlighted.metadata.startTime);
+        setPdfTarget(highlighted?.metadata?.pageNumber !== undefined
+            ? { pageNumber: highlighted.metadata.pageNumber, passage: highlighted.content }
+            : { pageNumber: 1 });
+        setImagePassage(highlighted?.content);
+    }, [chunks, highlightedChunkId]);
+
+    return (
+        <div className="flex flex-col h-full bg-white">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 h-[48px] border-b border-gray-200 flex-shrink-0">
+                <div className="flex items-center text-sm min-w-0">
+                    <button onClick={onBack} className="text-gray-600 hover:text-gray-900 font-medium">Sources</button>
+                    <ChevronRight className="h-4 w-4 text-gray-400 mx-1 flex-shrink-0" />
+                    <span className="text-gray-800 font-medium truncate" title={source.name}>{source.name}</span>
+                </div>
+                <button
+                    onClick={onBack}
+                    title="Close source"
+                    className="w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-lg text-gray-500 hover:bg-gray-100 transition-colors"
+                >
+                    <Minimize2 className="h-5 w-5" />
+                </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto sidebar-scroll p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                    <SourceIcon type={source.type} status={source.status} />
+                    <h1 className="text-base font-medium text-gray-800 break-words min-w-0">{source.name}</h1>
+                </div>
+                {(formatByline(source) || source.metadata?.url) && (
+                    <div className="text-xs text-gray-500 space-y-1">
+                        {formatByline(source) && <p>{formatByline(source)}</p>}
+                        {source.metadata?.url && (
+                            <a href={source.metadata.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 hover:text-gray-800 break-all">
+                                <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                                {source.metadata.url}
+                            </a>
+                        )}
+                    </div>
+                )}
+                {videoId && (
+                    <div className="aspect-video w-full rounded-lg overflow-hidden bg-black">
+                        <iframe
+                            // Changing the start time reloads the player at that moment
+                            key={playerStart ?? 'start'}
+                            src={`https://www.youtube-nocookie.com/embed/${videoId}?start=${Math.floor(playerStart ?? 0)}${playerStart !== null ? '&autoplay=1' : ''}`}
+                            title={source.name}
+                            allow="autoplay; encrypted-media; picture-in-picture"
+                            allowFullScreen
+                            className="w-full h-full"
+                        />
+                    </div>
+                )}
+                {audioSrc && (
+                    <audio ref={audioRef} src={audioSrc} controls preload="metadata" className="w-full" />
+                )}
+                {pdfData && (
+                    <PdfViewer data={pdfData} pageNumber={pdfTarget.pageNumber} highlight={pdfTarget.passage} ocrPages={ocrPages} />
+                )}
+                {imageSrc && (
+                    <ImageViewer src={imageSrc} alt={source.name} words={ocrPages[0]?.words} highlight={imagePassage} />
+                )}
+                {source.table && (
+                    <TableViewer table={source.table} sheetName={highlightedCitation?.sheetName} highlightRows={highlightedRows} />
+                )}
+                <div className="border-t border-gray-200"></div>
+                {source.table ? (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{source.textContent}</p>
+                ) : chunks === null ? (
+                    <p className="text-sm text-gray-500">Loading source...</p>
+                ) : chunks.length > 0 ? (
+                    chunks.map(chunk => {
+                        const isHighlighted = chunk.id === highlightedChunkId;
+                        return (
+                            <div
+                                key={chunk.id}
+                                ref={isHighlighted ? highlightedRef : undefined}
+                                className={`rounded-lg p-3 text-sm whitespace-pre-wrap transition-colors ${
+                                    isHighlighted ? 'bg-[#edeffa] text-gray-900 ring-1 ring-[#dde0f1]' : 'text-gray-700'
+                                }`}
+                            >
+                                {(videoId || audioSrc) && chunk.metadata?.startTime !== undefined ? (
+                                    <button
+                                        onClick={() => audioSrc ? playAudioFrom(chunk.metadata!.startTime!) : setPlayerStart(chunk.metadata!.startTime!)}
+                                        className="text-xs text-gray-500 hover:text-gray-800 underline mb-1 block"
+                                        title="Play from here"
+                                    >
+                                        {formatTimestamp(chunk.metadata.startTime)}
+                                    </button>
+                                ) : pdfData && chunk.metadata?.pageNumber !== undefined ? (
+                                    <button
+                                        onClick={() => setPdfTarget({ pageNumber: chunk.metadata!.pageNumber!, passage: chunk.content })}
+                                        className="text-xs text-gray-500 hover:text-gray-800 underline mb-1 block"
+                                        title="Show on page"
+                                    >
+                                        p. {chunk.metadata.pageNumber}
+                                    </button>
+                                ) : imageSrc ? (
+                                    <button
+                                        onClick={() => setImagePassage(chunk.content)}
+                                        className="text-xs text-gray-500 hover:text-gray-800 underline mb-1 block"
+                                        title="Show on image"
+                                    >
+                                        Passage {(chunk.metadata?.chunkIndex ?? 0) + 1}
+                                    </button>
+                                ) : (
+                                    <p className="text-xs text-gray-500 mb-1">
+                                        {describeLocation(chunk.metadata || {}) ?? `Passage ${(chunk.metadata?.chunkIndex ?? 0) + 1}`}
+                                    </p>
+                                )}
+                                {chunk.content}
+                            </div>
+                        );
+                    })
+                ) : (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                        {source.textContent || 'No indexed text is available for this source.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SourceDetailView;
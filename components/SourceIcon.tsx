@@ -1,6 +1,6 @@
 import React from 'react';
 import { SourceStatus, SourceType } from '../types';
-import { Loader2, AlertCircle, Youtube, FileText, Image, File as FileIcon, Globe, AudioLines } from 'lucide-react';
+import { Loader2, AlertCircle, Youtube, FileText, Image, File as FileIcon, Globe, AudioLines, FileType2, Presentation, FilePen, BookOpen, FileSpreadsheet } from 'lucide-react';
 
 interface SourceIconProps {
     type: SourceType;
@@ -24,6 +24,11 @@ export const SourceIcon: React.FC<SourceIconProps> = ({ type, status, sizeClass
         website: Globe,
         youtube: Youtube,
         audio: AudioLines,
+        docx: FileType2,
+        pptx: Presentation,
+        odt: FilePen,
+        epub: BookOpen,
+        table: FileSpreadsheet,
     };
     const Icon = iconMap[type] || FileIcon; // Fallback to FileIcon
     return <Icon className={`${sizeClass} text-gray-800`} />;
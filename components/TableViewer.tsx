@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { TableData } from '../types';
+import { formatCell } from '../services/tableService';
+
+interface TableViewerProps {
+    table: TableData;
+    sheetName?: string; // Sheet to show first, e.g. the cited one
+    highlightRows?: number[]; // 1-based data rows to highlight
+}
+
+const ROWS_PER_PAGE = 100;
+
+const TableViewer: React.FC<TableViewerProps> = ({ table, sheetName, highlightRows }) => {
+    const [sheetIndex, setSheetIndex] = useState(0);
+    const [page, setPage] = useState(0);
+    const firstHighlightRef = useRef<HTMLTableRowElement>(null);
+
+    // Open the cited sheet on the page holding the first cited row
+    useEffect(() => {
+        const index = table.sheets.findIndex(sheet => sheet.name === sheetName);
+        setSheetIndex(Math.max(index, 0));
+        setPage(highlightRows && highlightRows.length > 0 ? Math.floor((Math.min(...highlightRows) - 1) / ROWS_PER_PAGE) : 0);
+    }, [table, sheetName, highlightRows]);
+
+    useEffect(() => {
+        firstHighlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [sheetIndex, page, highlightRows]);
+
+    const sheet = table.sheets[sheetIndex] ?? table.sheets[0];
+    if (!sheet) return null;
+
+    const highlighted = new Set(sheet.name === sheetName || !sheetName ? highlightRows : []);
+    const pageCount = Math.max(1, Math.ceil(sheet.rows.length / ROWS_PER_PAGE));
+    const start = page * ROWS_PER_PAGE;
+    const visibleRows = sheet.rows.slice(start, start + ROWS_PER_PAGE);
+    const firstHighlighted = visibleRows.findIndex((_, i) => highlighted.has(start + i + 1));
+
+    return (
+        <div className="rounded-lg border border-gray-200 overflow-hidden">
+            {table.sheets.length > 1 && (
+                <div className="flex gap-1 px-2 py-1 border-b border-gray-200 overflow-x-auto no-scrollbar">
+                    {table.sheets.map((s, index) => (
+                        <button
+                            key={s.name}
+                            onClick={() => { setSheetIndex(index); setPage(0); }}
+                            className={`px-2 h-7 rounded text-xs whitespace-nowrap ${index === sheetIndex ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                        >
+                            {s.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-center justify-between px-2 h-9 border-b border-gray-200 bg-gray-50 text-xs text-gray-600">
+                <button
+                    onClick={() => setPage(p => Math.max(0, p - 1))}
+                    disabled={page <= 0}
+                    title="Previous rows"
+                    className="w-7 h-7 flex items-center justify-center rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    <ChevronLeft className="h-4 w-4" />
+                </button>
+                <span>
+                    {sheet.rows.length > 0
+                        ? `Rows ${start + 1}–${start + visibleRows.length} of ${sheet.rows.length.toLocaleString()}`
+                        : 'No rows'}
+                </span>
+                <button
+                    onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                    disabled={page >= pageCount - 1}
+                    title="Next rows"
+                    className="w-7 h-7 flex items-center justify-center rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    <ChevronRight className="h-4 w-4" />
+                </button>
+            </div>
+            <div className="max-h-96 overflow-auto sidebar-scroll">
+                <table className="min-w-full text-xs text-gray-700">
+                    <thead className="sticky top-0 bg-white shadow-[0_1px_0_#e5e7eb]">
+                        <tr>
+                            <th className="px-2 py-1.5 text-right font-medium text-gray-400">#</th>
+                            {sheet.columns.map(column => (
+                                <th key={column.name} className="px-2 py-1.5 text-left font-medium text-gray-800 whitespace-nowrap" title={column.type}>
+                                    {column.name}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleRows.map((row, i) => {
+                            const rowNumber = start + i + 1;
+                            return (
+                                <tr
+                                    key={rowNumber}
+                                    ref={i === firstHighlighted ? firstHighlightRef : undefined}
+                                    className={highlighted.has(rowNumber) ? 'bg-yellow-100' : 'border-t border-gray-100'}
+                                >
+                                    <td className="px-2 py-1 text-right text-gray-400">{rowNumber}</td>
+                                    {sheet.columns.map((column, c) => (
+                                        <td key={column.name} className={`px-2 py-1 whitespace-nowrap ${column.type === 'number' ? 'text-right tabular-nums' : ''}`}>
+                                            {formatCell(row[c])}
+                                        </td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default TableViewer;
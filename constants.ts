@@ -1,5 +1,5 @@
 import React from 'react';
-import { StudioTool, Artifact, Notebook, IconName } from './types';
+import { StudioTool, ArtifactKind, IconName } from './types';
 import { StickyNote, AudioLines, GitFork, Video, ClipboardList, Layers, HelpCircle, TrendingUp, Bot, BookOpen, FileText, Router, ScrollText } from 'lucide-react';
 
 export const iconMap: Record<IconName, React.ElementType> = {
@@ -20,4 +20,13 @@ export const studioTools: StudioTool[] = [
     { id: 6, name: 'Quiz', icon: HelpCircle },
 ];
 
-export const artifacts: Artifact[] = [];
\ No newline at end of file
+export const artifactIconMap: Record<ArtifactKind, React.ElementType> = {
+    'note': StickyNote,
+    'saved-response': StickyNote,
+    'audio-overview': AudioLines,
+    'video-overview': Video,
+    'mind-map': GitFork,
+    'report': ClipboardList,
+    'flashcards': Layers,
+    'quiz': HelpCircle,
+};
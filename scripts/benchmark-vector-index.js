@@ -0,0 +1,43 @@
+/**
+ * Compares the vector store's HNSW index with an exact linear scan on
+ * synthetic clustered vectors: build time, query latency and recall@k. To run
+ * it on a notebook's own vectors instead, see "Search slow or missing
+ * passages" in the README.
+ *
+ * Usage: npm run benchmark-index -- [--vectors 10000] [--dimension 384] [--queries 100] [--top-k 8] [--ef 64]
+ */
+import { parseArgs } from 'util';
+import { createServer } from 'vite';
+
+const { values } = parseArgs({
+  options: {
+    vectors: { type: 'string', default: '10000' },
+    dimension: { type: 'string', default: '384' },
+    queries: { type: 'string', default: '100' },
+    'top-k': { type: 'string', default: '8' },
+    ef: { type: 'string', default: '64' },
+  },
+});
+
+// Only used to load the TypeScript sources; no app config or plugins needed
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true },
+  optimizeDeps: { noDiscovery: true },
+});
+try {
+  const { benchmarkVectorIndex, generateClusteredVectors } = await server.ssrLoadModule('/services/vectorIndexBenchmark.ts');
+
+  const count = Number(values.vectors);
+  const dimension = Number(values.dimension);
+  console.log(`Benchmarking the vector index on ${count} synthetic vectors with ${dimension} dimensions...`);
+  const result = benchmarkVectorIndex(generateClusteredVectors(count, dimension), {
+    queries: Number(values.queries),
+    topK: Number(values['top-k']),
+    ef: Number(values.ef),
+  });
+  console.table(result);
+} finally {
+  await server.close();
+}
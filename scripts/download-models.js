@@ -0,0 +1,36 @@
+/**
+ * Downloads the local embedding models into ./models, from where the app
+ * serves and precaches them (see vite.config.ts) so indexing and search work
+ * offline. Files that are already there are skipped.
+ *
+ * Usage: npm run download-models
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Keep in sync with services/embeddingProviders/localEmbeddingProvider.ts
+const MODELS = ['Xenova/all-MiniLM-L6-v2', 'Xenova/multilingual-e5-small'];
+const MODEL_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+
+const HUB_URL = 'https://huggingface.co';
+const MODELS_DIR = fileURLToPath(new URL('../models', import.meta.url));
+
+for (const model of MODELS) {
+  for (const file of MODEL_FILES) {
+    const target = path.join(MODELS_DIR, model, file);
+    if (fs.existsSync(target)) continue;
+
+    console.log(`Downloading ${model}/${file}...`);
+    const response = await fetch(`${HUB_URL}/${model}/resolve/main/${file}`);
+    if (!response.ok) {
+      throw new Error(`Could not download ${model}/${file}: ${response.status} ${response.statusText}`);
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    // Written under another name first so an interrupted download isn't taken for a complete one
+    fs.writeFileSync(`${target}.part`, Buffer.from(await response.arrayBuffer()));
+    fs.renameSync(`${target}.part`, target);
+  }
+}
+
+console.log(`Local models are in ${MODELS_DIR}`);
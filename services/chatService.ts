@@ -0,0 +1,598 @@
+import { Source, SourceStatus, Message, DiscoverResults, ChatConfig, EmbeddingConfig, ResponseLength, StreamOptions, Citation, TableSheet } from '../types';
+import { vectorStore, SearchResult } from './vectorStore';
+import { describeLocation } from './citationService';
+import { formatCell, formatRows } from './tableService';
+import { runTableQuery } from './tableQueryService';
+import { describeTableQuery, TableQuery, TableQueryResult, AggregateFunction, FilterOperator, AGGREGATE_FUNCTIONS, FILTER_OPERATORS } from './tableQueryEngine';
+import { getProvider, getEmbeddingProvider, DEFAULT_PROVIDER_ID, LLMProvider, LLMMessage, LLMAttachment, LLMRequest, LLMStreamResult, JSONSchema } from './providers';
+
+/**
+ * Chat Service
+ * 
+ * This service implements a true RAG (Retrieval-Augmented Generation) architecture:
+ * 1. Documents are chunked and embedded when uploaded
+ * 2. User queries are embedded to find relevant context
+ * 3. Retrieved context is provided to the LLM for grounded responses
+ * 4. Responses include citations to source material
+ *
+ * Questions about CSV and spreadsheet sources can instead be computed: the LLM
+ * plans a query that runs locally over every row (generateTableQueryResponse).
+ *
+ * Prompts are built here once; the notebook's LLM provider (see ./providers)
+ * does the actual generation.
+ */
+
+/**
+ * Per-notebook options that shape how answers are written
+ */
+export interface ResponseOptions {
+    chatConfig?: ChatConfig;
+    outputLanguage?: string;
+    embedding?: EmbeddingConfig; // Model the notebook's sources are embedded with
+}
+
+/**
+ * Resolve the provider and model a notebook is configured to use
+ */
+function resolveProvider(chatConfig?: ChatConfig): { provider: LLMProvider; model: string } {
+    const provider = getProvider(chatConfig?.provider || DEFAULT_PROVIDER_ID);
+    return { provider, model: chatConfig?.model?.trim() || provider.defaultModel };
+}
+
+/**
+ * Complete a chat prompt, streaming when the caller wants live text or the ability to stop
+ */
+async function completeChat(provider: LLMProvider, request: LLMRequest, options: StreamOptions): Promise<LLMStreamResult> {
+    if ((!options.onText && !options.signal) || !provider.capabilities.streaming) {
+        return { text: await provider.complete(request), stopped: false };
+    }
+    return provider.stream(request, options);
+}
+
+/**
+ * The last few messages, for prompts that should follow the conversation
+ */
+function formatConversationContext(conversationHistory?: Message[]): string {
+    if (!conversationHistory || conversationHistory.length === 0) return '';
+    return '\n\n**Previous Conversation:**\n' + conversationHistory
+        .slice(-4) // Last 4 messages for context
+        .map(msg => `${msg.sender === 'user' ? 'User' : 'Assistant'}: ${msg.text}`)
+        .join('\n');
+}
+
+/**
+ * Image and audio sources the provider can read directly
+ */
+function collectAttachments(sources: Source[], provider: LLMProvider): LLMAttachment[] {
+    return sources
+        .filter(s => s.base64Content && s.mimeType)
+        .filter(s => provider.capabilities.inputModalities.some(modality => s.mimeType!.startsWith(`${modality}/`)))
+        .map(s => ({ name: s.name, mimeType: s.mimeType!, data: s.base64Content! }));
+}
+
+/**
+ * Format retrieved chunks for the prompt
+ */
+function formatRetrievedContext(results: SearchResult[]): string {
+    return results
+        .map((result, index) => {
+            const location = describeLocation(result.chunk.metadata || {});
+            return `[Source ${index + 1}] (Relevance: ${(result.score * 100).toFixed(1)}%)
+Document: ${result.chunk.sourceName}${location ? ` (${location})` : ''}
+Content: ${result.chunk.content}
+---`;
+        })
+        .join('\n\n');
+}
+
+// Language names as shown in the LanguageModal, mapped to how the model should read them
+const LANGUAGE_NAMES: Record<string, string> = {
+    'Indonesia': 'Indonesian (Bahasa Indonesia)',
+};
+
+const MAX_TOKENS_BY_LENGTH: Record<ResponseLength, number> = {
+    'Default': 2000,
+    'Shorter': 800,
+    'Longer': 4000,
+};
+
+/**
+ * Build the style, length and language instructions appended to every chat system prompt
+ */
+function buildResponseGuidelines(options: ResponseOptions): string {
+    const { chatConfig, outputLanguage } = options;
+    const guidelines: string[] = [];
+
+    if (chatConfig?.style === 'Learning Guide') {
+        guidelines.push(
+            'Act as a patient tutor. Explain concepts step by step, define key terms the first time they appear, ' +
+            'use concrete examples from the sources, and end with two or three short questions the user can answer to check their understanding.'
+        );
+    } else if (chatConfig?.style === 'Custom' && chatConfig.customPrompt?.trim()) {
+        guidelines.push(`Follow these instructions from the user about tone and role: ${chatConfig.customPrompt.trim()}`);
+    }
+
+    if (chatConfig?.length === 'Shorter') {
+        guidelines.push('Keep the answer brief: a few sentences or a short list, no more than about 150 words.');
+    } else if (chatConfig?.length === 'Longer') {
+        guidelines.push('Give a comprehensive, detailed answer that covers every relevant point in the sources, with headings where helpful.');
+    }
+
+    if (outputLanguage) {
+        const languageName = LANGUAGE_NAMES[outputLanguage] || outputLanguage;
+        guidelines.push(
+            `Always write the answer in ${languageName}, even when the sources or the question are in another language. ` +
+            'Keep citation markers, names and direct quotes unchanged.'
+        );
+    }
+
+    if (guidelines.length === 0) return '';
+    return `\n\n**Response Guidelines:**\n${guidelines.map(g => `- ${g}`).join('\n')}`;
+}
+
+/**
+ * Generate RAG-based chat response
+ * 
+ * This is the core RAG function that:
+ * 1. Embeds the user query
+ * 2. Retrieves relevant chunks from the vector store
+ * 3. Constructs a prompt with retrieved context
+ * 4. Generates a response with the notebook's LLM provider
+ * 5. Returns the response with source citations
+ */
+export const generateChatResponse = async (
+    query: string,
+    sources?: Source[],
+    conversationHistory?: Message[],
+    options: ResponseOptions & StreamOptions = {}
+): Promise<{ text: string; retrievedChunks?: SearchResult[]; stopped?: boolean }> => {
+    if (!query.trim()) {
+        return { text: "Please enter a query." };
+    }
+
+    const responseGuidelines = buildResponseGuidelines(options);
+    const maxTokens = MAX_TOKENS_BY_LENGTH[options.chatConfig?.length || 'Default'];
+    const { provider, model } = resolveProvider(options.chatConfig);
+
+    const complete = (messages: LLMMessage[], temperature: number, attachments?: LLMAttachment[]) =>
+        completeChat(provider, { messages, model, temperature, maxTokens, attachments }, options);
+
+    const checkedSources = sources?.filter(s => s.status === SourceStatus.INDEXED) || [];
+    const attachments = collectAttachments(checkedSources, provider);
+
+    // If no sources, provide a general response
+    if (checkedSources.length === 0) {
+        const messages: LLMMessage[] = [
+            {
+                role: 'system',
+                content: `You are a helpful AI assistant. Format your responses using Markdown for readability.${responseGuidelines}`,
+            },
+            {
+                role: 'user',
+                content: query,
+            },
+        ];
+
+        return complete(messages, 0.7);
+    }
+
+    // ===== RAG PIPELINE =====
+
+    // Step 1: Generate embedding for the user query, refusing to compare it with sources embedded by another model
+    const embeddingProvider = getEmbeddingProvider(options.embedding);
+    const sourceIds = checkedSources.map(s => s.id);
+    const staleSourceIds = await vectorStore.findSourcesWithOtherEmbeddings(sourceIds, embeddingProvider.modelKey);
+    if (staleSourceIds.length > 0) {
+        const names = checkedSources.filter(s => staleSourceIds.includes(s.id)).map(s => `"${s.name}"`).join(', ');
+        throw new Error(`${names} ${staleSourceIds.length === 1 ? 'was' : 'were'} embedded with a different model than this notebook uses (${embeddingProvider.model}). Re-embed ${staleSourceIds.length === 1 ? 'it' : 'them'} under Settings → Indexing, or deselect ${staleSourceIds.length === 1 ? 'it' : 'them'}.`);
+    }
+    console.log('Generating query embedding...');
+    const queryEmbedding = await embeddingProvider.embedQuery(query);
+
+    // Step 2: Retrieve relevant chunks from vector store
+    console.log('Searching vector store...');
+    const retrievedChunks = await vectorStore.search(queryEmbedding, {
+        embeddingModel: embeddingProvider.modelKey,
+        topK: 8, // Retrieve top 8 most relevant chunks
+        sourceIds: sourceIds,
+        minScore: embeddingProvider.minScore, // Minimum similarity threshold
+    });
+
+    console.log(`Retrieved ${retrievedChunks.length} relevant chunks`);
+
+    // Step 3: Handle cases where no relevant context is found
+    if (retrievedChunks.length === 0 && attachments.length === 0) {
+        const messages: LLMMessage[] = [
+            {
+                role: 'system',
+                content: `You are an AI assistant. The user has uploaded ${checkedSources.length} source(s), but no relevant content was found for their query. Politely inform them that their sources don't contain information about this topic.${responseGuidelines}`,
+            },
+            {
+                role: 'user',
+                content: query,
+            },
+        ];
+
+        const { text, stopped } = await complete(messages, 0.7);
+        return { text, retrievedChunks: [], stopped };
+    }
+
+    // Step 4: Construct RAG prompt with retrieved context
+    const contextText = formatRetrievedContext(retrievedChunks);
+    
+    // Image and audio sources are attached directly for providers that can read them
+    const attachmentContext = attachments.length > 0
+        ? `\n\n**Attached Files:** ${attachments.map(a => `"${a.name}"`).join(', ')}. Refer to these by name when you use them.`
+        : '';
+
+    // Build conversation context if available
+    const conversationContext = formatConversationContext(conversationHistory);
+
+    const systemPrompt = `You are an expert AI assistant that answers questions based ONLY on the provided source material.
+
+**Your Task:**
+1. Carefully read and analyze the retrieved source material below
+2. Answer the user's question using ONLY information from these sources
+3. Cite your sources using the format [Source N] where N is the source number
+4. If the sources don't contain enough information to fully answer the question, state what is covered and what isn't
+5. Use clear Markdown formatting (headings, lists, bold text, etc.)
+6. Be concise but thorough
+
+**CRITICAL RULES:**
+- ONLY use information from the provided sources
+- ALWAYS cite sources for factual claims using [Source N]
+- If sources contradict each other, mention both perspectives with citations
+- If the answer isn't in the sources, say so clearly
+- Do NOT make up information or use external knowledge
+
+**Retrieved Source Material:**
+${contextText || '(No text passages matched this question.)'}${attachmentContext}${conversationContext}${responseGuidelines}`;
+
+    const messages: LLMMessage[] = [
+        {
+            role: 'system',
+            content: systemPrompt,
+        },
+        {
+            role: 'user',
+            content: `**Question:** ${query}`,
+        },
+    ];
+
+    // Step 5: Generate response with the configured provider
+    console.log(`Generating response with ${provider.name} (${model})...`);
+    const { text, stopped } = await complete(messages, 0.3, attachments); // Lower temperature for factual accuracy
+
+    console.log(stopped ? 'RAG response stopped by user' : 'RAG response generated successfully');
+    
+    return { 
+        text, 
+        retrievedChunks,
+        stopped
+    };
+};
+
+const TABLE_QUERY_SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        table: { type: 'integer', description: 'Number of the table to query, as listed.' },
+        filters: {
+            type: 'array',
+            description: 'Conditions a row must meet to be included.',
+            items: {
+                type: 'object',
+                properties: {
+                    column: { type: 'string' },
+                    operator: { type: 'string', description: `One of: ${FILTER_OPERATORS.join(' ')}` },
+                    value: { type: 'string', description: 'Numbers as plain digits; dates as YYYY-MM-DD, or a YYYY-MM prefix with "=".' },
+                },
+                required: ['column', 'operator', 'value'],
+            },
+        },
+        groupBy: { type: 'array', description: 'Columns to group by; empty for a single overall result.', items: { type: 'string' } },
+        aggregations: {
+            type: 'array',
+            description: 'Values to compute per group; empty to list the matching rows instead.',
+            items: {
+                type: 'object',
+                properties: {
+                    function: { type: 'string', description: `One of: ${AGGREGATE_FUNCTIONS.join(', ')}` },
+                    column: { type: 'string', description: 'Column to aggregate; an empty string with count counts rows.' },
+                },
+                required: ['function', 'column'],
+            },
+        },
+        sortBy: { type: 'string', description: 'Result column to sort by, e.g. "Region" or "sum(Revenue)"; empty for no sorting.' },
+        sortDirection: { type: 'string', description: 'asc or desc' },
+        limit: { type: 'integer', description: 'Maximum number of result rows, e.g. 10 for a top 10; 0 for the default.' },
+    },
+    required: ['table', 'filters', 'groupBy', 'aggregations', 'sortBy', 'sortDirection', 'limit'],
+};
+
+interface TableQueryPlan {
+    table: number;
+    filters: { column: string; operator: string; value: string }[];
+    groupBy: string[];
+    aggregations: { function: string; column: string }[];
+    sortBy: string;
+    sortDirection: string;
+    limit: number;
+}
+
+// Data rows quoted in each citation of a computed answer
+const MAX_ROWS_PER_CITATION = 10;
+
+/**
+ * Check a plan from the model and turn it into an engine query
+ */
+function toTableQuery(plan: TableQueryPlan): TableQuery {
+    return {
+        filters: (plan.filters || []).map(filter => {
+            const operator = filter.operator as FilterOperator;
+            if (!FILTER_OPERATORS.includes(operator)) {
+                throw new Error(`The query used an unsupported filter "${filter.operator}".`);
+            }
+            return { column: filter.column, operator, value: String(filter.value) };
+        }),
+        groupBy: plan.groupBy || [],
+        aggregations: (plan.aggregations || []).map(aggregation => {
+            const fn = aggregation.function?.toLowerCase() as AggregateFunction;
+            if (!AGGREGATE_FUNCTIONS.includes(fn)) {
+                throw new Error(`The query used an unsupported aggregation "${aggregation.function}".`);
+            }
+            return { function: fn, column: aggregation.column?.trim() || undefined };
+        }),
+        sortBy: plan.sortBy?.trim() || undefined,
+        sortDirection: plan.sortDirection?.toLowerCase() === 'asc' ? 'asc' : 'desc',
+        limit: plan.limit > 0 ? plan.limit : undefined,
+    };
+}
+
+/**
+ * One citation per result row, quoting the data rows it was computed from
+ */
+function toResultCitations(source: Source, sheet: TableSheet, result: TableQueryResult): Citation[] {
+    return result.rows.map((row, index) => {
+        const rowNumbers = result.sourceRows[index];
+        const quoted = rowNumbers.slice(0, MAX_ROWS_PER_CITATION);
+        const summary = result.columns.map((column, i) => `${column}: ${formatCell(row[i])}`).join(', ');
+        const more = rowNumbers.length > quoted.length ? `\n…and ${rowNumbers.length - quoted.length} more rows` : '';
+        return {
+            chunkId: '',
+            sourceId: source.id,
+            sourceName: source.name,
+            chunkIndex: index,
+            sheetName: sheet.name,
+            rowNumbers,
+            content: `${summary}\nComputed from ${rowNumbers.length} row${rowNumbers.length !== 1 ? 's' : ''}:\n${formatRows(sheet, quoted)}${more}`,
+        };
+    });
+}
+
+/**
+ * Answer a question about spreadsheet sources by computing it
+ *
+ * 1. The LLM plans a query (filters, group by, aggregations) from the table schemas
+ * 2. The query runs locally in a sandboxed worker over every row
+ * 3. The LLM writes the answer from the computed result only
+ * 4. Each result row becomes a citation of the data rows behind it
+ */
+export const generateTableQueryResponse = async (
+    query: string,
+    sources: Source[],
+    conversationHistory?: Message[],
+    options: ResponseOptions & StreamOptions = {}
+): Promise<{ text: string; citations: Citation[]; stopped?: boolean }> => {
+    const tables = sources
+        .filter(s => s.status === SourceStatus.INDEXED && s.table)
+        .flatMap(source => source.table!.sheets.map(sheet => ({ source, sheet })));
+    if (tables.length === 0) {
+        throw new Error('Select a CSV or spreadsheet source to compute answers.');
+    }
+
+    const { provider, model } = resolveProvider(options.chatConfig);
+    const conversationContext = formatConversationContext(conversationHistory);
+
+    // Step 1: Plan the query from the schemas and a few sample rows
+    const catalog = tables
+        .map(({ source, sheet }, index) => `Table ${index + 1}: "${source.name}", sheet "${sheet.name}" (${sheet.rows.length} rows)
+Columns: ${sheet.columns.map(column => `${column.name} (${column.type})`).join(', ')}
+First rows:
+${formatRows(sheet, sheet.rows.slice(0, 3).map((_, i) => i + 1))}`)
+        .join('\n\n');
+
+    const plan = await provider.completeJSON<TableQueryPlan>({
+        messages: [
+            {
+                role: 'system',
+                content: `You turn questions about tabular data into a query over one of the tables below. Use the exact column names. Filter values must match the data as shown.
+
+**Tables:**
+${catalog}${conversationContext}`,
+            },
+            { role: 'user', content: query },
+        ],
+        model,
+        temperature: 0,
+    }, TABLE_QUERY_SCHEMA);
+
+    const target = tables[plan.table - 1];
+    if (!target) throw new Error('The question could not be matched to one of the selected tables.');
+    const tableQuery = toTableQuery(plan);
+    console.log(`Computing ${describeTableQuery(tableQuery)} over ${target.source.name} / ${target.sheet.name}`);
+
+    // Step 2: Run it over every row, off the main thread
+    const result = await runTableQuery(target.sheet, tableQuery, options.signal);
+    const citations = toResultCitations(target.source, target.sheet, result);
+
+    // Step 3: Write the answer from the result
+    const resultTable = [
+        `| Source | ${result.columns.join(' | ')} |`,
+        `| --- | ${result.columns.map(() => '---').join(' | ')} |`,
+        ...result.rows.map((row, index) => `| [Source ${index + 1}] | ${row.map(formatCell).join(' | ')} |`),
+    ].join('\n');
+
+    const systemPrompt = `You are an expert data analyst. A query was computed over the user's spreadsheet to answer their question. Answer using ONLY the computed result below.
+
+**Your Task:**
+1. Answer the question directly, stating the computed figures
+2. Cite every figure with [Source N], where N labels the result row it comes from
+3. Briefly say how the result was computed (the filters and grouping used)
+4. If the result can't answer the question, say so and suggest how to rephrase it
+5. Use clear Markdown formatting; show several result rows as a table
+
+**Table:** "${target.source.name}", sheet "${target.sheet.name}" (${target.sheet.rows.length} rows)
+**Query:** ${describeTableQuery(tableQuery)}
+**Rows matching the filters:** ${result.matchedRows}${result.truncated ? `\n**Note:** Only the first ${result.rows.length} result rows are shown.` : ''}
+
+**Computed Result:**
+${result.rows.length > 0 ? resultTable : '(No rows matched.)'}${conversationContext}${buildResponseGuidelines(options)}`;
+
+    const maxTokens = MAX_TOKENS_BY_LENGTH[options.chatConfig?.length || 'Default'];
+    const { text, stopped } = await completeChat(provider, {
+        messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: `**Question:** ${query}` },
+        ],
+        model,
+        temperature: 0.2,
+        maxTokens,
+    }, options);
+
+    return { text, citations, stopped };
+};
+
+const DISCOVER_SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        summary: {
+            type: 'string',
+            description: 'A one-paragraph summary of the findings, with markdown emphasis.',
+        },
+        sources: {
+            type: 'array',
+            description: 'A list of 5-7 relevant sources.',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    link: { type: 'string' },
+                    description: { type: 'string' },
+                },
+                required: ['title', 'link', 'description'],
+            },
+        },
+    },
+    required: ['summary', 'sources'],
+};
+
+const SUGGESTIONS_SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        suggestions: {
+            type: 'array',
+            description: 'An array of three suggested questions.',
+            items: { type: 'string' },
+        },
+    },
+    required: ['suggestions'],
+};
+
+/**
+ * Discover sources on a topic with the notebook's provider
+ */
+export const discoverSources = async (topic: string, chatConfig?: ChatConfig): Promise<DiscoverResults> => {
+    try {
+        const systemPrompt = `You are an expert research assistant. Find relevant, high-quality sources on the given topic.
+
+Provide:
+1. A concise one-paragraph summary of key findings (use markdown formatting)
+2. A list of 5-7 excellent sources with title, URL, and brief description
+
+Ensure all URLs are valid and directly accessible.`;
+
+        const messages: LLMMessage[] = [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: `Research topic: "${topic}"` },
+        ];
+
+        const { provider, model } = resolveProvider(chatConfig);
+        const result = await provider.completeJSON<DiscoverResults>({ messages, model, temperature: 0.7 }, DISCOVER_SCHEMA);
+
+        if (result.summary && Array.isArray(result.sources)) {
+            return result;
+        } else {
+            throw new Error('Invalid response format from AI');
+        }
+    } catch (error) {
+        console.error('Error discovering sources:', error);
+        throw new Error('Failed to discover sources. Please try again.');
+    }
+};
+
+/**
+ * Generate conversation suggestions
+ */
+export const generateSuggestions = async (
+    sources: Source[],
+    messages: Message[],
+    chatConfig?: ChatConfig
+): Promise<string[]> => {
+    const defaultSuggestions = [
+        "Can you explain the main concept in simpler terms?",
+        "What are the key takeaways from these sources?",
+        "How does this information connect to related topics?",
+    ];
+
+    const checkedSources = sources.filter(s => s.status === SourceStatus.INDEXED);
+
+    if (checkedSources.length === 0 && messages.length === 0) {
+        return [
+            "Summarize the key points from my sources",
+            "What are the main themes discussed?",
+            "Find connections between different sources",
+        ];
+    }
+
+    try {
+        // Build context
+        let context = '';
+        
+        if (messages.length > 0) {
+            context += 'Recent conversation:\n';
+            context += messages
+                .slice(-3)
+                .map(m => `${m.sender}: ${m.text.substring(0, 200)}`)
+                .join('\n');
+        }
+
+        if (checkedSources.length > 0) {
+            context += `\n\nUser has ${checkedSources.length} source document(s) loaded.`;
+        }
+
+        const systemPrompt = `Generate three insightful follow-up questions a user might ask based on their context. The questions should be:
+- Specific and actionable
+- Build on the existing conversation
+- Help the user explore the topic deeper`;
+
+        const messages_req: LLMMessage[] = [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: context },
+        ];
+
+        const { provider, model } = resolveProvider(chatConfig);
+        const result = await provider.completeJSON<{ suggestions?: string[] }>(
+            { messages: messages_req, model, temperature: 0.8 },
+            SUGGESTIONS_SCHEMA
+        );
+        
+        if (result.suggestions && Array.isArray(result.suggestions)) {
+            return result.suggestions.slice(0, 3);
+        }
+
+        return defaultSuggestions;
+    } catch (error) {
+        console.error('Error generating suggestions:', error);
+        return defaultSuggestions;
+    }
+};
@@ -0,0 +1,237 @@
+import type { ChunkingConfig } from '../types';
+import type { TextChunk } from './embeddingService';
+
+/**
+ * Chunking Service
+ *
+ * Splits text into chunks sized in tokens of the embedding model, so no chunk
+ * is cut off when it's embedded. Markdown structure is kept: a heading always
+ * starts a new chunk, list items and code fences are only split when they
+ * don't fit on their own, and every chunk records the headings it sits under.
+ */
+
+export type TokenCounter = (text: string) => number;
+
+export interface ChunkingOptions extends ChunkingConfig {
+    countTokens: TokenCounter;
+}
+
+// all-MiniLM-L6-v2, the local model with the smallest window, reads at most 256 tokens, two of which are special tokens
+export const MAX_CHUNK_SIZE = 254;
+export const MIN_CHUNK_SIZE = 32;
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+    chunkSize: 200,
+    chunkOverlap: 30,
+};
+
+interface Block {
+    type: 'heading' | 'code' | 'list' | 'text';
+    text: string;
+    level?: number; // Headings only
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d{1,9}[.)])\s+/;
+
+// Collapse runs of spaces and tabs; line breaks are kept for lists and tables
+const cleanLine = (line: string): string => line.replace(/[^\S\n]+/g, ' ').trim();
+
+/**
+ * Split Markdown (or plain text) into headings, code fences, list items and paragraphs
+ */
+function parseBlocks(text: string): Block[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+    let listItem: string[] = [];
+
+    const endParagraph = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'text', text: paragraph.join('\n') });
+        paragraph = [];
+    };
+    const endListItem = () => {
+        if (listItem.length > 0) blocks.push({ type: 'list', text: listItem.join('\n') });
+        listItem = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            endParagraph();
+            endListItem();
+            // An unclosed fence runs to the end of the text
+            const marker = fence[1];
+            const code = [line.trimEnd()];
+            while (++i < lines.length) {
+                code.push(lines[i].trimEnd());
+                if (lines[i].trim().startsWith(marker[0].repeat(marker.length))) break;
+            }
+            blocks.push({ type: 'code', text: code.join('\n') });
+            continue;
+        }
+
+        const cleaned = cleanLine(line);
+        if (!cleaned) {
+            endParagraph();
+            endListItem();
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            endParagraph();
+            endListItem();
+            blocks.push({ type: 'heading', text: cleaned, level: heading[1].length });
+        } else if (LIST_ITEM.test(line)) {
+            endParagraph();
+            endListItem();
+            listItem.push(cleaned);
+        } else if (listItem.length > 0) {
+            listItem.push(cleaned); // Wrapped line of the current item
+        } else {
+            paragraph.push(cleaned);
+        }
+    }
+    endParagraph();
+    endListItem();
+
+    return blocks;
+}
+
+/**
+ * Break text that is too long for one chunk into pieces of at most maxTokens:
+ * code by lines, prose by sentences, and either by words when a line or
+ * sentence is still too long
+ */
+function splitOversized(text: string, isCode: boolean, maxTokens: number, countTokens: TokenCounter): string[] {
+    const units = isCode ? text.split('\n') : text.split(/(?<=[.!?])\s+/);
+    const separator = isCode ? '\n' : ' ';
+    const pieces: string[] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    const add = (unit: string, tokens: number) => {
+        if (current.length > 0 && currentTokens + tokens > maxTokens) {
+            pieces.push(current.join(separator));
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(unit);
+        currentTokens += tokens;
+    };
+
+    for (const unit of units) {
+        const tokens = countTokens(unit);
+        if (tokens <= maxTokens) {
+            add(unit, tokens);
+            continue;
+        }
+        // A single word longer than a chunk (e.g. an encoded blob) stays whole
+        for (const word of unit.split(/\s+/).filter(Boolean)) {
+            add(word, countTokens(word));
+        }
+    }
+    if (current.length > 0) pieces.push(current.join(separator));
+
+    return pieces;
+}
+
+/**
+ * The last words of a chunk, up to maxTokens, to repeat at the start of the next one
+ */
+function overlapTail(text: string, maxTokens: number, countTokens: TokenCounter): string {
+    if (maxTokens <= 0) return '';
+    const words = text.split(/\s+/).filter(Boolean);
+    let tokens = 0;
+    let start = words.length;
+    while (start > 0) {
+        const wordTokens = countTokens(words[start - 1]);
+        if (tokens + wordTokens > maxTokens) break;
+        tokens += wordTokens;
+        start--;
+    }
+    // Never repeat the whole chunk
+    return start === 0 ? '' : words.slice(start).join(' ');
+}
+
+/**
+ * Keep the chunk size within what the embedding model reads, and the overlap
+ * well below the chunk size
+ */
+export function normalizeChunkingConfig(config?: Partial<ChunkingConfig>): ChunkingConfig {
+    const chunkSize = Math.round(Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE,
+        config?.chunkSize ?? DEFAULT_CHUNKING_CONFIG.chunkSize)));
+    const chunkOverlap = Math.round(Math.min(Math.floor(chunkSize / 2), Math.max(0,
+        config?.chunkOverlap ?? DEFAULT_CHUNKING_CONFIG.chunkOverlap)));
+    return { chunkSize, chunkOverlap };
+}
+
+/**
+ * Split text into chunks of at most chunkSize tokens, each tagged with its
+ * heading path. Consecutive chunks of a section share chunkOverlap tokens;
+ * chunks never overlap across a heading.
+ */
+export function chunkText(text: string, options: ChunkingOptions): TextChunk[] {
+    const { countTokens } = options;
+    const { chunkSize, chunkOverlap } = normalizeChunkingConfig(options);
+
+    const chunks: TextChunk[] = [];
+    const headings: { level: number; title: string }[] = [];
+    let parts: string[] = [];
+    let partsTokens = 0;
+    let hasNewContent = false; // False while the chunk holds only the previous chunk's overlap
+    let lastType: Block['type'] | null = null; // Code isn't repeated as overlap, since it would lose its line breaks
+
+    const flush = (carryOverlap: boolean) => {
+        const content = parts.join('\n\n');
+        if (hasNewContent) {
+            const headingPath = headings.map(heading => heading.title);
+            chunks.push({ content, ...(headingPath.length > 0 && { metadata: { headingPath } }) });
+        }
+        const tail = carryOverlap && hasNewContent && lastType !== 'code' ? overlapTail(content, chunkOverlap, countTokens) : '';
+        parts = tail ? [tail] : [];
+        partsTokens = tail ? countTokens(tail) : 0;
+        hasNewContent = false;
+    };
+
+    const append = (piece: string, tokens: number, type: Block['type']) => {
+        if (hasNewContent && partsTokens + tokens > chunkSize) {
+            flush(true);
+            // Drop the overlap rather than overflow the chunk
+            if (partsTokens + tokens > chunkSize) {
+                parts = [];
+                partsTokens = 0;
+            }
+        }
+        // Items of the same list stay on consecutive lines
+        if (type === 'list' && lastType === 'list' && hasNewContent) parts[parts.length - 1] += '\n' + piece;
+        else parts.push(piece);
+        partsTokens += tokens;
+        hasNewContent = true;
+        lastType = type;
+    };
+
+    for (const block of parseBlocks(text)) {
+        if (block.type === 'heading') {
+            flush(false);
+            while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) headings.pop();
+            headings.push({ level: block.level!, title: block.text.replace(/^#+\s*/, '') });
+        }
+
+        const tokens = countTokens(block.text);
+        if (tokens <= chunkSize) {
+            append(block.text, tokens, block.type);
+            continue;
+        }
+        for (const piece of splitOversized(block.text, block.type === 'code', chunkSize - chunkOverlap, countTokens)) {
+            append(piece, countTokens(piece), block.type);
+        }
+    }
+    flush(false);
+
+    return chunks;
+}
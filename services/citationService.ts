@@ -0,0 +1,127 @@
+import { Citation, Source } from '../types';
+import type { DocumentChunk } from './embeddingService';
+import { buildYouTubeTimestampUrl, formatTimestamp } from './youtubeService';
+
+/**
+ * Citation Service
+ *
+ * Answers reference retrieved chunks with markers like [Source 2] (the format
+ * requested in the RAG prompt). Older answers and the Gemini path use [source:2].
+ * Both forms, and grouped markers like [Source 1, 3], resolve to the 1-based
+ * position of the chunk in the message's citation list.
+ */
+
+const CITATION_MARKER_REGEX = /\[sources?(?::\s*|\s+)(\d+(?:\s*,\s*(?:sources?(?::\s*|\s+))?\d+)*)\]/gi;
+
+/**
+ * Build a citation from a retrieved document chunk
+ */
+export function toCitation(chunk: DocumentChunk): Citation {
+    return {
+        chunkId: chunk.id,
+        sourceId: chunk.sourceId,
+        sourceName: chunk.sourceName,
+        chunkIndex: chunk.metadata?.chunkIndex ?? 0,
+        pageNumber: chunk.metadata?.pageNumber,
+        startTime: chunk.metadata?.startTime,
+        sectionNumber: chunk.metadata?.sectionNumber,
+        slideNumber: chunk.metadata?.slideNumber,
+        sectionTitle: chunk.metadata?.sectionTitle,
+        chapterNumber: chunk.metadata?.chapterNumber,
+        chapterTitle: chunk.metadata?.chapterTitle,
+        sheetName: chunk.metadata?.sheetName,
+        rowStart: chunk.metadata?.rowStart,
+        rowEnd: chunk.metadata?.rowEnd,
+        content: chunk.content,
+    };
+}
+
+/**
+ * Replace citation markers with clickable citation buttons.
+ * Markers pointing at citations that don't exist are removed.
+ */
+export function renderCitationMarkers(text: string, citations?: Citation[]): string {
+    return text.replace(CITATION_MARKER_REGEX, (_match, numbers: string) => {
+        return (numbers.match(/\d+/g) || [])
+            .map(n => {
+                const citationIndex = parseInt(n, 10) - 1;
+                if (!citations || !citations[citationIndex]) return '';
+                return `<button class="citation-button" data-citation-index="${citationIndex}" aria-label="Source ${n}">${n}</button>`;
+            })
+            .join('');
+    });
+}
+
+/**
+ * Remove citation markers, e.g. when deriving a plain-text title from an answer
+ */
+export function stripCitationMarkers(text: string): string {
+    return text.replace(CITATION_MARKER_REGEX, '');
+}
+
+export type CitationLocation = Pick<Citation, 'pageNumber' | 'startTime' | 'sectionNumber' | 'slideNumber' | 'sectionTitle' | 'chapterNumber' | 'chapterTitle' | 'sheetName' | 'rowStart' | 'rowEnd' | 'rowNumbers'>;
+
+// Row lists longer than this are summarized as "… and N more"
+const MAX_LISTED_ROW_RANGES = 4;
+
+/**
+ * "Rows 2–4, 9" from row numbers, joining consecutive rows into ranges
+ */
+function formatRowNumbers(rowNumbers: number[]): string {
+    const sorted = [...new Set(rowNumbers)].sort((a, b) => a - b);
+    const ranges: [number, number][] = [];
+    for (const row of sorted) {
+        const last = ranges[ranges.length - 1];
+        if (last && row === last[1] + 1) last[1] = row;
+        else ranges.push([row, row]);
+    }
+    const listed = ranges.slice(0, MAX_LISTED_ROW_RANGES).map(([start, end]) => (start === end ? `${start}` : `${start}–${end}`));
+    const hidden = ranges.slice(MAX_LISTED_ROW_RANGES).reduce((count, [start, end]) => count + end - start + 1, 0);
+    return `${sorted.length === 1 ? 'Row' : 'Rows'} ${listed.join(', ')}${hidden > 0 ? ` and ${hidden} more` : ''}`;
+}
+
+/**
+ * Location recorded for a citation or chunk, e.g. "p. 4", "Chapter 4 – Market Profile"
+ * or "Sales, Rows 21–45". Undefined when the source has no pages, timestamps,
+ * sections, slides, chapters or rows.
+ */
+export function describeLocation(location: CitationLocation): string | undefined {
+    const withTitle = (label: string) => (location.sectionTitle ? `${label} – ${location.sectionTitle}` : label);
+    if (location.startTime !== undefined) return `At ${formatTimestamp(location.startTime)}`;
+    if (location.pageNumber !== undefined) return `p. ${location.pageNumber}`;
+    if (location.slideNumber !== undefined) return withTitle(`Slide ${location.slideNumber}`);
+    if (location.sectionNumber !== undefined) return withTitle(`Section ${location.sectionNumber}`);
+    if (location.chapterNumber !== undefined) {
+        const title = location.chapterTitle;
+        // Titles such as "Chapter 4: Market Profile" already carry the book's own numbering
+        if (title && /^(chapter|part|bab)\b/i.test(title)) return title;
+        return title ? `Chapter ${location.chapterNumber} – ${title}` : `Chapter ${location.chapterNumber}`;
+    }
+    if (location.sheetName !== undefined) {
+        const { rowStart, rowEnd } = location;
+        const rows = location.rowNumbers ? formatRowNumbers(location.rowNumbers)
+            : rowStart === undefined ? undefined
+            : rowEnd !== undefined && rowEnd > rowStart ? `Rows ${rowStart}–${rowEnd}`
+            : `Row ${rowStart}`;
+        // Without rows the chunk describes the sheet's columns
+        return rows ? `${location.sheetName}, ${rows}` : location.sheetName;
+    }
+    return undefined;
+}
+
+/**
+ * Human-readable location of a citation within its source
+ */
+export function formatCitationLocation(citation: Citation): string {
+    return describeLocation(citation) ?? `Passage ${citation.chunkIndex + 1}`;
+}
+
+/**
+ * External link to the cited location, e.g. the cited moment of a YouTube video
+ */
+export function getCitationLink(citation: Citation, source?: Source): string | null {
+    if (source?.type === 'youtube' && citation.startTime !== undefined) {
+        return buildYouTubeTimestampUrl(source.metadata?.url || source.textContent || source.name, citation.startTime);
+    }
+    return null;
+}
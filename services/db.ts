@@ -1,14 +1,44 @@
 
 
 import Dexie, { type Table } from 'dexie';
-import { Notebook, Source, SourceStatus } from '../types';
+import { Notebook, Source, SourceStatus, Message, Artifact } from '../types';
 import type { DocumentChunk } from './embeddingService';
+import type { IngestionJob } from './ingestionQueue';
+import type { OcrPage } from './ocrService';
+import type { SerializedHnswIndex } from './hnswIndex';
 
 // Omit non-serializable properties for DB storage
 export interface SourceDB extends Omit<Source, 'content'> {
     content?: ArrayBuffer;
 }
 
+// Sources attached to messages and artifacts are stored as lightweight snapshots without binary payloads
+export type SourceSnapshotDB = Omit<Source, 'content' | 'base64Content' | 'table'>;
+
+export interface MessageDB extends Omit<Message, 'sources'> {
+    notebookId: number;
+    createdAt: number;
+    sources?: SourceSnapshotDB[];
+}
+
+// OCR word boxes of a scanned PDF page or an image, used to highlight citations
+export interface OcrPageDB extends OcrPage {
+    sourceId: string;
+}
+
+// Nearest-neighbour graph over the chunks of one embedding model; the vectors stay in vectorChunks
+export interface VectorIndexDB extends SerializedHnswIndex {
+    embeddingModel: string;
+}
+
+export interface ArtifactDB extends Omit<Artifact, 'sources'> {
+    sources?: SourceSnapshotDB[];
+}
+
+const toSourceSnapshots = (sources?: Source[]): SourceSnapshotDB[] | undefined => {
+    return sources?.map(({ content, base64Content, table, ...restOfSource }) => restOfSource);
+};
+
 // FIX: Switched from a class-based to an interface-based approach for defining the DB.
 // This resolves TypeScript typing issues with Dexie's `version` and `transaction` methods
 // that can occur in some compiler configurations when subclassing Dexie.
@@ -16,6 +46,11 @@ export const db = new Dexie('NotebookLMDB') as Dexie & {
     notebooks: Table<Notebook, number>;
     sources: Table<SourceDB, string>;
     vectorChunks: Table<DocumentChunk, string>;
+    messages: Table<MessageDB, string>;
+    artifacts: Table<ArtifactDB, number>;
+    ingestionJobs: Table<IngestionJob, string>;
+    ocrPages: Table<OcrPageDB, [string, number]>;
+    vectorIndexes: Table<VectorIndexDB, string>;
 };
 
 db.version(1).stores({
@@ -30,6 +65,70 @@ db.version(2).stores({
     vectorChunks: 'id, sourceId'
 });
 
+// Add messages table in version 3 for per-notebook chat history
+db.version(3).stores({
+    notebooks: '++id, title',
+    sources: 'id, notebookId',
+    vectorChunks: 'id, sourceId',
+    messages: 'id, notebookId, createdAt'
+});
+
+// Add artifacts table in version 4 for Studio notes and generated outputs
+db.version(4).stores({
+    notebooks: '++id, title',
+    sources: 'id, notebookId',
+    vectorChunks: 'id, sourceId',
+    messages: 'id, notebookId, createdAt',
+    artifacts: '++id, notebookId, updatedAt'
+});
+
+// Add ingestionJobs table in version 5 so interrupted indexing resumes after a reload
+db.version(5).stores({
+    notebooks: '++id, title',
+    sources: 'id, notebookId',
+    vectorChunks: 'id, sourceId',
+    messages: 'id, notebookId, createdAt',
+    artifacts: '++id, notebookId, updatedAt',
+    ingestionJobs: 'sourceId, notebookId'
+});
+
+// Add ocrPages table in version 6 for word boxes of scanned pages and images
+db.version(6).stores({
+    notebooks: '++id, title',
+    sources: 'id, notebookId',
+    vectorChunks: 'id, sourceId',
+    messages: 'id, notebookId, createdAt',
+    artifacts: '++id, notebookId, updatedAt',
+    ingestionJobs: 'sourceId, notebookId',
+    ocrPages: '[sourceId+pageNumber], sourceId'
+});
+
+// Record the embedding model on every chunk in version 7; older chunks all came from the local MiniLM model
+db.version(7).stores({
+    notebooks: '++id, title',
+    sources: 'id, notebookId',
+    vectorChunks: 'id, sourceId',
+    messages: 'id, notebookId, createdAt',
+    artifacts: '++id, notebookId, updatedAt',
+    ingestionJobs: 'sourceId, notebookId',
+    ocrPages: '[sourceId+pageNumber], sourceId'
+}).upgrade(tx => tx.table('vectorChunks').toCollection().modify((chunk: DocumentChunk) => {
+    chunk.embeddingModel ??= 'local:Xenova/all-MiniLM-L6-v2';
+    chunk.embeddingDimension ??= chunk.embedding?.length ?? 0;
+}));
+
+// Add vectorIndexes table in version 8 for the vector store's nearest-neighbour graphs
+db.version(8).stores({
+    notebooks: '++id, title',
+    sources: 'id, notebookId',
+    vectorChunks: 'id, sourceId',
+    messages: 'id, notebookId, createdAt',
+    artifacts: '++id, notebookId, updatedAt',
+    ingestionJobs: 'sourceId, notebookId',
+    ocrPages: '[sourceId+pageNumber], sourceId',
+    vectorIndexes: 'embeddingModel'
+});
+
 
 // --- Notebook Operations ---
 
@@ -45,12 +144,27 @@ export const updateNotebookTitle = async (id: number, title: string): Promise<nu
     return db.notebooks.update(id, { title });
 };
 
-export const deleteNotebook = async (id: number): Promise<void> => {
+export const updateNotebookSettings = async (
+    id: number,
+    settings: Pick<Notebook, 'chatConfig' | 'outputLanguage' | 'chunking' | 'embedding'>
+): Promise<number> => {
+    return db.notebooks.update(id, settings);
+};
+
+export const deleteNotebook = async (id: number): Promise<string[]> => {
     // FIX: Use table names as strings in transactions for robustness with this DB setup pattern.
-    // Transaction to delete notebook and all its sources
-    return db.transaction('rw', 'notebooks', 'sources', async () => {
+    // Transaction to delete notebook with its sources, vector chunks, OCR pages, chat history, Studio artifacts and ingestion jobs.
+    // Resolves with the deleted source IDs so callers can evict them from the in-memory vector store.
+    return db.transaction('rw', ['notebooks', 'sources', 'vectorChunks', 'ocrPages', 'messages', 'artifacts', 'ingestionJobs'], async () => {
+        const sourceIds = (await db.sources.where('notebookId').equals(id).primaryKeys()) as string[];
+        await db.vectorChunks.where('sourceId').anyOf(sourceIds).delete();
+        await db.ocrPages.where('sourceId').anyOf(sourceIds).delete();
         await db.sources.where('notebookId').equals(id).delete();
+        await db.messages.where('notebookId').equals(id).delete();
+        await db.artifacts.where('notebookId').equals(id).delete();
+        await db.ingestionJobs.where('notebookId').equals(id).delete();
         await db.notebooks.delete(id);
+        return sourceIds;
     });
 };
 
@@ -80,7 +194,115 @@ export const updateSourceStatus = async (id: string, status: SourceStatus): Prom
     return db.sources.update(id, { status });
 }
 
+export const updateSource = async (id: string, changes: Partial<Pick<Source, 'name' | 'status' | 'textContent' | 'metadata'>>): Promise<number> => {
+    return db.sources.update(id, changes);
+}
+
+export const getSource = async (id: string): Promise<SourceDB | undefined> => {
+    return db.sources.get(id);
+}
+
 
 export const deleteSource = async (id: string): Promise<void> => {
-    return db.sources.delete(id);
-};
\ No newline at end of file
+    // Transaction to delete a source together with its vector chunks, OCR pages and ingestion job
+    return db.transaction('rw', 'sources', 'vectorChunks', 'ocrPages', 'ingestionJobs', async () => {
+        await db.vectorChunks.where('sourceId').equals(id).delete();
+        await db.ocrPages.where('sourceId').equals(id).delete();
+        await db.ingestionJobs.delete(id);
+        await db.sources.delete(id);
+    });
+};
+
+
+// --- OCR Operations ---
+
+export const getOcrPages = async (sourceId: string): Promise<OcrPage[]> => {
+    const pages = await db.ocrPages.where('sourceId').equals(sourceId).sortBy('pageNumber');
+    return pages.map(({ sourceId: _sourceId, ...page }) => page);
+};
+
+export const replaceOcrPages = async (sourceId: string, pages: OcrPage[]): Promise<void> => {
+    return db.transaction('rw', 'ocrPages', async () => {
+        await db.ocrPages.where('sourceId').equals(sourceId).delete();
+        await db.ocrPages.bulkPut(pages.map(page => ({ ...page, sourceId })));
+    });
+};
+
+
+// --- Integrity ---
+
+/**
+ * Startup integrity pass. Removes vector chunks, OCR pages and ingestion jobs whose
+ * source no longer exists and marks sources left in INDEXING without an ingestion
+ * job to resume as FAILED. Run before the vector store loads so orphaned
+ * embeddings never reach memory.
+ */
+export const runIntegrityCheck = async (): Promise<{ orphanedChunks: number; resetSources: number }> => {
+    return db.transaction('rw', 'sources', 'vectorChunks', 'ocrPages', 'ingestionJobs', async () => {
+        const chunkSourceIds = (await db.vectorChunks.orderBy('sourceId').uniqueKeys()) as string[];
+        const existingSourceIds = new Set((await db.sources.toCollection().primaryKeys()) as string[]);
+        const orphanedSourceIds = chunkSourceIds.filter(sourceId => !existingSourceIds.has(sourceId));
+
+        const orphanedChunks = orphanedSourceIds.length > 0
+            ? await db.vectorChunks.where('sourceId').anyOf(orphanedSourceIds).delete()
+            : 0;
+
+        const ocrSourceIds = (await db.ocrPages.orderBy('sourceId').uniqueKeys()) as string[];
+        const orphanedOcrSourceIds = ocrSourceIds.filter(sourceId => !existingSourceIds.has(sourceId));
+        if (orphanedOcrSourceIds.length > 0) {
+            await db.ocrPages.where('sourceId').anyOf(orphanedOcrSourceIds).delete();
+        }
+
+        const jobSourceIds = (await db.ingestionJobs.toCollection().primaryKeys()) as string[];
+        const orphanedJobIds = jobSourceIds.filter(sourceId => !existingSourceIds.has(sourceId));
+        if (orphanedJobIds.length > 0) {
+            await db.ingestionJobs.bulkDelete(orphanedJobIds);
+        }
+
+        const resumableSourceIds = new Set(jobSourceIds);
+        const resetSources = await db.sources
+            .filter(source => source.status === SourceStatus.INDEXING && !resumableSourceIds.has(source.id))
+            .modify({ status: SourceStatus.FAILED });
+
+        return { orphanedChunks, resetSources };
+    });
+};
+
+
+// --- Message Operations ---
+
+export const getMessagesByNotebookId = async (notebookId: number): Promise<Message[]> => {
+    const messagesFromDB = await db.messages.where('notebookId').equals(notebookId).sortBy('createdAt');
+    return messagesFromDB.map(({ notebookId: _notebookId, ...message }) => message as Message);
+};
+
+export const addMessage = async (notebookId: number, message: Message): Promise<string> => {
+    const messageForDB: MessageDB = {
+        ...message,
+        notebookId,
+        createdAt: message.createdAt ?? Date.now(),
+        sources: toSourceSnapshots(message.sources),
+    };
+    return db.messages.put(messageForDB);
+};
+
+export const deleteMessagesByNotebookId = async (notebookId: number): Promise<number> => {
+    return db.messages.where('notebookId').equals(notebookId).delete();
+};
+
+
+// --- Artifact Operations ---
+
+export const getArtifactsByNotebookId = async (notebookId: number): Promise<Artifact[]> => {
+    const artifactsFromDB = await db.artifacts.where('notebookId').equals(notebookId).reverse().sortBy('updatedAt');
+    return artifactsFromDB as Artifact[];
+};
+
+export const addArtifact = async (artifact: Omit<Artifact, 'id'>): Promise<number> => {
+    const artifactForDB = { ...artifact, sources: toSourceSnapshots(artifact.sources) };
+    return db.artifacts.add(artifactForDB as ArtifactDB);
+};
+
+export const deleteArtifact = async (id: number): Promise<void> => {
+    return db.artifacts.delete(id);
+};
@@ -0,0 +1,88 @@
+import { Source } from '../types';
+import { parseYouTubeVideoId } from './youtubeService';
+
+/**
+ * Deduplication Service
+ *
+ * Fingerprints sources with a SHA-256 hash of their content so the same file,
+ * pasted text or link isn't indexed twice in a notebook. Files are hashed by
+ * their bytes, pasted text after collapsing whitespace, and links by their
+ * normalized URL (the page itself is only fetched while indexing).
+ */
+
+export type DuplicateAction = 'skip' | 'replace';
+
+export interface DuplicateSource {
+    source: Source; // The source being added
+    existing: Source; // Already in the notebook, or earlier in the same batch
+    sameBatch: boolean; // Whether existing is being added too
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of bytes or text, as hex
+ */
+export async function hashContent(data: ArrayBuffer | string): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * A link's identity: the video id for YouTube, otherwise the URL without its
+ * fragment and trailing slash
+ */
+function normalizeUrl(url: string): string {
+    const videoId = parseYouTubeVideoId(url);
+    if (videoId) return `youtube:${videoId}`;
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = '';
+        return parsed.toString().replace(/\/$/, '');
+    } catch (error) {
+        return url.trim();
+    }
+}
+
+/**
+ * Content hash of a source, or undefined when it has no content to compare
+ * (e.g. a file that failed to load)
+ */
+export async function computeSourceHash(source: Source): Promise<string | undefined> {
+    if (source.content instanceof File) return hashContent(await source.content.arrayBuffer());
+    if (source.content instanceof ArrayBuffer) return hashContent(source.content);
+    if (source.base64Content) {
+        return hashContent(Uint8Array.from(atob(source.base64Content), c => c.charCodeAt(0)).buffer);
+    }
+    if (source.type === 'website' || source.type === 'youtube') {
+        const url = source.metadata?.url || source.textContent;
+        return url ? hashContent(normalizeUrl(url)) : undefined;
+    }
+    if (source.type === 'text' && source.textContent?.trim()) {
+        return hashContent(source.textContent.replace(/\s+/g, ' ').trim());
+    }
+    return undefined;
+}
+
+/**
+ * Sources being added whose content matches a source already in the notebook,
+ * or one earlier in the same batch. Sources added before content hashing are
+ * hashed on the fly.
+ */
+export async function findDuplicateSources(incoming: Source[], existing: Source[]): Promise<DuplicateSource[]> {
+    const known = new Map<string, { source: Source; sameBatch: boolean }>();
+    for (const source of existing) {
+        const hash = source.contentHash ?? await computeSourceHash(source);
+        if (hash && !known.has(hash)) known.set(hash, { source, sameBatch: false });
+    }
+
+    const duplicates: DuplicateSource[] = [];
+    for (const source of incoming) {
+        if (!source.contentHash) continue;
+        const match = known.get(source.contentHash);
+        if (match) duplicates.push({ source, existing: match.source, sameBatch: match.sameBatch });
+        else known.set(source.contentHash, { source, sameBatch: true });
+    }
+    return duplicates;
+}
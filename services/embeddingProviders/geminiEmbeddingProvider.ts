@@ -0,0 +1,60 @@
+import { GoogleGenAI } from '@google/genai';
+import { DEFAULT_MIN_SCORE, EmbeddingProvider, estimateTokens, toModelKey } from './types';
+
+/**
+ * Google Gemini embeddings provider
+ *
+ * Passages and queries are embedded with their retrieval task types, which
+ * Gemini embedding models are trained to tell apart.
+ */
+
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+
+const BATCH_SIZE = 100; // Most texts batchEmbedContents accepts per call
+
+export function createGeminiEmbeddingProvider(apiKey: string, model: string = GEMINI_EMBEDDING_MODEL): EmbeddingProvider {
+    let client: GoogleGenAI | null = null;
+
+    // Constructed lazily so a missing key only fails when Gemini is actually used
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new Error('Gemini API key is not configured. Add it in Settings.');
+        }
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    const embed = async (texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'): Promise<number[][]> => {
+        const response = await getClient().models.embedContent({ model, contents: texts, config: { taskType } });
+        const embeddings = (response.embeddings || []).map(embedding => embedding.values || []);
+        if (embeddings.length !== texts.length || embeddings.some(values => values.length === 0)) {
+            throw new Error(`Gemini returned ${embeddings.length} embeddings for ${texts.length} passages.`);
+        }
+        return embeddings;
+    };
+
+    const embedDocuments = async (
+        texts: string[],
+        onProgress?: (completed: number, total: number) => void
+    ): Promise<number[][]> => {
+        const embeddings: number[][] = [];
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            embeddings.push(...await embed(texts.slice(i, i + BATCH_SIZE), 'RETRIEVAL_DOCUMENT'));
+            onProgress?.(embeddings.length, texts.length);
+        }
+        return embeddings;
+    };
+
+    return {
+        id: 'gemini',
+        name: 'Google Gemini',
+        model,
+        modelKey: toModelKey('gemini', model),
+        minScore: DEFAULT_MIN_SCORE,
+        getTokenCounter: async () => estimateTokens,
+        embedDocuments,
+        embedQuery: async text => (await embed([text], 'RETRIEVAL_QUERY'))[0],
+    };
+}
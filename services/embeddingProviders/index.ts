@@ -0,0 +1,107 @@
+import { EmbeddingConfig, EmbeddingProviderId, SourceLanguage } from '../../types';
+import { EmbeddingProvider, EmbeddingProviderConfig, toModelKey } from './types';
+import { createLocalEmbeddingProvider, getLocalModelForLanguage, LOCAL_EMBEDDING_MODEL_ID, MULTILINGUAL_EMBEDDING_MODEL_ID } from './localEmbeddingProvider';
+import { createOpenAICompatibleEmbeddingProvider } from './openAICompatibleEmbeddingProvider';
+import { createGeminiEmbeddingProvider, GEMINI_EMBEDDING_MODEL } from './geminiEmbeddingProvider';
+
+export type { EmbeddingProvider, EmbeddingProviderConfig } from './types';
+export { toModelKey } from './types';
+export { getLocalModelForLanguage, getLocalModelAvailability, loadLocalModel, subscribeToModelLoading } from './localEmbeddingProvider';
+export type { ModelAvailability, ModelLoadProgress } from './localEmbeddingProvider';
+
+/**
+ * Embedding providers
+ *
+ * Notebooks pick a provider and model through Notebook.embedding. Nothing here
+ * reads saved settings, so the ingestion workers can build providers too; keys
+ * and base URLs are filled in on the main thread (see ../providers).
+ */
+
+export interface EmbeddingProviderOption {
+    id: EmbeddingProviderId;
+    name: string;
+    description: string;
+    defaultModel: string;
+    suggestedModels: string[];
+}
+
+export const EMBEDDING_PROVIDER_OPTIONS: EmbeddingProviderOption[] = [
+    {
+        id: 'local',
+        name: 'Local',
+        description: 'Runs in your browser. Sources never leave your device.',
+        defaultModel: LOCAL_EMBEDDING_MODEL_ID,
+        suggestedModels: [LOCAL_EMBEDDING_MODEL_ID, MULTILINGUAL_EMBEDDING_MODEL_ID],
+    },
+    {
+        id: 'openrouter',
+        name: 'OpenRouter',
+        description: 'Hosted embedding models through your OpenRouter key.',
+        defaultModel: 'openai/text-embedding-3-small',
+        suggestedModels: ['openai/text-embedding-3-small', 'openai/text-embedding-3-large'],
+    },
+    {
+        id: 'openai-compatible',
+        name: 'OpenAI-compatible',
+        description: 'The /embeddings endpoint of Ollama, LM Studio or vLLM.',
+        defaultModel: 'nomic-embed-text',
+        suggestedModels: ['nomic-embed-text', 'mxbai-embed-large', 'bge-m3'],
+    },
+    {
+        id: 'gemini',
+        name: 'Google Gemini',
+        description: 'Gemini embeddings through your Gemini key.',
+        defaultModel: GEMINI_EMBEDDING_MODEL,
+        suggestedModels: [GEMINI_EMBEDDING_MODEL],
+    },
+];
+
+export const SOURCE_LANGUAGE_OPTIONS: { id: SourceLanguage; name: string }[] = [
+    { id: 'english', name: 'English' },
+    { id: 'indonesian', name: 'Indonesian' },
+    { id: 'mixed', name: 'Mixed' },
+];
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = { provider: 'local' };
+
+/**
+ * The model a notebook embeds with, falling back to its provider's default.
+ * Local notebooks default to the model for their sources' language.
+ */
+export function getEmbeddingModel(config: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG): string {
+    const option = EMBEDDING_PROVIDER_OPTIONS.find(opt => opt.id === config.provider);
+    if (!option) throw new Error(`Unknown embedding provider: ${config.provider}`);
+    const model = config.model?.trim();
+    if (model) return model;
+    return config.provider === 'local' ? getLocalModelForLanguage(config.language) : option.defaultModel;
+}
+
+/**
+ * The model key chunks get when embedded with a notebook's config
+ */
+export const getEmbeddingModelKey = (config: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG): string =>
+    toModelKey(config.provider, getEmbeddingModel(config));
+
+/**
+ * Build a provider from a resolved config
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+    switch (config.provider) {
+        case 'local':
+            return createLocalEmbeddingProvider(config.model);
+        case 'openrouter':
+        case 'openai-compatible':
+            return createOpenAICompatibleEmbeddingProvider({
+                id: config.provider,
+                name: config.provider === 'openrouter' ? 'OpenRouter' : 'OpenAI-compatible endpoint',
+                baseUrl: config.baseUrl || '',
+                apiKey: config.apiKey,
+                requiresApiKey: config.provider === 'openrouter',
+                model: config.model,
+            });
+        case 'gemini':
+            return createGeminiEmbeddingProvider(config.apiKey || '', config.model);
+        default:
+            throw new Error(`Unknown embedding provider: ${config.provider}`);
+    }
+}
@@ -0,0 +1,195 @@
+import { pipeline, env } from '@xenova/transformers';
+import { SourceLanguage } from '../../types';
+import { DEFAULT_MIN_SCORE, EmbeddingProvider, toModelKey } from './types';
+
+/**
+ * Local embedding provider
+ *
+ * Runs sentence-transformer models in the browser with Transformers.js. Models
+ * are downloaded once and kept in the browser cache; each thread (the main
+ * thread for queries, every ingestion worker for sources) loads its own copy.
+ *
+ * The app serves the bundled models and the ONNX runtime under /models/ and
+ * the service worker precaches them (see vite.config.ts), so they load without
+ * a connection. Models the app doesn't bundle come from the Hugging Face hub.
+ *
+ * all-MiniLM-L6-v2 only understands English. Notebooks whose sources are in
+ * Indonesian or several languages use multilingual-e5-small instead.
+ */
+
+export const LOCAL_MODEL_PATH = '/models/';
+const ONNX_RUNTIME_PATH = `${LOCAL_MODEL_PATH}onnxruntime/`;
+
+// Look for models on the app's own server before the hub
+env.allowLocalModels = true;
+env.localModelPath = LOCAL_MODEL_PATH;
+env.useBrowserCache = true;
+// Single-threaded, so the runtime never asks for the threaded builds the app doesn't serve
+env.backends.onnx.wasm.wasmPaths = ONNX_RUNTIME_PATH;
+env.backends.onnx.wasm.numThreads = 1;
+
+// What Transformers.js reads for a quantized feature-extraction model; keep in sync with scripts/download-models.js
+const MODEL_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+// The runtime picks one of these depending on SIMD support
+const ONNX_RUNTIME_FILES = ['ort-wasm.wasm', 'ort-wasm-simd.wasm'];
+
+export const LOCAL_EMBEDDING_MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
+export const MULTILINGUAL_EMBEDDING_MODEL_ID = 'Xenova/multilingual-e5-small';
+
+// E5 models are trained with these markers and retrieve poorly without them
+const E5_QUERY_PREFIX = 'query: ';
+const E5_PASSAGE_PREFIX = 'passage: ';
+// E5 similarities bunch up between 0.7 and 1, so unrelated passages still score above 0.3
+const E5_MIN_SCORE = 0.7;
+
+const BATCH_SIZE = 10;
+
+export interface ModelLoadProgress {
+    model: string;
+    status: 'loading' | 'ready' | 'failed';
+    loaded: number; // Bytes read so far, across the model's files
+    total: number;  // Grows as each file starts downloading
+}
+
+type ModelLoadListener = (progress: ModelLoadProgress) => void;
+
+/**
+ * Whether a local model can load without a connection:
+ * - offline: the model and the runtime are in the browser's caches
+ * - bundled: served by the app, cached once loaded or once the app is installed
+ * - remote: downloaded from the Hugging Face hub on first use
+ */
+export type ModelAvailability = 'offline' | 'bundled' | 'remote';
+
+// The parts of a Transformers.js feature-extraction pipeline this provider uses
+interface FeatureExtractionPipeline {
+    (text: string, options: { pooling: 'mean'; normalize: boolean }): Promise<{ data: ArrayLike<number | bigint> }>;
+    tokenizer: {
+        encode(text: string, pair: null, options: { add_special_tokens: boolean }): number[];
+    };
+}
+
+// One feature-extraction pipeline per model
+const pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+const loadListeners = new Set<ModelLoadListener>();
+
+/**
+ * Follow model downloads and warm-ups in this thread. Returns an unsubscribe function.
+ */
+export function subscribeToModelLoading(listener: ModelLoadListener): () => void {
+    loadListeners.add(listener);
+    return () => {
+        loadListeners.delete(listener);
+    };
+}
+
+const notifyLoading = (progress: ModelLoadProgress) => loadListeners.forEach(listener => listener(progress));
+
+/**
+ * Initialize an embedding model (loads lazily on first use)
+ */
+function getPipeline(model: string): Promise<FeatureExtractionPipeline> {
+    let modelPipeline = pipelines.get(model);
+    if (!modelPipeline) {
+        const files = new Map<string, { loaded: number; total: number }>();
+        const onProgress = (event: { status: string; file: string; loaded?: number; total?: number }) => {
+            if (event.status !== 'progress') return;
+            files.set(event.file, { loaded: event.loaded ?? 0, total: event.total ?? 0 });
+            let loaded = 0, total = 0;
+            files.forEach(file => {
+                loaded += file.loaded;
+                total += file.total;
+            });
+            notifyLoading({ model, status: 'loading', loaded, total });
+        };
+
+        notifyLoading({ model, status: 'loading', loaded: 0, total: 0 });
+        modelPipeline = pipeline('feature-extraction', model, { progress_callback: onProgress }).then(loaded => {
+            notifyLoading({ model, status: 'ready', loaded: 0, total: 0 });
+            return loaded;
+        }).catch(error => {
+            // Let the next call try again, e.g. after a failed download
+            pipelines.delete(model);
+            notifyLoading({ model, status: 'failed', loaded: 0, total: 0 });
+            throw error;
+        });
+        pipelines.set(model, modelPipeline);
+    }
+    return modelPipeline;
+}
+
+/**
+ * Download and load a model ahead of its first use, e.g. to have it offline
+ */
+export async function loadLocalModel(model: string): Promise<void> {
+    await getPipeline(model);
+}
+
+/**
+ * Check whether a local model would load without a connection
+ */
+export async function getLocalModelAvailability(model: string): Promise<ModelAvailability> {
+    if (typeof caches !== 'undefined') {
+        // Precached entries carry a revision parameter, hence ignoreSearch
+        const isCached = async (url: string) => !!(await caches.match(url, { ignoreSearch: true }));
+        const isModelFileCached = async (file: string) =>
+            await isCached(`${LOCAL_MODEL_PATH}${model}/${file}`) || await isCached(`${env.remoteHost}${model}/resolve/main/${file}`);
+
+        const modelCached = (await Promise.all(MODEL_FILES.map(isModelFileCached))).every(Boolean);
+        const runtimeCached = (await Promise.all(ONNX_RUNTIME_FILES.map(file => isCached(ONNX_RUNTIME_PATH + file)))).some(Boolean);
+        if (modelCached && runtimeCached) return 'offline';
+    }
+
+    const response = await fetch(`${LOCAL_MODEL_PATH}${model}/config.json`, { method: 'HEAD' }).catch(() => null);
+    return response?.ok ? 'bundled' : 'remote';
+}
+
+const isE5Model = (model: string): boolean => /(^|[/-])e5-/i.test(model);
+
+/**
+ * The local model for sources in the given language
+ */
+export const getLocalModelForLanguage = (language: SourceLanguage = 'english'): string =>
+    language === 'english' ? LOCAL_EMBEDDING_MODEL_ID : MULTILINGUAL_EMBEDDING_MODEL_ID;
+
+export function createLocalEmbeddingProvider(model: string = LOCAL_EMBEDDING_MODEL_ID): EmbeddingProvider {
+    const e5 = isE5Model(model);
+    const queryPrefix = e5 ? E5_QUERY_PREFIX : '';
+    const passagePrefix = e5 ? E5_PASSAGE_PREFIX : '';
+
+    const embed = async (pipe: FeatureExtractionPipeline, text: string): Promise<number[]> => {
+        const result = await pipe(text, { pooling: 'mean', normalize: true });
+        return Array.from(result.data, Number);
+    };
+
+    const embedDocuments = async (
+        texts: string[],
+        onProgress?: (completed: number, total: number) => void
+    ): Promise<number[][]> => {
+        const pipe = await getPipeline(model);
+        const embeddings: number[][] = [];
+
+        // Process in batches to avoid memory issues
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            const batch = texts.slice(i, i + BATCH_SIZE);
+            embeddings.push(...await Promise.all(batch.map(text => embed(pipe, passagePrefix + text))));
+            onProgress?.(embeddings.length, texts.length);
+        }
+        return embeddings;
+    };
+
+    return {
+        id: 'local',
+        name: 'Local',
+        model,
+        modelKey: toModelKey('local', model),
+        minScore: e5 ? E5_MIN_SCORE : DEFAULT_MIN_SCORE,
+        // Counts the passage alone; E5 reads 512 tokens, so the prefix always fits beside MAX_CHUNK_SIZE
+        getTokenCounter: async () => {
+            const pipe = await getPipeline(model);
+            return (text: string) => pipe.tokenizer.encode(text, null, { add_special_tokens: false }).length;
+        },
+        embedDocuments,
+        embedQuery: async text => embed(await getPipeline(model), queryPrefix + text),
+    };
+}
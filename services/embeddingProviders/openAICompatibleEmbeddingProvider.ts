@@ -0,0 +1,88 @@
+import { EmbeddingProviderId } from '../../types';
+import { DEFAULT_MIN_SCORE, EmbeddingProvider, estimateTokens, toModelKey } from './types';
+
+/**
+ * OpenAI-compatible embeddings provider
+ *
+ * Speaks the /embeddings protocol shared by OpenRouter and local servers such
+ * as Ollama, LM Studio and vLLM. Passages are sent in batches.
+ */
+
+export interface OpenAICompatibleEmbeddingConfig {
+    id: EmbeddingProviderId;
+    name: string;
+    baseUrl: string;
+    apiKey?: string;
+    requiresApiKey: boolean;
+    model: string;
+}
+
+interface EmbeddingResponse {
+    data: Array<{
+        embedding: number[];
+        index: number;
+    }>;
+}
+
+const BATCH_SIZE = 64;
+
+export function createOpenAICompatibleEmbeddingProvider(config: OpenAICompatibleEmbeddingConfig): EmbeddingProvider {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    /**
+     * Embed one batch and surface API errors
+     */
+    const embedBatch = async (texts: string[]): Promise<number[][]> => {
+        if (config.requiresApiKey && !config.apiKey) {
+            throw new Error(`${config.name} API key is not configured. Add it in Settings.`);
+        }
+
+        const response = await fetch(`${baseUrl}/embeddings`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model: config.model, input: texts }),
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(
+                `${config.name} embeddings error: ${response.status} ${response.statusText}. ${
+                    errorData.error?.message || ''
+                }`
+            );
+        }
+
+        const data: EmbeddingResponse = await response.json();
+        if (!data.data || data.data.length !== texts.length) {
+            throw new Error(`${config.name} returned ${data.data?.length ?? 0} embeddings for ${texts.length} passages.`);
+        }
+        // Entries carry their input index and aren't guaranteed to be in order
+        return [...data.data].sort((a, b) => a.index - b.index).map(entry => entry.embedding);
+    };
+
+    const embedDocuments = async (
+        texts: string[],
+        onProgress?: (completed: number, total: number) => void
+    ): Promise<number[][]> => {
+        const embeddings: number[][] = [];
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            embeddings.push(...await embedBatch(texts.slice(i, i + BATCH_SIZE)));
+            onProgress?.(embeddings.length, texts.length);
+        }
+        return embeddings;
+    };
+
+    return {
+        id: config.id,
+        name: config.name,
+        model: config.model,
+        modelKey: toModelKey(config.id, config.model),
+        minScore: DEFAULT_MIN_SCORE,
+        getTokenCounter: async () => estimateTokens,
+        embedDocuments,
+        embedQuery: async text => (await embedBatch([text]))[0],
+    };
+}
@@ -0,0 +1,42 @@
+import { EmbeddingProviderId } from '../../types';
+import type { TokenCounter } from '../chunkingService';
+
+/**
+ * Shared contract for embedding providers. Sources are embedded in the
+ * ingestion workers and queries on the main thread, so providers are built
+ * from a plain config (see resolveEmbeddingProviderConfig) rather than from
+ * saved settings.
+ */
+
+export interface EmbeddingProviderConfig {
+    provider: EmbeddingProviderId;
+    model: string;
+    apiKey?: string;
+    baseUrl?: string; // OpenAI-compatible endpoints only
+}
+
+export interface EmbeddingProvider {
+    id: EmbeddingProviderId;
+    name: string;
+    model: string;
+    /** Recorded on every chunk; vectors are only ever compared under the same key */
+    modelKey: string;
+    /** Similarity below which a passage counts as unrelated; models score on different scales */
+    minScore: number;
+    /** Count tokens as the model sees them; estimated for remote models */
+    getTokenCounter(): Promise<TokenCounter>;
+    /** Embed passages in batches, reporting how many are done */
+    embedDocuments(texts: string[], onProgress?: (completed: number, total: number) => void): Promise<number[][]>;
+    embedQuery(text: string): Promise<number[]>;
+}
+
+/**
+ * Identifies the vector space of a provider and model, e.g. "local:Xenova/all-MiniLM-L6-v2"
+ */
+export const toModelKey = (provider: EmbeddingProviderId, model: string): string => `${provider}:${model}`;
+
+// Remote models don't expose their tokenizers; about four characters per token is close for English
+export const estimateTokens: TokenCounter = text => Math.ceil(text.length / 4);
+
+// Cosine similarity that separates related passages for most models
+export const DEFAULT_MIN_SCORE = 0.3;
@@ -1,8 +1,13 @@
-import { pipeline, env } from '@xenova/transformers';
+import type { EmbeddingProvider } from './embeddingProviders';
 
-// Configure to use local models (runs in browser)
-env.allowLocalModels = false;
-env.useBrowserCache = true;
+/**
+ * Embedding Service
+ *
+ * Chunk records and the helpers shared by indexing and search. Which model
+ * produces the vectors is up to the notebook's embedding provider (see
+ * ./embeddingProviders); every chunk records it, since vectors from different
+ * models can't be compared.
+ */
 
 export interface DocumentChunk {
     id: string;
@@ -10,188 +15,58 @@ export interface DocumentChunk {
     sourceName: string;
     content: string;
     embedding?: number[];
-    metadata?: {
-        pageNumber?: number;
-        chunkIndex: number;
-        totalChunks: number;
-    };
+    embeddingModel: string; // Model key of the provider that produced the embedding
+    embeddingDimension: number;
+    metadata?: ChunkMetadata;
 }
 
-// Singleton for the embedding pipeline
-let embeddingPipeline: any = null;
-
-/**
- * Initialize the embedding model (loads lazily on first use)
- */
-async function getEmbeddingPipeline() {
-    if (!embeddingPipeline) {
-        console.log('Loading embedding model...');
-        embeddingPipeline = await pipeline(
-            'feature-extraction',
-            'Xenova/all-MiniLM-L6-v2'
-        );
-        console.log('Embedding model loaded successfully');
-    }
-    return embeddingPipeline;
+export interface ChunkMetadata {
+    pageNumber?: number;
+    startTime?: number; // Seconds into the media, for transcript chunks
+    endTime?: number;
+    sectionNumber?: number; // Document section, split at headings
+    slideNumber?: number;
+    sectionTitle?: string;
+    headingPath?: string[]; // Markdown headings the chunk sits under, outermost first
+    chapterNumber?: number; // Book chapter, in spine order
+    chapterTitle?: string;
+    sheetName?: string; // Table sheet and 1-based data rows of a row group
+    rowStart?: number;
+    rowEnd?: number;
+    chunkIndex: number;
+    totalChunks: number;
 }
 
-/**
- * Smart text chunking with overlap for better context preservation
- */
-export function chunkText(
-    text: string,
-    options: {
-        maxChunkSize?: number;
-        overlap?: number;
-        minChunkSize?: number;
-    } = {}
-): string[] {
-    const {
-        maxChunkSize = 512,
-        overlap = 50,
-        minChunkSize = 100
-    } = options;
-
-    // Clean and normalize text
-    const cleanText = text
-        .replace(/\s+/g, ' ')
-        .replace(/\n+/g, '\n')
-        .trim();
-
-    if (cleanText.length <= maxChunkSize) {
-        return [cleanText];
-    }
-
-    const chunks: string[] = [];
-    
-    // Try to split by paragraphs first
-    const paragraphs = cleanText.split(/\n\s*\n/);
-    let currentChunk = '';
-
-    for (const paragraph of paragraphs) {
-        const trimmedParagraph = paragraph.trim();
-        
-        if (!trimmedParagraph) continue;
-
-        // If adding this paragraph would exceed max size
-        if ((currentChunk + ' ' + trimmedParagraph).length > maxChunkSize) {
-            if (currentChunk.length >= minChunkSize) {
-                chunks.push(currentChunk.trim());
-                // Start new chunk with overlap from previous chunk
-                const words = currentChunk.split(' ');
-                currentChunk = words.slice(-overlap).join(' ') + ' ' + trimmedParagraph;
-            } else {
-                // Current chunk too small, just add paragraph
-                currentChunk += ' ' + trimmedParagraph;
-            }
-
-            // If paragraph itself is too long, split it further
-            if (trimmedParagraph.length > maxChunkSize) {
-                const sentences = trimmedParagraph.split(/[.!?]+\s+/);
-                currentChunk = '';
-                
-                for (const sentence of sentences) {
-                    if ((currentChunk + ' ' + sentence).length > maxChunkSize) {
-                        if (currentChunk.length >= minChunkSize) {
-                            chunks.push(currentChunk.trim());
-                            const words = currentChunk.split(' ');
-                            currentChunk = words.slice(-overlap).join(' ') + ' ' + sentence;
-                        } else {
-                            currentChunk += ' ' + sentence;
-                        }
-                    } else {
-                        currentChunk += ' ' + sentence;
-                    }
-                }
-            }
-        } else {
-            currentChunk += ' ' + trimmedParagraph;
-        }
-    }
-
-    // Add the last chunk if it meets minimum size
-    if (currentChunk.trim().length >= minChunkSize) {
-        chunks.push(currentChunk.trim());
-    }
-
-    return chunks.filter(chunk => chunk.length > 0);
-}
-
-/**
- * Generate embedding for a single text
- */
-export async function generateEmbedding(text: string): Promise<number[]> {
-    try {
-        const pipe = await getEmbeddingPipeline();
-        const result = await pipe(text, {
-            pooling: 'mean',
-            normalize: true
-        });
-        
-        // Convert to regular array
-        return Array.from(result.data);
-    } catch (error) {
-        console.error('Error generating embedding:', error);
-        throw new Error('Failed to generate embedding');
-    }
-}
-
-/**
- * Generate embeddings for multiple texts in batch
- */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-    try {
-        const pipe = await getEmbeddingPipeline();
-        const embeddings: number[][] = [];
-        
-        // Process in batches to avoid memory issues
-        const batchSize = 10;
-        for (let i = 0; i < texts.length; i += batchSize) {
-            const batch = texts.slice(i, i + batchSize);
-            const batchResults = await Promise.all(
-                batch.map(text => pipe(text, {
-                    pooling: 'mean',
-                    normalize: true
-                }))
-            );
-            
-            embeddings.push(...batchResults.map(r => Array.from(r.data)));
-        }
-        
-        return embeddings;
-    } catch (error) {
-        console.error('Error generating embeddings:', error);
-        throw new Error('Failed to generate embeddings');
-    }
+// A chunk of text with its location, before embedding
+export interface TextChunk {
+    content: string;
+    metadata?: Omit<ChunkMetadata, 'chunkIndex' | 'totalChunks'>;
 }
 
 /**
- * Process a document into chunks with embeddings
+ * Embed chunks with a provider, keeping each chunk's location metadata
  */
-export async function processDocumentToChunks(
+export async function embedTextChunks(
+    provider: EmbeddingProvider,
     sourceId: string,
     sourceName: string,
-    content: string,
-    options?: {
-        maxChunkSize?: number;
-        overlap?: number;
-        minChunkSize?: number;
-    }
+    textChunks: TextChunk[],
+    onProgress?: (completed: number, total: number) => void
 ): Promise<DocumentChunk[]> {
-    // Split into chunks
-    const textChunks = chunkText(content, options);
-    
     // Generate embeddings for all chunks
-    const embeddings = await generateEmbeddings(textChunks);
+    const embeddings = await provider.embedDocuments(textChunks.map(chunk => chunk.content), onProgress);
     
     // Create document chunks with embeddings
-    const documentChunks: DocumentChunk[] = textChunks.map((text, index) => ({
+    const documentChunks: DocumentChunk[] = textChunks.map((chunk, index) => ({
         id: `${sourceId}-chunk-${index}`,
         sourceId,
         sourceName,
-        content: text,
+        content: chunk.content,
         embedding: embeddings[index],
+        embeddingModel: provider.modelKey,
+        embeddingDimension: embeddings[index].length,
         metadata: {
+            ...chunk.metadata,
             chunkIndex: index,
             totalChunks: textChunks.length
         }
@@ -0,0 +1,269 @@
+import { SourceMetadata } from '../types';
+import { openZip, resolveZipPath, ZipArchive } from './zipReader';
+import { parseXml, childElement, childElements, descendant, descendants, isElement, XmlElement, XmlNode } from './xmlParser';
+import { collapse, formatHeading, formatListItem, formatTable, DocumentSection, ParsedDocument } from './officeDocumentService';
+
+/**
+ * EPUB Service
+ *
+ * Parses EPUB 2 and 3 books in the browser. The OPF package lists the content
+ * documents in reading order (the spine); each one is converted from XHTML to
+ * clean text with the same heading, list and table formatting as office
+ * documents. Chapter titles come from the table of contents (the EPUB 3 nav
+ * document or the EPUB 2 NCX), falling back to the chapter's first heading.
+ * Runs in the ingestion workers.
+ */
+
+export const EPUB_MIME_TYPE = 'application/epub+zip';
+
+const HEADING_REGEX = /^h([1-6])$/;
+
+// Elements whose text isn't part of the reading content
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'nav', 'aside', 'svg', 'math', 'rt', 'rp']);
+
+// Elements that start a new block; anything else is treated as inline text
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+export const isEpubFile = (file: { name: string; type: string }): boolean =>
+    file.type === EPUB_MIME_TYPE || file.name.toLowerCase().endsWith('.epub');
+
+// EPUB 3 content documents may prefix XHTML elements, e.g. "html:p"
+const localName = (element: XmlElement): string => element.name.slice(element.name.indexOf(':') + 1).toLowerCase();
+
+const dirname = (path: string): string => path.slice(0, path.lastIndexOf('/') + 1);
+
+// Hrefs are URL-encoded and may point at a fragment inside the document
+const resolveHref = (baseDir: string, href: string): string =>
+    resolveZipPath(baseDir, decodeURIComponent(href.split('#')[0]));
+
+async function readXml(zip: ZipArchive, path: string): Promise<XmlElement | null> {
+    const text = await zip.readText(path);
+    return text ? parseXml(text) : null;
+}
+
+// --- Package (OPF) ---
+
+interface ManifestItem {
+    path: string;
+    mediaType: string;
+    properties: string[];
+}
+
+interface EpubPackage {
+    baseDir: string;
+    manifest: Map<string, ManifestItem>;
+    spine: string[]; // Archive paths in reading order
+    tocId?: string; // EPUB 2 NCX manifest id
+    metadata: SourceMetadata;
+}
+
+async function readPackage(zip: ZipArchive): Promise<EpubPackage> {
+    const container = await readXml(zip, 'META-INF/container.xml');
+    const rootfile = container && descendant(container, 'rootfile');
+    const opfPath = rootfile?.attributes['full-path'];
+    if (!opfPath) throw new Error('This .epub file has no package document.');
+
+    const opf = await readXml(zip, opfPath);
+    if (!opf) throw new Error(`The package document ${opfPath} is missing.`);
+    const baseDir = dirname(opfPath);
+
+    const manifest = new Map<string, ManifestItem>();
+    for (const item of descendants(opf, 'item').concat(descendants(opf, 'opf:item'))) {
+        const { id, href } = item.attributes;
+        if (!id || !href) continue;
+        manifest.set(id, {
+            path: resolveHref(baseDir, href),
+            mediaType: item.attributes['media-type'] || '',
+            properties: (item.attributes.properties || '').split(/\s+/),
+        });
+    }
+
+    const spineElement = descendant(opf, 'spine') || descendant(opf, 'opf:spine');
+    if (!spineElement) throw new Error('This .epub file has no reading order.');
+    const spine = childElements(spineElement)
+        .filter(itemref => localName(itemref) === 'itemref' && itemref.attributes.linear !== 'no')
+        .map(itemref => manifest.get(itemref.attributes.idref)?.path)
+        .filter((path): path is string => !!path);
+
+    const dc = (name: string) => {
+        const element = descendant(opf, `dc:${name}`);
+        return element ? collapse(inlineText(element)) || undefined : undefined;
+    };
+    const date = dc('date');
+    return {
+        baseDir,
+        manifest,
+        spine,
+        tocId: spineElement.attributes.toc,
+        metadata: {
+            title: dc('title'),
+            author: dc('creator'),
+            // Only keep dates the byline can format, e.g. "2019-04-02" or "2019"
+            publishedAt: date && !Number.isNaN(Date.parse(date)) ? date : undefined,
+        },
+    };
+}
+
+// --- Table of contents ---
+
+/**
+ * Map content documents to the first table-of-contents title that points at them
+ */
+async function readTableOfContents(zip: ZipArchive, pkg: EpubPackage): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    const add = (baseDir: string, href: string | undefined, title: string) => {
+        if (!href || !title) return;
+        const path = resolveHref(baseDir, href);
+        if (!titles.has(path)) titles.set(path, title);
+    };
+
+    const nav = Array.from(pkg.manifest.values()).find(item => item.properties.includes('nav'));
+    const navDocument = nav && await readXml(zip, nav.path);
+    if (navDocument) {
+        const navs = descendants(navDocument, 'nav');
+        const toc = navs.find(el => el.attributes['epub:type'] === 'toc') || navs[0];
+        for (const link of toc ? descendants(toc, 'a') : []) {
+            add(dirname(nav.path), link.attributes.href, collapse(inlineText(link)));
+        }
+        if (titles.size > 0) return titles;
+    }
+
+    const ncx = (pkg.tocId && pkg.manifest.get(pkg.tocId))
+        || Array.from(pkg.manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxDocument = ncx && await readXml(zip, ncx.path);
+    if (ncx && ncxDocument) {
+        for (const point of descendants(ncxDocument, 'navPoint')) {
+            const label = childElement(point, 'navLabel');
+            const text = label && descendant(label, 'text');
+            add(dirname(ncx.path), childElement(point, 'content')?.attributes.src, text ? collapse(inlineText(text)) : '');
+        }
+    }
+    return titles;
+}
+
+// --- Content documents (XHTML) ---
+
+/**
+ * Text of an inline run, with <br> as a line break
+ */
+function inlineText(node: XmlNode): string {
+    if (!isElement(node)) return node.replace(/\s+/g, ' ');
+    const name = localName(node);
+    if (name === 'br') return '\n';
+    if (SKIPPED_ELEMENTS.has(name)) return '';
+    return node.children.map(inlineText).join('');
+}
+
+interface Heading {
+    text: string;
+    level: number;
+}
+
+/**
+ * Convert an XHTML body to text blocks, noting the headings it contains
+ */
+function xhtmlToBlocks(body: XmlElement): { blocks: string[]; headings: Heading[] } {
+    const blocks: string[] = [];
+    const headings: Heading[] = [];
+    const add = (block: string | null) => {
+        if (block) blocks.push(block);
+    };
+
+    const visitList = (list: XmlElement, depth: number) => {
+        for (const item of childElements(list)) {
+            if (localName(item) !== 'li') continue;
+            // Text before any nested list is the item itself
+            const own = item.children.filter(child => !isElement(child) || !['ul', 'ol'].includes(localName(child)));
+            const text = collapse(own.map(inlineText).join(''));
+            if (text) add(formatListItem(text, depth));
+            for (const child of childElements(item)) {
+                const name = localName(child);
+                if (name === 'ul' || name === 'ol') visitList(child, depth + 1);
+            }
+        }
+    };
+
+    const visit = (container: XmlElement) => {
+        let inline = '';
+        const flush = () => {
+            add(collapse(inline));
+            inline = '';
+        };
+
+        for (const child of container.children) {
+            const name = isElement(child) ? localName(child) : '';
+            if (!isElement(child) || !BLOCK_ELEMENTS.has(name)) {
+                inline += inlineText(child);
+                continue;
+            }
+            flush();
+
+            const headingMatch = name.match(HEADING_REGEX);
+            if (headingMatch) {
+                const text = collapse(inlineText(child)).replace(/\n/g, ' ');
+                if (text) {
+                    const level = parseInt(headingMatch[1], 10);
+                    headings.push({ text, level });
+                    add(formatHeading(text, level));
+                }
+            } else if (name === 'ul' || name === 'ol') {
+                visitList(child, 0);
+            } else if (name === 'table') {
+                const rows = descendants(child, 'tr').map(row =>
+                    childElements(row)
+                        .filter(cell => localName(cell) === 'td' || localName(cell) === 'th')
+                        .map(cell => collapse(inlineText(cell)))
+                );
+                add(formatTable(rows));
+            } else if (name === 'pre') {
+                add(child.children.map(node => isElement(node) ? inlineText(node) : node).join('').trim());
+            } else if (name !== 'hr') {
+                visit(child);
+            }
+        }
+        flush();
+    };
+
+    visit(body);
+    return { blocks, headings };
+}
+
+// --- Public API ---
+
+/**
+ * Parse an .epub file into chapters, following the spine's reading order.
+ * Content documents without a table-of-contents entry or heading of their own
+ * (e.g. a chapter split across files) are appended to the previous chapter.
+ */
+export async function parseEpub(data: ArrayBuffer): Promise<ParsedDocument> {
+    const zip = openZip(data);
+    const pkg = await readPackage(zip);
+    const tocTitles = await readTableOfContents(zip, pkg);
+
+    const chapters: DocumentSection[] = [];
+    for (const path of pkg.spine) {
+        const document = await readXml(zip, path);
+        const body = document && (descendant(document, 'body') || descendant(document, 'html:body'));
+        if (!body) continue;
+
+        const { blocks, headings } = xhtmlToBlocks(body);
+        if (blocks.length === 0) continue; // Cover images and blank pages
+
+        const topHeading = headings.length > 0
+            ? headings.reduce((top, heading) => heading.level < top.level ? heading : top)
+            : undefined;
+        const title = tocTitles.get(path) || topHeading?.text;
+        const previous = chapters[chapters.length - 1];
+        if (!title && previous) {
+            previous.blocks.push(...blocks);
+        } else {
+            chapters.push({ number: chapters.length + 1, title, blocks });
+        }
+    }
+
+    if (chapters.length === 0) throw new Error('No text was found in this book.');
+    return { unit: 'chapter', sections: chapters, metadata: pkg.metadata };
+}
@@ -0,0 +1,454 @@
+/**
+ * HNSW Index
+ *
+ * Hierarchical navigable small world graph (Malkov & Yashunin) for approximate
+ * nearest neighbour search over embeddings. Vectors are normalized when they
+ * are added, so a dot product gives the same cosine similarity a linear scan
+ * computes. Removed nodes stay in the graph as tombstones that searches pass
+ * through but never return, until enough pile up to compact the graph. The
+ * graph serializes without its vectors; they are read back from the stored
+ * chunks.
+ */
+
+export interface HnswOptions {
+    m?: number;              // Links per node on the upper layers; the bottom layer gets twice as many
+    efConstruction?: number; // Candidates considered when linking a new node
+}
+
+export interface HnswSearchOptions {
+    ef?: number; // Candidates kept while searching; higher is slower and more accurate
+    filter?: (id: string) => boolean; // Only return vectors that pass
+}
+
+export interface HnswSearchResult {
+    id: string;
+    score: number; // Cosine similarity
+}
+
+export interface SerializedHnswIndex {
+    dimension: number;
+    m: number;
+    efConstruction: number;
+    entryPoint: number;
+    ids: string[];
+    links: number[][][]; // Per node, its neighbours on each layer it is part of
+}
+
+interface ScoredNode {
+    node: number;
+    score: number;
+}
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 64;
+export const DEFAULT_EF_SEARCH = 64;
+// Share of tombstoned nodes that triggers relinking and compacting the graph
+const COMPACT_THRESHOLD = 0.25;
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+    const normalized = Float32Array.from(vector);
+    let norm = 0;
+    for (let i = 0; i < normalized.length; i++) norm += normalized[i] * normalized[i];
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+    }
+    return normalized;
+}
+
+// Unrolled by four; this loop is where nearly all the index's time goes
+function dot(a: Float32Array, b: Float32Array): number {
+    let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+    const n = a.length - (a.length % 4);
+    let i = 0;
+    for (; i < n; i += 4) {
+        s0 += a[i] * b[i];
+        s1 += a[i + 1] * b[i + 1];
+        s2 += a[i + 2] * b[i + 2];
+        s3 += a[i + 3] * b[i + 3];
+    }
+    for (; i < a.length; i++) s0 += a[i] * b[i];
+    return s0 + s1 + s2 + s3;
+}
+
+/**
+ * Binary heap of nodes by score. The top is the best-scoring node when
+ * bestFirst is set and the worst-scoring one otherwise.
+ */
+class ScoreHeap {
+    private items: ScoredNode[] = [];
+
+    constructor(private readonly bestFirst: boolean) {}
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    get top(): ScoredNode {
+        return this.items[0];
+    }
+
+    push(node: number, score: number): void {
+        const items = this.items;
+        items.push({ node, score });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.before(items[i], items[parent])) break;
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): ScoredNode {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let next = i;
+                if (left < items.length && this.before(items[left], items[next])) next = left;
+                if (right < items.length && this.before(items[right], items[next])) next = right;
+                if (next === i) break;
+                [items[i], items[next]] = [items[next], items[i]];
+                i = next;
+            }
+        }
+        return top;
+    }
+
+    private before(a: ScoredNode, b: ScoredNode): boolean {
+        return this.bestFirst ? a.score > b.score : a.score < b.score;
+    }
+}
+
+export class HnswIndex {
+    readonly dimension: number;
+    private readonly m: number;
+    private readonly efConstruction: number;
+    private readonly levelMultiplier: number;
+
+    private ids: string[] = [];
+    private vectors: Float32Array[] = [];
+    private links: number[][][] = [];
+    private nodeById: Map<string, number> = new Map(); // Live nodes only
+    private deleted: Set<number> = new Set();
+    private entryPoint = -1;
+
+    constructor(dimension: number, options: HnswOptions = {}) {
+        this.dimension = dimension;
+        this.m = options.m ?? DEFAULT_M;
+        this.efConstruction = options.efConstruction ?? DEFAULT_EF_CONSTRUCTION;
+        this.levelMultiplier = 1 / Math.log(this.m);
+    }
+
+    get size(): number {
+        return this.nodeById.size;
+    }
+
+    has(id: string): boolean {
+        return this.nodeById.has(id);
+    }
+
+    /**
+     * Insert a vector, replacing any vector already stored under the id
+     */
+    add(id: string, embedding: ArrayLike<number>): void {
+        if (embedding.length !== this.dimension) {
+            throw new Error(`Expected a vector with ${this.dimension} dimensions, got ${embedding.length}`);
+        }
+        const replaced = this.nodeById.get(id);
+        if (replaced !== undefined) this.tombstone(replaced);
+
+        const vector = normalize(embedding);
+        // Layers thin out exponentially: about one node in m reaches each next layer
+        const level = Math.floor(-Math.log(1 - Math.random()) * this.levelMultiplier);
+        const node = this.ids.length;
+        this.ids.push(id);
+        this.vectors.push(vector);
+        this.links.push(Array.from({ length: level + 1 }, () => []));
+        this.nodeById.set(id, node);
+
+        if (this.entryPoint === -1) {
+            this.entryPoint = node;
+            return;
+        }
+
+        const maxLevel = this.maxLevel;
+        let entry = this.entryPoint;
+        for (let layer = maxLevel; layer > level; layer--) {
+            entry = this.greedyClosest(vector, entry, layer);
+        }
+
+        let entries = [entry];
+        for (let layer = Math.min(level, maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(vector, entries, this.efConstruction, layer, this.isLive);
+            const neighbours = this.selectNeighbours(candidates, this.m);
+            this.links[node][layer] = neighbours;
+            for (const neighbour of neighbours) {
+                this.link(neighbour, node, layer);
+            }
+            // Tombstones are never candidates; if nothing else was in reach, keep walking from where we were
+            if (candidates.length > 0) entries = candidates.map(candidate => candidate.node);
+        }
+
+        if (level > maxLevel) this.entryPoint = node;
+        this.compactIfNeeded();
+    }
+
+    /**
+     * Remove vectors. Their nodes are tombstoned, so this is cheap; the graph
+     * is compacted once tombstones make up COMPACT_THRESHOLD of it.
+     */
+    removeMany(ids: Iterable<string>): void {
+        for (const id of ids) {
+            const node = this.nodeById.get(id);
+            if (node !== undefined) this.tombstone(node);
+        }
+        this.compactIfNeeded();
+    }
+
+    /**
+     * The k vectors most similar to the query, best first
+     */
+    search(query: ArrayLike<number>, k: number, options: HnswSearchOptions = {}): HnswSearchResult[] {
+        if (this.entryPoint === -1 || k <= 0) return [];
+        if (query.length !== this.dimension) {
+            throw new Error(`Expected a vector with ${this.dimension} dimensions, got ${query.length}`);
+        }
+
+        const vector = normalize(query);
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            entry = this.greedyClosest(vector, entry, layer);
+        }
+
+        const { filter } = options;
+        const ef = Math.max(options.ef ?? DEFAULT_EF_SEARCH, k);
+        return this.searchLayer(vector, [entry], ef, 0, filter ? node => this.isLive(node) && filter(this.ids[node]) : this.isLive)
+            .slice(0, k)
+            .map(({ node, score }) => ({ id: this.ids[node], score }));
+    }
+
+    /**
+     * The graph without its tombstones, which are compacted away first
+     */
+    serialize(): SerializedHnswIndex {
+        this.compact();
+        return {
+            dimension: this.dimension,
+            m: this.m,
+            efConstruction: this.efConstruction,
+            entryPoint: this.entryPoint,
+            ids: [...this.ids],
+            links: this.links.map(layers => layers.map(neighbours => [...neighbours])),
+        };
+    }
+
+    /**
+     * Rebuild an index from its serialized graph. Nodes whose vector is gone,
+     * e.g. because their chunk was deleted meanwhile, are removed.
+     */
+    static deserialize(data: SerializedHnswIndex, getVector: (id: string) => ArrayLike<number> | undefined): HnswIndex {
+        const index = new HnswIndex(data.dimension, { m: data.m, efConstruction: data.efConstruction });
+        index.ids = [...data.ids];
+        index.links = data.links.map(layers => layers.map(neighbours => [...neighbours]));
+        index.entryPoint = data.entryPoint;
+        index.vectors = index.ids.map((id, node) => {
+            const vector = getVector(id);
+            if (!vector || vector.length !== data.dimension) {
+                index.deleted.add(node);
+                return new Float32Array(0);
+            }
+            return normalize(vector);
+        });
+        index.ids.forEach((id, node) => {
+            if (!index.deleted.has(node)) index.nodeById.set(id, node);
+        });
+        // Missing vectors can't be walked through, so these go right away
+        index.compact();
+        return index;
+    }
+
+    private isLive = (node: number): boolean => !this.deleted.has(node);
+
+    private tombstone(node: number): void {
+        this.nodeById.delete(this.ids[node]);
+        this.deleted.add(node);
+    }
+
+    private compactIfNeeded(): void {
+        if (this.deleted.size > this.ids.length * COMPACT_THRESHOLD) this.compact();
+    }
+
+    private compact(): void {
+        if (this.deleted.size === 0) return;
+        const removed = this.deleted;
+        this.deleted = new Set();
+        this.removeNodes(removed);
+    }
+
+    private get maxLevel(): number {
+        return this.entryPoint === -1 ? -1 : this.links[this.entryPoint].length - 1;
+    }
+
+    private maxLinks(layer: number): number {
+        return layer === 0 ? 2 * this.m : this.m;
+    }
+
+    /**
+     * Walk a layer towards the query, one best neighbour at a time
+     */
+    private greedyClosest(query: Float32Array, start: number, layer: number): number {
+        let current = start;
+        let best = dot(query, this.vectors[current]);
+        let improved = true;
+        while (improved) {
+            improved = false;
+            for (const neighbour of this.links[current][layer]) {
+                const score = dot(query, this.vectors[neighbour]);
+                if (score > best) {
+                    best = score;
+                    current = neighbour;
+                    improved = true;
+                }
+            }
+        }
+        return current;
+    }
+
+    /**
+     * Best-first search of one layer, keeping the ef best nodes that pass the
+     * filter. Nodes that don't pass are still walked through. Best first.
+     */
+    private searchLayer(query: Float32Array, entries: number[], ef: number, layer: number, filter?: (node: number) => boolean): ScoredNode[] {
+        const visited = new Set<number>(entries);
+        const candidates = new ScoreHeap(true);
+        const results = new ScoreHeap(false);
+
+        for (const entry of entries) {
+            const score = dot(query, this.vectors[entry]);
+            candidates.push(entry, score);
+            if (!filter || filter(entry)) results.push(entry, score);
+        }
+        while (results.size > ef) results.pop();
+
+        while (candidates.size > 0) {
+            const closest = candidates.pop();
+            if (results.size >= ef && closest.score < results.top.score) break;
+
+            for (const neighbour of this.links[closest.node][layer]) {
+                if (visited.has(neighbour)) continue;
+                visited.add(neighbour);
+
+                const score = dot(query, this.vectors[neighbour]);
+                if (results.size < ef || score > results.top.score) {
+                    candidates.push(neighbour, score);
+                    if (!filter || filter(neighbour)) {
+                        results.push(neighbour, score);
+                        if (results.size > ef) results.pop();
+                    }
+                }
+            }
+        }
+
+        const found: ScoredNode[] = [];
+        while (results.size > 0) found.push(results.pop());
+        return found.reverse();
+    }
+
+    /**
+     * Pick up to max neighbours from candidates sorted best first. A candidate
+     * closer to an already picked neighbour than to the node is skipped at
+     * first, which spreads links out; skipped ones fill any remaining slots.
+     */
+    private selectNeighbours(candidates: ScoredNode[], max: number): number[] {
+        const selected: number[] = [];
+        const skipped: number[] = [];
+        for (const candidate of candidates) {
+            if (selected.length >= max) break;
+            const vector = this.vectors[candidate.node];
+            if (selected.some(node => dot(vector, this.vectors[node]) > candidate.score)) {
+                skipped.push(candidate.node);
+            } else {
+                selected.push(candidate.node);
+            }
+        }
+        for (const node of skipped) {
+            if (selected.length >= max) break;
+            selected.push(node);
+        }
+        return selected;
+    }
+
+    /**
+     * Add a link, dropping the node's least similar neighbour if it now has
+     * too many. Cheaper than selectNeighbours, which runs on every insert here.
+     */
+    private link(from: number, to: number, layer: number): void {
+        const neighbours = this.links[from][layer];
+        neighbours.push(to);
+        if (neighbours.length > this.maxLinks(layer)) {
+            const scored = this.scoreNodes(from, neighbours);
+            this.links[from][layer] = scored.slice(0, this.maxLinks(layer)).map(({ node }) => node);
+        }
+    }
+
+    private scoreNodes(from: number, nodes: Iterable<number>): ScoredNode[] {
+        const vector = this.vectors[from];
+        return Array.from(nodes, node => ({ node, score: dot(vector, this.vectors[node]) }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Drop nodes from the graph, O(N) in its size. Nodes that linked to them are relinked from
+     * the removed nodes' own neighbours, then the arrays are compacted.
+     */
+    private removeNodes(removed: Set<number>): void {
+        if (removed.size === 0) return;
+
+        for (let node = 0; node < this.ids.length; node++) {
+            if (removed.has(node)) continue;
+            this.links[node].forEach((neighbours, layer) => {
+                if (!neighbours.some(neighbour => removed.has(neighbour))) return;
+
+                const candidates = new Set<number>();
+                for (const neighbour of neighbours) {
+                    if (!removed.has(neighbour)) {
+                        candidates.add(neighbour);
+                        continue;
+                    }
+                    for (const next of this.links[neighbour][layer] ?? []) {
+                        if (next !== node && !removed.has(next)) candidates.add(next);
+                    }
+                }
+                this.links[node][layer] = this.selectNeighbours(this.scoreNodes(node, candidates), this.maxLinks(layer));
+            });
+        }
+
+        const remap = new Int32Array(this.ids.length).fill(-1);
+        let kept = 0;
+        for (let node = 0; node < this.ids.length; node++) {
+            if (!removed.has(node)) remap[node] = kept++;
+        }
+        const keep = (_: unknown, node: number) => !removed.has(node);
+        this.ids = this.ids.filter(keep);
+        this.vectors = this.vectors.filter(keep);
+        this.links = this.links.filter(keep).map(layers => layers.map(neighbours => neighbours.map(neighbour => remap[neighbour])));
+        this.nodeById = new Map(this.ids.map((id, node) => [id, node]));
+
+        if (this.entryPoint !== -1 && !removed.has(this.entryPoint)) {
+            this.entryPoint = remap[this.entryPoint];
+        } else {
+            // Enter through one of the remaining nodes on the highest layer
+            this.entryPoint = -1;
+            this.links.forEach((layers, node) => {
+                if (this.entryPoint === -1 || layers.length > this.links[this.entryPoint].length) this.entryPoint = node;
+            });
+        }
+    }
+}
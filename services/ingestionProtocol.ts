@@ -0,0 +1,47 @@
+import type { ChunkingConfig, SourceMetadata, TableData } from '../types';
+import type { DocumentChunk, TextChunk } from './embeddingService';
+import type { OfficeDocumentFormat } from './officeDocumentService';
+import type { OcrPage } from './ocrService';
+import type { EmbeddingProviderConfig } from './embeddingProviders';
+import type { TranscriptSegment } from './transcriptionService';
+
+/**
+ * Messages exchanged between the main thread and the ingestion workers
+ * (see ingestionWorker.ts and ingestionWorkerPool.ts). Every message carries the
+ * id of the source it belongs to, so one worker can process several sources.
+ */
+
+export type IngestionInput =
+    | { kind: 'pdf'; data: ArrayBuffer }  // Parsed page by page, with OCR for scanned pages
+    | { kind: 'image'; data: ArrayBuffer; mimeType: string } // Read with OCR
+    | { kind: 'audio'; samples: Float32Array } // Decoded 16 kHz mono, transcribed with Whisper
+    | { kind: 'document'; format: OfficeDocumentFormat | 'epub'; data: ArrayBuffer } // Parsed into sections, slides or chapters
+    | { kind: 'table'; data: ArrayBuffer } // CSV or .xlsx, indexed in row groups
+    | { kind: 'text'; text: string }      // Chunked along its Markdown structure
+    | { kind: 'transcript'; segments: TranscriptSegment[] } // Timed captions, chunked by segment
+    | { kind: 'chunks'; chunks: TextChunk[] }; // Already chunked, e.g. chunks being re-embedded
+
+export type IngestionStage = 'parsing' | 'recognizing' | 'transcribing' | 'loading-model' | 'chunking' | 'embedding';
+
+export type IngestionRequest =
+    | { type: 'ingest'; sourceId: string; sourceName: string; input: IngestionInput; chunking: ChunkingConfig; embedding: EmbeddingProviderConfig }
+    | { type: 'cancel'; sourceId: string };
+
+export interface IngestionProgress {
+    stage: IngestionStage;
+    completed: number;
+    total: number;
+}
+
+export interface IngestionResult {
+    chunks: DocumentChunk[];
+    text?: string; // Extracted text, for inputs that had to be parsed
+    metadata?: SourceMetadata; // Details recorded in the file, e.g. a book's title and author
+    table?: TableData; // Parsed sheets of tabular sources
+    ocrPages?: OcrPage[]; // Word boxes of scanned pages and images
+}
+
+export type IngestionResponse =
+    | ({ type: 'progress'; sourceId: string } & IngestionProgress)
+    | ({ type: 'done'; sourceId: string } & IngestionResult)
+    | { type: 'error'; sourceId: string; message: string; cancelled?: boolean };
@@ -0,0 +1,381 @@
+import { SourceStatus } from '../types';
+import { db, getSource, updateSource, replaceOcrPages, SourceDB } from './db';
+import { vectorStore } from './vectorStore';
+import { ingestInWorker, IngestionInput, IngestionResult } from './ingestionWorkerPool';
+import { fetchWebsite } from './websiteService';
+import { fetchYouTubeTranscript } from './youtubeService';
+import { decodeAudio, transcriptToText } from './transcriptionService';
+import { resolveEmbeddingProviderConfig } from './providers';
+
+/**
+ * Ingestion Queue
+ *
+ * Indexes sources one job per source, at most MAX_CONCURRENT_JOBS at a time.
+ * Jobs move through parsing, recognizing (OCR of scans and images) or
+ * transcribing (audio), chunking, embedding and persisting, can be cancelled,
+ * and are retried with exponential backoff before being marked as failed. Jobs
+ * are stored in IndexedDB, so work interrupted by a reload picks up again on
+ * the next start (see resumeIngestionJobs).
+ */
+
+export type IngestionJobStage = 'parsing' | 'recognizing' | 'transcribing' | 'loading-model' | 'chunking' | 'embedding' | 'persisting';
+
+export type IngestionJobStatus =
+    | 'queued'
+    | 'running'
+    | 'waiting'   // Backing off before the next attempt
+    | 'done'      // Only ever reported to listeners; finished jobs are deleted
+    | 'failed'
+    | 'cancelled';
+
+export interface IngestionJob {
+    sourceId: string;
+    notebookId: number;
+    reembed?: boolean; // Embed the stored chunks again instead of parsing the source
+    status: IngestionJobStatus;
+    stage?: IngestionJobStage;
+    progress?: number; // 0-1 within the current stage
+    attempts: number;
+    retryAt?: number; // Epoch ms, while waiting
+    error?: string;
+    createdAt: number;
+}
+
+const MAX_CONCURRENT_JOBS = 2;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+const jobs = new Map<string, IngestionJob>();
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<(job: IngestionJob) => void>();
+
+const isActive = (job: IngestionJob) => job.status === 'queued' || job.status === 'running' || job.status === 'waiting';
+
+/**
+ * Update a job and tell listeners. Progress-only updates stay in memory;
+ * everything else is persisted so it survives a reload.
+ */
+async function updateJob(sourceId: string, changes: Partial<IngestionJob>, persist = true): Promise<void> {
+    const current = jobs.get(sourceId);
+    if (!current) return;
+    const job = { ...current, ...changes };
+    jobs.set(sourceId, job);
+    listeners.forEach(listener => listener(job));
+    if (persist && job.status !== 'done') {
+        await db.ingestionJobs.put(job);
+    }
+}
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => Uint8Array.from(atob(base64), c => c.charCodeAt(0)).buffer;
+
+/**
+ * Build the worker input for a source, fetching web pages and transcripts and
+ * decoding audio first
+ */
+async function prepareInput(
+    source: SourceDB,
+    report: (stage: IngestionJobStage, progress: number) => void
+): Promise<{ input: IngestionInput | null; changes: Partial<Pick<SourceDB, 'name' | 'textContent' | 'metadata'>> }> {
+    switch (source.type) {
+        case 'pdf':
+            if (!source.content) throw new Error('The PDF file is missing.');
+            return { input: { kind: 'pdf', data: source.content }, changes: {} };
+        case 'docx':
+        case 'pptx':
+        case 'odt':
+        case 'epub':
+            if (!source.content) throw new Error('The document file is missing.');
+            return { input: { kind: 'document', format: source.type, data: source.content }, changes: {} };
+        case 'table':
+            if (!source.content) throw new Error('The table file is missing.');
+            return { input: { kind: 'table', data: source.content }, changes: {} };
+        case 'text':
+            return { input: source.textContent ? { kind: 'text', text: source.textContent } : null, changes: {} };
+        case 'website':
+        case 'youtube': {
+            const url = source.metadata?.url || source.textContent || source.name;
+            report('parsing', 0);
+            const { text, metadata: fetchedMetadata, segments } = source.type === 'youtube'
+                ? await fetchYouTubeTranscript(url).then(transcript => ({
+                    text: transcriptToText(transcript.segments),
+                    metadata: transcript.metadata,
+                    segments: transcript.segments,
+                }))
+                : await fetchWebsite(url).then(page => ({ text: page.text, metadata: page.metadata, segments: null }));
+
+            // Pasted URLs are named after the page title; discovered sources keep their title
+            const name = source.name === url ? fetchedMetadata.title || url : source.name;
+            return {
+                input: segments ? { kind: 'transcript', segments } : { kind: 'text', text },
+                changes: { name, textContent: text, metadata: { ...source.metadata, ...fetchedMetadata } },
+            };
+        }
+        case 'image': {
+            // Still attached to prompts as is; OCR makes any text in it searchable
+            if (!source.base64Content || !source.mimeType) throw new Error('The image is missing.');
+            return { input: { kind: 'image', data: base64ToArrayBuffer(source.base64Content), mimeType: source.mimeType }, changes: {} };
+        }
+        case 'audio': {
+            // Still attached to prompts for providers that hear audio; the transcript makes it searchable
+            if (!source.base64Content) throw new Error('The audio file is missing.');
+            report('parsing', 0);
+            return { input: { kind: 'audio', samples: await decodeAudio(base64ToArrayBuffer(source.base64Content)) }, changes: {} };
+        }
+        default:
+            throw new Error(`Sources of type "${source.type}" can't be indexed.`);
+    }
+}
+
+/**
+ * Worker input that embeds a source's stored chunks again, e.g. after the
+ * notebook switched embedding models. Null when the source has no chunks yet,
+ * so it is indexed from scratch instead.
+ */
+async function reembedInput(sourceId: string): Promise<IngestionInput | null> {
+    const chunks = await vectorStore.getChunksBySourceIds([sourceId]);
+    if (chunks.length === 0) return null;
+    // embedTextChunks numbers them again in this order
+    return {
+        kind: 'chunks',
+        chunks: chunks
+            .sort((a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0))
+            .map(({ content, metadata }) => ({ content, metadata })),
+    };
+}
+
+async function runJob(job: IngestionJob): Promise<void> {
+    const { sourceId } = job;
+    const controller = new AbortController();
+    controllers.set(sourceId, controller);
+    await updateJob(sourceId, { status: 'running', stage: undefined, progress: undefined, attempts: job.attempts + 1, retryAt: undefined, error: undefined });
+
+    const report = (stage: IngestionJobStage, progress: number) => {
+        const current = jobs.get(sourceId);
+        updateJob(sourceId, { stage, progress }, current?.stage !== stage);
+    };
+
+    try {
+        const source = await getSource(sourceId);
+        if (!source) {
+            // Source was deleted while queued
+            jobs.delete(sourceId);
+            await db.ingestionJobs.delete(sourceId);
+            return;
+        }
+
+        const storedChunks = job.reembed ? await reembedInput(sourceId) : null;
+        const reembedding = !!storedChunks;
+        const { input, changes } = storedChunks ? { input: storedChunks, changes: {} } : await prepareInput(source, report);
+        controller.signal.throwIfAborted();
+
+        let result: IngestionResult = { chunks: [] };
+        if (input) {
+            const notebook = await db.notebooks.get(job.notebookId);
+            result = await ingestInWorker(sourceId, changes.name || source.name, input, {
+                embedding: resolveEmbeddingProviderConfig(notebook?.embedding),
+                chunking: notebook?.chunking,
+                signal: controller.signal,
+                onProgress: progress => report(progress.stage, progress.total > 0 ? progress.completed / progress.total : 0),
+            });
+        }
+
+        report('persisting', 0);
+        controller.signal.throwIfAborted();
+        if (!(await getSource(sourceId))) throw new Error('The source was removed.');
+
+        // A retried job may have persisted some chunks before it was interrupted
+        await vectorStore.removeChunksBySourceId(sourceId);
+        if (result.chunks.length > 0) {
+            await vectorStore.addChunks(result.chunks);
+        }
+        // Re-embedding leaves the parsed source, including its OCR pages, as it was
+        if (!reembedding) {
+            await replaceOcrPages(sourceId, result.ocrPages ?? []);
+        }
+        await updateSource(sourceId, {
+            ...changes,
+            ...(result.text !== undefined && { textContent: result.text }),
+            ...(result.metadata && { metadata: { ...source.metadata, ...changes.metadata, ...result.metadata } }),
+            ...(result.table && { table: result.table }),
+            status: SourceStatus.INDEXED,
+        });
+        console.log(`Indexed ${result.chunks.length} chunks for ${changes.name || source.name}`);
+
+        await updateJob(sourceId, { status: 'done', stage: undefined, progress: undefined });
+        jobs.delete(sourceId);
+        await db.ingestionJobs.delete(sourceId);
+    } catch (error) {
+        const current = jobs.get(sourceId);
+        if (!current) return;
+
+        if (!(await getSource(sourceId))) {
+            // Deleted mid-run, e.g. with its notebook; nothing left to retry
+            jobs.delete(sourceId);
+            await db.ingestionJobs.delete(sourceId);
+            return;
+        }
+
+        if (controller.signal.aborted) {
+            await updateSource(sourceId, { status: SourceStatus.FAILED });
+            await updateJob(sourceId, { status: 'cancelled', stage: undefined, progress: undefined, error: 'Indexing was cancelled.' });
+            return;
+        }
+
+        const message = (error as Error).message;
+        console.error(`Indexing attempt ${current.attempts} failed for source ${sourceId}:`, error);
+        if (current.attempts < MAX_ATTEMPTS) {
+            const delay = RETRY_BASE_DELAY_MS * 2 ** (current.attempts - 1);
+            await updateJob(sourceId, { status: 'waiting', stage: undefined, progress: undefined, error: message, retryAt: Date.now() + delay });
+            scheduleRetry(sourceId, delay);
+        } else {
+            await updateSource(sourceId, { status: SourceStatus.FAILED });
+            await updateJob(sourceId, { status: 'failed', stage: undefined, progress: undefined, error: message });
+        }
+    } finally {
+        controllers.delete(sourceId);
+        pump();
+    }
+}
+
+function scheduleRetry(sourceId: string, delay: number): void {
+    clearTimeout(retryTimers.get(sourceId));
+    retryTimers.set(sourceId, setTimeout(() => {
+        retryTimers.delete(sourceId);
+        if (jobs.get(sourceId)?.status !== 'waiting') return;
+        updateJob(sourceId, { status: 'queued', retryAt: undefined }).then(pump);
+    }, Math.max(0, delay)));
+}
+
+/**
+ * Start queued jobs, oldest first, while there is capacity
+ */
+function pump(): void {
+    const running = Array.from(jobs.values()).filter(job => job.status === 'running').length;
+    const queued = Array.from(jobs.values())
+        .filter(job => job.status === 'queued')
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .slice(0, Math.max(0, MAX_CONCURRENT_JOBS - running));
+    // runJob marks the job as running synchronously, so a second pump won't start it again
+    queued.forEach(job => runJob(job));
+}
+
+// --- Public API ---
+
+/**
+ * Queue a saved source for indexing, or for re-embedding its stored chunks
+ */
+export async function enqueueIngestion(sourceId: string, notebookId: number, options: { reembed?: boolean } = {}): Promise<void> {
+    const job: IngestionJob = { sourceId, notebookId, reembed: options.reembed || undefined, status: 'queued', attempts: 0, createdAt: Date.now() };
+    jobs.set(sourceId, job);
+    listeners.forEach(listener => listener(job));
+    await db.ingestionJobs.put(job);
+    pump();
+}
+
+/**
+ * Cancel a queued, waiting or running job. The source is marked as failed and can be retried.
+ */
+export async function cancelIngestion(sourceId: string): Promise<void> {
+    const job = jobs.get(sourceId);
+    if (!job || !isActive(job)) return;
+
+    clearTimeout(retryTimers.get(sourceId));
+    retryTimers.delete(sourceId);
+
+    if (job.status === 'running') {
+        controllers.get(sourceId)?.abort();
+        return; // runJob records the cancellation
+    }
+    await updateSource(sourceId, { status: SourceStatus.FAILED });
+    await updateJob(sourceId, { status: 'cancelled', error: 'Indexing was cancelled.', retryAt: undefined });
+}
+
+/**
+ * Index a failed or cancelled source again, starting a fresh set of attempts
+ */
+export async function retryIngestion(sourceId: string): Promise<void> {
+    const job = jobs.get(sourceId);
+    if (job && isActive(job)) return;
+
+    const source = await getSource(sourceId);
+    if (!source) return;
+    await updateSource(sourceId, { status: SourceStatus.INDEXING });
+    await enqueueIngestion(sourceId, source.notebookId);
+}
+
+async function requeueSources(sourceIds: string[], reembed: boolean): Promise<void> {
+    for (const sourceId of sourceIds) {
+        const job = jobs.get(sourceId);
+        if (job && isActive(job)) continue;
+
+        const source = await getSource(sourceId);
+        if (!source) continue;
+        await updateSource(sourceId, { status: SourceStatus.INDEXING });
+        await enqueueIngestion(sourceId, source.notebookId, { reembed });
+    }
+}
+
+/**
+ * Embed indexed sources again with their notebook's current embedding model,
+ * reusing their stored chunks. Sources that are already queued are skipped.
+ */
+export const reembedSources = (sourceIds: string[]): Promise<void> => requeueSources(sourceIds, true);
+
+/**
+ * Parse, chunk and embed sources again with their notebook's current settings,
+ * replacing their chunks. Sources that are already queued are skipped.
+ */
+export const reindexSources = (sourceIds: string[]): Promise<void> => requeueSources(sourceIds, false);
+
+/**
+ * Forget a source's job, cancelling it first. Call when the source is deleted.
+ */
+export async function removeIngestionJob(sourceId: string): Promise<void> {
+    controllers.get(sourceId)?.abort();
+    clearTimeout(retryTimers.get(sourceId));
+    retryTimers.delete(sourceId);
+    jobs.delete(sourceId);
+    await db.ingestionJobs.delete(sourceId);
+}
+
+/**
+ * Load stored jobs and restart the ones a previous session left unfinished.
+ * Failed and cancelled jobs are kept so their error and Retry action stay visible.
+ */
+export async function resumeIngestionJobs(): Promise<void> {
+    const stored = await db.ingestionJobs.toArray();
+    for (const job of stored) {
+        if (jobs.has(job.sourceId)) continue;
+        if (job.status === 'waiting' && job.retryAt) {
+            jobs.set(job.sourceId, job);
+            scheduleRetry(job.sourceId, job.retryAt - Date.now());
+        } else if (isActive(job)) {
+            // A job running at reload never finished; don't count that as a failed attempt
+            const attempts = job.status === 'running' ? Math.max(0, job.attempts - 1) : job.attempts;
+            jobs.set(job.sourceId, { ...job, status: 'queued', stage: undefined, progress: undefined, attempts });
+            await db.ingestionJobs.put(jobs.get(job.sourceId)!);
+        } else {
+            jobs.set(job.sourceId, job);
+        }
+        listeners.forEach(listener => listener(jobs.get(job.sourceId)!));
+    }
+    if (stored.length > 0) {
+        console.log(`Loaded ${stored.length} ingestion jobs`);
+    }
+    pump();
+}
+
+export function getIngestionJobs(): IngestionJob[] {
+    return Array.from(jobs.values());
+}
+
+/**
+ * Subscribe to job changes, including progress. Returns an unsubscribe function.
+ */
+export function subscribeToIngestion(listener: (job: IngestionJob) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,143 @@
+import { embedTextChunks, TextChunk } from './embeddingService';
+import { createEmbeddingProvider, EmbeddingProviderConfig, subscribeToModelLoading } from './embeddingProviders';
+import { chunkText, ChunkingOptions } from './chunkingService';
+import { extractPdfPages, renderPdfPages, chunkPdfPages } from './pdfService';
+import { recognizeImage, OcrPage } from './ocrService';
+import { transcribeAudio, chunkTranscript, transcriptToText } from './transcriptionService';
+import { parseOfficeDocument, documentToText, chunkDocumentSections } from './officeDocumentService';
+import { parseEpub } from './epubService';
+import { parseTable, chunkTable, describeTable } from './tableService';
+import type { ChunkingConfig, SourceMetadata, TableData } from '../types';
+import type { IngestionInput, IngestionRequest, IngestionResponse, IngestionStage } from './ingestionProtocol';
+
+/**
+ * Ingestion worker
+ *
+ * Parses, chunks and embeds sources off the main thread. Requests for several
+ * sources may be in flight at once; each reports its own progress and ends with
+ * a 'done' or 'error' message.
+ */
+
+const cancelled = new Set<string>();
+
+const post = (message: IngestionResponse) => self.postMessage(message);
+
+/**
+ * Report downloads of a source's local embedding model as their own stage.
+ * Every source this worker handles shares the model. Returns a function that
+ * stops reporting.
+ */
+function followModelLoading(sourceId: string, embedding: EmbeddingProviderConfig): () => void {
+    if (embedding.provider !== 'local') return () => {};
+    return subscribeToModelLoading(progress => {
+        if (progress.model !== embedding.model || progress.status !== 'loading' || cancelled.has(sourceId)) return;
+        post({ type: 'progress', sourceId, stage: 'loading-model', completed: progress.loaded, total: progress.total });
+    });
+}
+
+async function ingest(
+    sourceId: string,
+    sourceName: string,
+    input: IngestionInput,
+    chunking: ChunkingConfig,
+    embedding: EmbeddingProviderConfig
+): Promise<void> {
+    const report = (stage: IngestionStage, completed: number, total: number) => {
+        if (cancelled.has(sourceId)) throw new Error('Cancelled');
+        post({ type: 'progress', sourceId, stage, completed, total });
+    };
+    // Chunks are measured with the embedding model's tokenizer
+    const embeddingProvider = createEmbeddingProvider(embedding);
+    const chunkingOptions = async (): Promise<ChunkingOptions> => ({ ...chunking, countTokens: await embeddingProvider.getTokenCounter() });
+
+    let textChunks: TextChunk[];
+    let text: string | undefined;
+    let metadata: SourceMetadata | undefined;
+    let table: TableData | undefined;
+    let ocrPages: OcrPage[] | undefined;
+    if (input.kind === 'pdf') {
+        const pages = await extractPdfPages(input.data, (completed, total) => report('parsing', completed, total));
+
+        // Pages without a text layer are scans; read them with OCR
+        const scannedPages = pages.flatMap((pageText, index) => pageText ? [] : [index + 1]);
+        if (scannedPages.length > 0) {
+            ocrPages = [];
+            report('recognizing', 0, scannedPages.length);
+            await renderPdfPages(input.data, scannedPages, async (pageNumber, canvas) => {
+                const page = await recognizeImage(canvas, pageNumber);
+                pages[pageNumber - 1] = page.text;
+                ocrPages!.push(page);
+                report('recognizing', ocrPages!.length, scannedPages.length);
+            });
+        }
+        if (!pages.some(Boolean)) throw new Error('No text could be read from this PDF.');
+
+        text = pages.join('\n\n');
+        report('chunking', 0, 1);
+        textChunks = chunkPdfPages(pages, await chunkingOptions());
+    } else if (input.kind === 'image') {
+        report('recognizing', 0, 1);
+        const page = await recognizeImage(new Blob([input.data], { type: input.mimeType }));
+        ocrPages = [page];
+        text = page.text;
+        report('chunking', 0, 1);
+        // Photos without text are still attached to prompts; they just have nothing to index
+        textChunks = page.text ? chunkText(page.text, await chunkingOptions()) : [];
+    } else if (input.kind === 'audio') {
+        report('transcribing', 0, 1);
+        const segments = await transcribeAudio(input.samples, (completed, total) => report('transcribing', completed, total));
+        text = transcriptToText(segments);
+        report('chunking', 0, 1);
+        textChunks = chunkTranscript(segments, await chunkingOptions());
+    } else if (input.kind === 'document') {
+        report('parsing', 0, 1);
+        const document = input.format === 'epub'
+            ? await parseEpub(input.data)
+            : await parseOfficeDocument(input.data, input.format);
+        text = documentToText(document);
+        metadata = document.metadata;
+        report('chunking', 0, 1);
+        textChunks = chunkDocumentSections(document, await chunkingOptions());
+    } else if (input.kind === 'table') {
+        report('parsing', 0, 1);
+        table = await parseTable(input.data, sourceName);
+        text = describeTable(table);
+        report('chunking', 0, 1);
+        textChunks = chunkTable(table, await chunkingOptions());
+    } else if (input.kind === 'text') {
+        report('chunking', 0, 1);
+        textChunks = chunkText(input.text, await chunkingOptions());
+    } else if (input.kind === 'transcript') {
+        report('chunking', 0, 1);
+        textChunks = chunkTranscript(input.segments, await chunkingOptions());
+    } else {
+        textChunks = input.chunks;
+    }
+
+    report('embedding', 0, textChunks.length);
+    const chunks = await embedTextChunks(embeddingProvider, sourceId, sourceName, textChunks, (completed, total) => report('embedding', completed, total));
+    if (cancelled.has(sourceId)) throw new Error('Cancelled');
+
+    post({ type: 'done', sourceId, chunks, text, metadata, table, ocrPages });
+}
+
+self.addEventListener('message', (event: MessageEvent<IngestionRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        cancelled.add(request.sourceId);
+        return;
+    }
+
+    cancelled.delete(request.sourceId);
+    const stopFollowingModel = followModelLoading(request.sourceId, request.embedding);
+    ingest(request.sourceId, request.sourceName, request.input, request.chunking, request.embedding)
+        .catch(error => {
+            const wasCancelled = cancelled.has(request.sourceId);
+            if (!wasCancelled) console.error(`Failed to ingest ${request.sourceName}:`, error);
+            post({ type: 'error', sourceId: request.sourceId, message: (error as Error).message, cancelled: wasCancelled });
+        })
+        .finally(() => {
+            stopFollowingModel();
+            cancelled.delete(request.sourceId);
+        });
+});
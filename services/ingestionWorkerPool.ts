@@ -0,0 +1,113 @@
+import type { ChunkingConfig } from '../types';
+import { DEFAULT_CHUNKING_CONFIG } from './chunkingService';
+import type { EmbeddingProviderConfig } from './embeddingProviders';
+import type { IngestionInput, IngestionProgress, IngestionRequest, IngestionResponse, IngestionResult } from './ingestionProtocol';
+
+export type { IngestionInput, IngestionProgress, IngestionResult } from './ingestionProtocol';
+
+/**
+ * Ingestion Worker Pool
+ *
+ * Hands sources to a small pool of ingestion workers so parsing and embedding
+ * never block the UI. Each worker loads its own copy of the embedding model, so
+ * the pool stays small; sources are spread over the workers and several can be
+ * processed in parallel.
+ */
+
+const MAX_WORKERS = 2;
+
+interface PendingJob {
+    worker: Worker;
+    resolve: (result: IngestionResult) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: IngestionProgress) => void;
+}
+
+const workers: Worker[] = [];
+const jobs = new Map<string, PendingJob>();
+
+const poolSize = () => Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+function createWorker(): Worker {
+    const worker = new Worker(new URL('./ingestionWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.addEventListener('message', (event: MessageEvent<IngestionResponse>) => {
+        const message = event.data;
+        const job = jobs.get(message.sourceId);
+        if (!job) return;
+
+        if (message.type === 'progress') {
+            job.onProgress?.({ stage: message.stage, completed: message.completed, total: message.total });
+        } else if (message.type === 'done') {
+            jobs.delete(message.sourceId);
+            job.resolve({ chunks: message.chunks, text: message.text, metadata: message.metadata, table: message.table, ocrPages: message.ocrPages });
+        } else {
+            jobs.delete(message.sourceId);
+            const error = new Error(message.message);
+            if (message.cancelled) error.name = 'AbortError';
+            job.reject(error);
+        }
+    });
+
+    // A crashed worker fails its jobs and is replaced on next use
+    worker.addEventListener('error', event => {
+        console.error('Ingestion worker crashed:', event.message);
+        workers.splice(workers.indexOf(worker), 1);
+        jobs.forEach((job, sourceId) => {
+            if (job.worker !== worker) return;
+            jobs.delete(sourceId);
+            job.reject(new Error(event.message || 'The ingestion worker stopped unexpectedly.'));
+        });
+        worker.terminate();
+    });
+
+    return worker;
+}
+
+/**
+ * The least busy worker, starting a new one while the pool isn't full
+ */
+function pickWorker(): Worker {
+    const load = (worker: Worker) => Array.from(jobs.values()).filter(job => job.worker === worker).length;
+    const idle = workers.find(worker => load(worker) === 0);
+    if (idle) return idle;
+    if (workers.length < poolSize()) {
+        const worker = createWorker();
+        workers.push(worker);
+        return worker;
+    }
+    return workers.reduce((best, worker) => (load(worker) < load(best) ? worker : best));
+}
+
+/**
+ * Parse, chunk and embed a source in a worker. Resolves with the finished chunks;
+ * rejects with an AbortError when cancelled through the signal.
+ */
+export function ingestInWorker(
+    sourceId: string,
+    sourceName: string,
+    input: IngestionInput,
+    options: {
+        embedding: EmbeddingProviderConfig; // Resolved on the main thread, since workers can't read saved keys
+        chunking?: ChunkingConfig;
+        onProgress?: (progress: IngestionProgress) => void;
+        signal?: AbortSignal;
+    }
+): Promise<IngestionResult> {
+    const { embedding, chunking = DEFAULT_CHUNKING_CONFIG, onProgress, signal } = options;
+    if (signal?.aborted) {
+        return Promise.reject(new DOMException('Ingestion was cancelled.', 'AbortError'));
+    }
+
+    return new Promise((resolve, reject) => {
+        const worker = pickWorker();
+        jobs.set(sourceId, { worker, resolve, reject, onProgress });
+
+        signal?.addEventListener('abort', () => {
+            worker.postMessage({ type: 'cancel', sourceId } satisfies IngestionRequest);
+        }, { once: true });
+
+        // The PDF bytes are copied rather than transferred so the caller can keep them
+        worker.postMessage({ type: 'ingest', sourceId, sourceName, input, chunking, embedding } satisfies IngestionRequest);
+    });
+}
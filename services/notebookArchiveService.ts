@@ -0,0 +1,279 @@
+import { Notebook, Message, Artifact, Citation, SourceStatus } from '../types';
+import { db, deleteNotebook, SourceDB, MessageDB, ArtifactDB, OcrPageDB } from './db';
+import type { DocumentChunk } from './embeddingService';
+import { getEmbeddingModelKey, toModelKey } from './embeddingProviders';
+import { vectorStore } from './vectorStore';
+import { reembedSources } from './ingestionQueue';
+
+/**
+ * Notebook Archive Service
+ *
+ * Exports a notebook with everything it owns (sources including binary content,
+ * vector chunks with embeddings, OCR word boxes, chat history and Studio
+ * artifacts) into a single JSON archive, and imports such archives back under
+ * fresh IDs.
+ */
+
+export const ARCHIVE_FORMAT = 'omnibooklm-notebook';
+export const ARCHIVE_FORMAT_VERSION = 1;
+export const ARCHIVE_FILE_EXTENSION = '.omnibook.json';
+
+// Sources in the archive carry binary content as base64 so the archive stays plain JSON
+type ArchivedSource = Omit<SourceDB, 'content'> & { contentBase64?: string };
+
+export interface NotebookArchive {
+    format: typeof ARCHIVE_FORMAT;
+    formatVersion: number;
+    exportedAt: string;
+    embeddingModel: string; // Model key of the notebook; chunks also record their own
+    notebook: Omit<Notebook, 'id'>;
+    sources: ArchivedSource[];
+    chunks: DocumentChunk[];
+    ocrPages?: OcrPageDB[]; // Absent in archives from before OCR
+    messages: Omit<MessageDB, 'notebookId'>[];
+    artifacts: Omit<ArtifactDB, 'id' | 'notebookId'>[];
+}
+
+export interface ImportResult {
+    notebook: Notebook;
+    sourceCount: number;
+    chunkCount: number;
+    reembeddedSourceCount: number; // Sources embedded with another model, queued for re-embedding
+    resumedSourceCount: number; // Sources exported while they were being indexed, queued to finish
+    archiveEmbeddingModel: string;
+}
+
+// --- Binary helpers ---
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    const chunkSize = 0x8000; // Avoid call stack limits on large files
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+};
+
+// --- Export ---
+
+/**
+ * Build an archive for a notebook
+ */
+export async function exportNotebook(notebookId: number): Promise<NotebookArchive> {
+    const notebook = await db.notebooks.get(notebookId);
+    if (!notebook) {
+        throw new Error('Notebook not found.');
+    }
+
+    const sources = await db.sources.where('notebookId').equals(notebookId).toArray();
+    const sourceIds = sources.map(s => s.id);
+    const chunks = await db.vectorChunks.where('sourceId').anyOf(sourceIds).toArray();
+    const ocrPages = await db.ocrPages.where('sourceId').anyOf(sourceIds).toArray();
+    const messages = await db.messages.where('notebookId').equals(notebookId).sortBy('createdAt');
+    const artifacts = await db.artifacts.where('notebookId').equals(notebookId).toArray();
+
+    const { id: _notebookId, ...notebookData } = notebook;
+
+    return {
+        format: ARCHIVE_FORMAT,
+        formatVersion: ARCHIVE_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        embeddingModel: getEmbeddingModelKey(notebook.embedding),
+        notebook: notebookData,
+        sources: sources.map(({ content, ...source }) => ({
+            ...source,
+            contentBase64: content ? arrayBufferToBase64(content) : undefined,
+        })),
+        chunks,
+        ocrPages,
+        messages: messages.map(({ notebookId: _messageNotebookId, ...message }) => message),
+        artifacts: artifacts.map(({ id: _artifactId, notebookId: _artifactNotebookId, ...artifact }) => artifact),
+    };
+}
+
+/**
+ * Export a notebook and hand the archive to the browser as a download
+ */
+export async function downloadNotebookArchive(notebookId: number): Promise<void> {
+    const archive = await exportNotebook(notebookId);
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const fileName = (archive.notebook.title.trim() || 'notebook')
+        .replace(/[^\w\- ]+/g, '')
+        .replace(/\s+/g, '-')
+        .toLowerCase();
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName || 'notebook'}${ARCHIVE_FILE_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Check the archive shape before anything is written to the database
+ */
+function validateArchive(data: unknown): NotebookArchive {
+    if (!isObject(data) || data.format !== ARCHIVE_FORMAT) {
+        throw new Error('This file is not an OmnibookLM notebook archive.');
+    }
+    if (typeof data.formatVersion !== 'number' || data.formatVersion > ARCHIVE_FORMAT_VERSION) {
+        throw new Error(`Unsupported archive version ${data.formatVersion}. Please update OmnibookLM and try again.`);
+    }
+    if (typeof data.embeddingModel !== 'string' || !data.embeddingModel) {
+        throw new Error('The archive does not name the embedding model its chunks were made with.');
+    }
+    if (!isObject(data.notebook) || typeof data.notebook.title !== 'string') {
+        throw new Error('The archive is missing its notebook record.');
+    }
+    for (const key of ['sources', 'chunks', 'messages', 'artifacts']) {
+        if (!Array.isArray(data[key])) {
+            throw new Error(`The archive is missing its ${key} list.`);
+        }
+    }
+    const sources = data.sources as unknown[];
+    if (sources.some(s => !isObject(s) || typeof s.id !== 'string' || typeof s.name !== 'string')) {
+        throw new Error('The archive contains an invalid source.');
+    }
+    const archivedSourceIds = new Set((sources as { id: string }[]).map(s => s.id));
+    const belongsToSource = (item: unknown): boolean => isObject(item) && typeof item.sourceId === 'string' && archivedSourceIds.has(item.sourceId);
+    if ((data.chunks as unknown[]).some(c => !belongsToSource(c) || typeof (c as Record<string, unknown>).content !== 'string')) {
+        throw new Error('The archive contains chunks that do not belong to any of its sources.');
+    }
+    if (data.ocrPages !== undefined && (!Array.isArray(data.ocrPages) || data.ocrPages.some(p => !belongsToSource(p)))) {
+        throw new Error('The archive contains OCR pages that do not belong to any of its sources.');
+    }
+    return data as unknown as NotebookArchive;
+}
+
+/**
+ * Import an archive file as a new notebook. All IDs are reassigned so the same
+ * archive can be imported several times side by side. Sources embedded with a
+ * model other than the notebook's are queued for re-embedding.
+ */
+export async function importNotebookArchive(file: File): Promise<ImportResult> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch (error) {
+        throw new Error('The selected file is not valid JSON.');
+    }
+    const archive = validateArchive(parsed);
+    // Archives from before embedding providers name the bare local model
+    const archiveEmbeddingModel = archive.embeddingModel.includes(':') ? archive.embeddingModel : toModelKey('local', archive.embeddingModel);
+    const notebookEmbeddingModel = getEmbeddingModelKey(archive.notebook.embedding);
+
+    // Map archived source and chunk IDs to fresh ones
+    const sourceIdMap = new Map<string, string>();
+    for (const source of archive.sources) {
+        sourceIdMap.set(source.id, crypto.randomUUID());
+    }
+    const chunkIdMap = new Map<string, string>();
+    const chunks: DocumentChunk[] = archive.chunks.map(chunk => {
+        const newSourceId = sourceIdMap.get(chunk.sourceId)!;
+        const newId = `${newSourceId}-chunk-${chunk.metadata?.chunkIndex ?? chunkIdMap.size}`;
+        chunkIdMap.set(chunk.id, newId);
+        return {
+            ...chunk,
+            id: newId,
+            sourceId: newSourceId,
+            embeddingModel: chunk.embeddingModel ?? archiveEmbeddingModel,
+            embeddingDimension: chunk.embeddingDimension ?? chunk.embedding?.length ?? 0,
+        };
+    });
+    const staleSourceIds = Array.from(new Set(chunks
+        .filter(chunk => chunk.embeddingModel !== notebookEmbeddingModel)
+        .map(chunk => chunk.sourceId)));
+    // Nothing would pick these up until the next startup marked them failed
+    const interruptedSourceIds = archive.sources
+        .filter(source => source.status === SourceStatus.INDEXING)
+        .map(source => sourceIdMap.get(source.id)!)
+        .filter(sourceId => !staleSourceIds.includes(sourceId));
+
+    const remapCitations = (citations?: Citation[]): Citation[] | undefined => citations?.map(citation => ({
+        ...citation,
+        chunkId: chunkIdMap.get(citation.chunkId) || citation.chunkId,
+        sourceId: sourceIdMap.get(citation.sourceId) || citation.sourceId,
+    }));
+
+    const notebookData: Omit<Notebook, 'id'> = {
+        ...archive.notebook,
+        sources: archive.sources.length,
+    };
+
+    const notebookId = await db.transaction('rw', ['notebooks', 'sources', 'ocrPages', 'messages', 'artifacts'], async () => {
+        const newNotebookId = await db.notebooks.add(notebookData as Notebook);
+
+        await db.sources.bulkPut(archive.sources.map(({ contentBase64, ...source }) => ({
+            ...source,
+            id: sourceIdMap.get(source.id)!,
+            notebookId: newNotebookId,
+            content: contentBase64 ? base64ToArrayBuffer(contentBase64) : undefined,
+        })));
+
+        await db.ocrPages.bulkPut((archive.ocrPages ?? []).map(page => ({
+            ...page,
+            sourceId: sourceIdMap.get(page.sourceId)!,
+        })));
+
+        await db.messages.bulkPut(archive.messages.map((message): MessageDB => ({
+            ...message,
+            id: crypto.randomUUID(),
+            notebookId: newNotebookId,
+            sources: message.sources?.map(s => ({ ...s, id: sourceIdMap.get(s.id) || s.id, notebookId: newNotebookId })),
+            citations: remapCitations((message as Message).citations),
+        })));
+
+        await db.artifacts.bulkAdd(archive.artifacts.map(artifact => ({
+            ...artifact,
+            notebookId: newNotebookId,
+            sources: artifact.sources?.map(s => ({ ...s, id: sourceIdMap.get(s.id) || s.id, notebookId: newNotebookId })),
+            citations: remapCitations((artifact as Artifact).citations),
+        }) as ArtifactDB));
+
+        return newNotebookId;
+    });
+
+    // Chunks go through the vector store so they are searchable right away
+    if (chunks.length > 0) {
+        try {
+            await vectorStore.addChunks(chunks);
+        } catch (error) {
+            // Don't leave a notebook whose sources have no chunks behind
+            vectorStore.evictSources(await deleteNotebook(notebookId));
+            throw error;
+        }
+    }
+    if (staleSourceIds.length > 0) {
+        console.log(`Re-embedding ${staleSourceIds.length} imported sources with ${notebookEmbeddingModel}`);
+    }
+    // Sources without stored chunks are indexed from scratch
+    if (staleSourceIds.length > 0 || interruptedSourceIds.length > 0) {
+        await reembedSources([...staleSourceIds, ...interruptedSourceIds]);
+    }
+
+    return {
+        notebook: { ...notebookData, id: notebookId },
+        sourceCount: archive.sources.length,
+        chunkCount: chunks.length,
+        reembeddedSourceCount: staleSourceIds.length,
+        resumedSourceCount: interruptedSourceIds.length,
+        archiveEmbeddingModel,
+    };
+}
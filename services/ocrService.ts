@@ -0,0 +1,89 @@
+import { createWorker, OEM, type Worker as TesseractWorker } from 'tesseract.js';
+
+/**
+ * OCR Service
+ *
+ * Reads text from scanned PDF pages and images with tesseract.js, in English and
+ * Indonesian. The tesseract worker, its WebAssembly core and the language data
+ * are served from /ocr (see vite.config.ts), so nothing leaves the browser.
+ * Runs in the ingestion workers; word boxes are kept as fractions of the image
+ * size so the viewers can draw them at any zoom.
+ */
+
+export const OCR_LANGUAGES = ['eng', 'ind'];
+
+const OCR_ASSET_PATH = '/ocr';
+
+export interface OcrWord {
+    text: string;
+    left: number; // Fractions of the image width and height
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface OcrPage {
+    pageNumber: number; // 1 for image sources
+    text: string;
+    words: OcrWord[];
+}
+
+// Singleton for the tesseract worker
+let ocrWorker: Promise<TesseractWorker> | null = null;
+
+/**
+ * Start the OCR engine (loads lazily on first use)
+ */
+function getOcrWorker(): Promise<TesseractWorker> {
+    if (!ocrWorker) {
+        console.log('Loading OCR engine...');
+        ocrWorker = createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+            workerPath: `${OCR_ASSET_PATH}/worker.min.js`,
+            corePath: `${OCR_ASSET_PATH}/core`,
+            langPath: `${OCR_ASSET_PATH}/lang`,
+            gzip: true,
+            workerBlobURL: false,
+        }).catch(error => {
+            // Let the next page try again, e.g. after a failed download
+            ocrWorker = null;
+            throw error;
+        });
+    }
+    return ocrWorker;
+}
+
+const imageSize = async (image: Blob | OffscreenCanvas): Promise<{ width: number; height: number }> => {
+    if (!(image instanceof Blob)) return { width: image.width, height: image.height };
+    const bitmap = await createImageBitmap(image);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+};
+
+/**
+ * Recognize the text of an image or rendered page, with a box for every word
+ */
+export async function recognizeImage(image: Blob | OffscreenCanvas, pageNumber = 1): Promise<OcrPage> {
+    const [worker, { width, height }] = await Promise.all([getOcrWorker(), imageSize(image)]);
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+    const words: OcrWord[] = [];
+    for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+            for (const line of paragraph.lines) {
+                for (const word of line.words) {
+                    if (!word.text.trim()) continue;
+                    words.push({
+                        text: word.text,
+                        left: word.bbox.x0 / width,
+                        top: word.bbox.y0 / height,
+                        width: (word.bbox.x1 - word.bbox.x0) / width,
+                        height: (word.bbox.y1 - word.bbox.y0) / height,
+                    });
+                }
+            }
+        }
+    }
+
+    return { pageNumber, text: data.text.trim(), words };
+}
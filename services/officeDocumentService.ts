@@ -0,0 +1,382 @@
+import { SourceMetadata } from '../types';
+import type { TextChunk } from './embeddingService';
+import { chunkText, ChunkingOptions } from './chunkingService';
+import { openZip, resolveZipPath, ZipArchive } from './zipReader';
+import { parseXml, childElement, childElements, descendant, descendants, isElement, XmlElement } from './xmlParser';
+
+/**
+ * Office Document Service
+ *
+ * Parses Word (.docx), PowerPoint (.pptx) and OpenDocument text (.odt) files
+ * in the browser. Documents are turned into numbered sections (split at
+ * headings) or slides whose text keeps headings ("# "), list items ("- ") and
+ * tables (Markdown rows), and each section or slide is chunked on its own so
+ * chunks can cite where they came from. Runs in the ingestion workers.
+ */
+
+export type OfficeDocumentFormat = 'docx' | 'pptx' | 'odt';
+
+export interface DocumentSection {
+    number: number; // 1-based
+    title?: string;
+    blocks: string[];
+}
+
+export interface ParsedDocument {
+    unit: 'section' | 'slide' | 'chapter';
+    sections: DocumentSection[];
+    metadata?: SourceMetadata; // Title, author and date when the format records them
+}
+
+export const OFFICE_MIME_TYPES: Record<string, OfficeDocumentFormat> = {
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'application/vnd.oasis.opendocument.text': 'odt',
+};
+
+// Sections start at headings up to this level; deeper headings stay inside their section
+const SECTION_HEADING_LEVEL = 2;
+
+/**
+ * Detect the format from the MIME type, falling back to the file extension
+ */
+export function getOfficeDocumentFormat(file: { name: string; type: string }): OfficeDocumentFormat | null {
+    if (OFFICE_MIME_TYPES[file.type]) return OFFICE_MIME_TYPES[file.type];
+    const extension = file.name.toLowerCase().split('.').pop();
+    return extension === 'docx' || extension === 'pptx' || extension === 'odt' ? extension : null;
+}
+
+// --- Shared building blocks ---
+
+export const collapse = (text: string): string => text.replace(/[ \t\u00a0]+/g, ' ').replace(/ *\n */g, '\n').trim();
+
+export const formatHeading = (text: string, level: number): string => `${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${text}`;
+
+export const formatListItem = (text: string, depth: number): string => `${'  '.repeat(depth)}- ${text}`;
+
+/**
+ * Render table rows as a Markdown table, using the first row as the header
+ */
+export function formatTable(rows: string[][]): string | null {
+    const nonEmpty = rows.filter(row => row.some(cell => cell));
+    if (nonEmpty.length === 0) return null;
+    const width = Math.max(...nonEmpty.map(row => row.length));
+    const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`;
+    return [line(nonEmpty[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...nonEmpty.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Collects blocks into sections, starting a new section at each top-level heading
+ */
+class SectionBuilder {
+    private sections: DocumentSection[] = [];
+    private current: DocumentSection | null = null;
+
+    heading(text: string, level: number): void {
+        if (level <= SECTION_HEADING_LEVEL) {
+            this.current = { number: this.sections.length + 1, title: text, blocks: [] };
+            this.sections.push(this.current);
+        }
+        this.add(formatHeading(text, level));
+    }
+
+    add(block: string | null): void {
+        if (!block) return;
+        if (!this.current) {
+            this.current = { number: this.sections.length + 1, blocks: [] };
+            this.sections.push(this.current);
+        }
+        this.current.blocks.push(block);
+    }
+
+    build(): DocumentSection[] {
+        return this.sections.filter(section => section.blocks.length > 0);
+    }
+}
+
+async function readXml(zip: ZipArchive, path: string): Promise<XmlElement | null> {
+    const text = await zip.readText(path);
+    return text ? parseXml(text) : null;
+}
+
+/**
+ * Map relationship ids to archive paths from a .rels part
+ */
+async function readRelationships(zip: ZipArchive, relsPath: string, baseDir: string): Promise<Map<string, string>> {
+    const rels = await readXml(zip, relsPath);
+    const map = new Map<string, string>();
+    if (!rels) return map;
+    for (const rel of childElements(rels, 'Relationship')) {
+        if (rel.attributes.TargetMode === 'External') continue;
+        map.set(rel.attributes.Id, resolveZipPath(baseDir, decodeURIComponent(rel.attributes.Target)));
+    }
+    return map;
+}
+
+// --- Word (.docx) ---
+
+/**
+ * Text of a Word paragraph or table cell, with tabs and line breaks
+ */
+function wordText(element: XmlElement): string {
+    let text = '';
+    const visit = (el: XmlElement) => {
+        for (const child of el.children) {
+            if (!isElement(child)) continue;
+            if (child.name === 'w:t') text += child.children.filter(c => typeof c === 'string').join('');
+            else if (child.name === 'w:tab') text += '\t';
+            else if (child.name === 'w:br' || child.name === 'w:cr') text += '\n';
+            else if (child.name !== 'w:pPr' && child.name !== 'w:rPr' && child.name !== 'w:delText') visit(child);
+        }
+    };
+    visit(element);
+    return collapse(text);
+}
+
+/**
+ * Heading level of each paragraph style, from its name ("heading 2", "Title")
+ * or outline level. Style ids are localized, so names are the reliable signal.
+ */
+async function readWordHeadingStyles(zip: ZipArchive): Promise<Map<string, number>> {
+    const styles = await readXml(zip, 'word/styles.xml');
+    const levels = new Map<string, number>();
+    if (!styles) return levels;
+    for (const style of childElements(styles, 'w:style')) {
+        const id = style.attributes['w:styleId'];
+        const name = (childElement(style, 'w:name')?.attributes['w:val'] || '').toLowerCase();
+        const outline = descendant(style, 'w:outlineLvl')?.attributes['w:val'];
+        const heading = name.match(/^heading\s*(\d)$/);
+        if (heading) levels.set(id, parseInt(heading[1], 10));
+        else if (name === 'title') levels.set(id, 1);
+        else if (outline !== undefined && parseInt(outline, 10) < 9) levels.set(id, parseInt(outline, 10) + 1);
+    }
+    return levels;
+}
+
+async function parseDocx(zip: ZipArchive): Promise<ParsedDocument> {
+    const document = await readXml(zip, 'word/document.xml');
+    if (!document) throw new Error('This .docx file has no document body.');
+    const headingStyles = await readWordHeadingStyles(zip);
+    const builder = new SectionBuilder();
+
+    const visitBody = (container: XmlElement) => {
+        for (const element of childElements(container)) {
+            if (element.name === 'w:p') {
+                const text = wordText(element);
+                if (!text) continue;
+                const properties = childElement(element, 'w:pPr');
+                const styleId = properties && childElement(properties, 'w:pStyle')?.attributes['w:val'];
+                const outline = properties && childElement(properties, 'w:outlineLvl')?.attributes['w:val'];
+                const level = (styleId && headingStyles.get(styleId)) || (outline !== undefined ? parseInt(outline, 10) + 1 : undefined);
+                const numbering = properties && childElement(properties, 'w:numPr');
+
+                if (level && level <= 6) {
+                    builder.heading(text, level);
+                } else if (numbering) {
+                    const depth = parseInt(childElement(numbering, 'w:ilvl')?.attributes['w:val'] || '0', 10);
+                    builder.add(formatListItem(text, depth));
+                } else {
+                    builder.add(text);
+                }
+            } else if (element.name === 'w:tbl') {
+                const rows = childElements(element, 'w:tr').map(row => childElements(row, 'w:tc').map(wordText));
+                builder.add(formatTable(rows));
+            } else if (element.name === 'w:sdt' || element.name === 'w:customXml') {
+                // Content controls wrap ordinary paragraphs and tables
+                const content = childElement(element, 'w:sdtContent') || element;
+                visitBody(content);
+            }
+        }
+    };
+
+    const body = childElement(document, 'w:body');
+    if (body) visitBody(body);
+    return { unit: 'section', sections: builder.build() };
+}
+
+// --- PowerPoint (.pptx) ---
+
+interface DrawingParagraph {
+    level: number;
+    text: string;
+}
+
+function drawingParagraphs(txBody: XmlElement): DrawingParagraph[] {
+    return childElements(txBody, 'a:p').map(paragraph => {
+        let text = '';
+        for (const child of childElements(paragraph)) {
+            if (child.name === 'a:r' || child.name === 'a:fld') {
+                text += descendants(child, 'a:t').map(t => t.children.filter(c => typeof c === 'string').join('')).join('');
+            } else if (child.name === 'a:br') {
+                text += '\n';
+            }
+        }
+        return { level: parseInt(childElement(paragraph, 'a:pPr')?.attributes.lvl || '0', 10), text: collapse(text) };
+    }).filter(paragraph => paragraph.text);
+}
+
+async function parsePptx(zip: ZipArchive): Promise<ParsedDocument> {
+    const presentation = await readXml(zip, 'ppt/presentation.xml');
+    if (!presentation) throw new Error('This .pptx file has no presentation part.');
+    const relationships = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+
+    const slidePaths = descendants(presentation, 'p:sldId')
+        .map(slideId => relationships.get(slideId.attributes['r:id']))
+        .filter((path): path is string => !!path);
+
+    const sections: DocumentSection[] = [];
+    for (const [index, path] of slidePaths.entries()) {
+        const slide = await readXml(zip, path);
+        if (!slide) continue;
+
+        let title: string | undefined;
+        const blocks: string[] = [];
+
+        // Shapes and tables in document order, including those inside groups
+        const visit = (container: XmlElement) => {
+            for (const shape of childElements(container)) {
+                if (shape.name === 'p:grpSp') {
+                    visit(shape);
+                } else if (shape.name === 'p:sp') {
+                    // Placeholders without a type are body placeholders
+                    const placeholderElement = descendant(shape, 'p:ph');
+                    const placeholder = placeholderElement ? placeholderElement.attributes.type || 'body' : undefined;
+                    const txBody = childElement(shape, 'p:txBody');
+                    const paragraphs = txBody ? drawingParagraphs(txBody) : [];
+                    if (paragraphs.length === 0) continue;
+
+                    if (!title && (placeholder === 'title' || placeholder === 'ctrTitle')) {
+                        title = paragraphs.map(p => p.text).join(' ');
+                    } else if (paragraphs.length > 1 || placeholder === 'body' || placeholder === 'obj') {
+                        // Body text is usually a bullet list
+                        paragraphs.forEach(p => blocks.push(formatListItem(p.text, p.level)));
+                    } else {
+                        blocks.push(paragraphs[0].text);
+                    }
+                } else if (shape.name === 'p:graphicFrame') {
+                    const table = descendant(shape, 'a:tbl');
+                    if (!table) continue;
+                    const rows = childElements(table, 'a:tr').map(row =>
+                        childElements(row, 'a:tc').map(cell => {
+                            const txBody = childElement(cell, 'a:txBody');
+                            return txBody ? drawingParagraphs(txBody).map(p => p.text).join(' ') : '';
+                        })
+                    );
+                    const formatted = formatTable(rows);
+                    if (formatted) blocks.push(formatted);
+                }
+            }
+        };
+        const cSld = childElement(slide, 'p:cSld');
+        const shapeTree = cSld && childElement(cSld, 'p:spTree');
+        if (shapeTree) visit(shapeTree);
+
+        const number = index + 1;
+        sections.push({ number, title, blocks: [formatHeading(title ? `Slide ${number}: ${title}` : `Slide ${number}`, 1), ...blocks] });
+    }
+
+    return { unit: 'slide', sections };
+}
+
+// --- OpenDocument text (.odt) ---
+
+function odfText(element: XmlElement): string {
+    let text = '';
+    const visit = (el: XmlElement) => {
+        for (const child of el.children) {
+            if (!isElement(child)) {
+                text += child.replace(/\s+/g, ' ');
+            } else if (child.name === 'text:s') {
+                text += ' '.repeat(parseInt(child.attributes['text:c'] || '1', 10));
+            } else if (child.name === 'text:tab') {
+                text += '\t';
+            } else if (child.name === 'text:line-break') {
+                text += '\n';
+            } else if (child.name !== 'text:note' && child.name !== 'office:annotation') {
+                visit(child);
+            }
+        }
+    };
+    visit(element);
+    return collapse(text);
+}
+
+async function parseOdt(zip: ZipArchive): Promise<ParsedDocument> {
+    const content = await readXml(zip, 'content.xml');
+    const text = content && descendant(content, 'office:text');
+    if (!text) throw new Error('This .odt file has no text body.');
+    const builder = new SectionBuilder();
+
+    const visitList = (list: XmlElement, depth: number) => {
+        for (const item of childElements(list)) {
+            if (item.name !== 'text:list-item' && item.name !== 'text:list-header') continue;
+            for (const child of childElements(item)) {
+                if (child.name === 'text:list') visitList(child, depth + 1);
+                else if (child.name === 'text:p' || child.name === 'text:h') {
+                    const itemText = odfText(child);
+                    if (itemText) builder.add(formatListItem(itemText, depth));
+                }
+            }
+        }
+    };
+
+    const visitBody = (container: XmlElement) => {
+        for (const element of childElements(container)) {
+            if (element.name === 'text:h') {
+                const headingText = odfText(element);
+                if (headingText) builder.heading(headingText, parseInt(element.attributes['text:outline-level'] || '1', 10));
+            } else if (element.name === 'text:p') {
+                builder.add(odfText(element));
+            } else if (element.name === 'text:list') {
+                visitList(element, 0);
+            } else if (element.name === 'table:table') {
+                const rows = descendants(element, 'table:table-row').map(row =>
+                    childElements(row, 'table:table-cell').map(cell => childElements(cell).map(odfText).filter(Boolean).join(' '))
+                );
+                builder.add(formatTable(rows));
+            } else if (element.name === 'text:section') {
+                visitBody(element);
+            }
+        }
+    };
+
+    visitBody(text);
+    return { unit: 'section', sections: builder.build() };
+}
+
+// --- Public API ---
+
+/**
+ * Parse a .docx, .pptx or .odt file into sections or slides
+ */
+export async function parseOfficeDocument(data: ArrayBuffer, format: OfficeDocumentFormat): Promise<ParsedDocument> {
+    const zip = openZip(data);
+    const parsed = format === 'docx' ? await parseDocx(zip)
+        : format === 'pptx' ? await parsePptx(zip)
+        : await parseOdt(zip);
+
+    if (parsed.sections.every(section => section.blocks.length === 0)) {
+        throw new Error('No text was found in this document.');
+    }
+    return parsed;
+}
+
+/**
+ * Full document text, one block per paragraph
+ */
+export const documentToText = (document: ParsedDocument): string =>
+    document.sections.map(section => section.blocks.join('\n\n')).join('\n\n');
+
+/**
+ * Chunk each section, slide or chapter on its own, tagging chunks with its number and title
+ */
+export function chunkDocumentSections(document: ParsedDocument, options: ChunkingOptions): TextChunk[] {
+    return document.sections.flatMap(section => {
+        const location = document.unit === 'chapter'
+            ? { chapterNumber: section.number, chapterTitle: section.title }
+            : document.unit === 'slide'
+            ? { slideNumber: section.number, sectionTitle: section.title }
+            : { sectionNumber: section.number, sectionTitle: section.title };
+        return chunkText(section.blocks.join('\n\n'), options).map(chunk => ({ ...chunk, metadata: { ...chunk.metadata, ...location } }));
+    });
+}
@@ -0,0 +1,242 @@
+import type { TextChunk } from './embeddingService';
+import { chunkText, ChunkingOptions } from './chunkingService';
+
+/**
+ * PDF Service
+ *
+ * Loads pdf.js, extracts text page by page and chunks each page separately so
+ * every chunk knows which page it came from. Extraction runs in the ingestion
+ * workers, which also render pages without a text layer for OCR; the same
+ * loader backs the PDF viewer, which uses locatePassage to highlight a cited
+ * passage on its page.
+ */
+
+const PDFJS_CDN_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.min.js';
+const PDFJS_WORKER_CDN_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.mjs';
+
+// Words matched at the start and end of a passage to find where it sits on the page
+const PASSAGE_ANCHOR_WORDS = 4;
+
+// Resolution scanned pages are rendered at for OCR, capped for oversized pages
+const OCR_RENDER_DPI = 200;
+const OCR_MAX_DIMENSION = 4000;
+
+const loadPdfJsLibrary = (): Promise<any> => {
+    // Workers have no document to add a script tag to; use the bundled package
+    if (typeof document === 'undefined') {
+        return import('pdfjs-dist').then(mod => (mod && (mod as any).default) ? (mod as any).default : mod);
+    }
+
+    return new Promise((resolve, reject) => {
+        const existing = (window as any).pdfjsLib || (globalThis as any).pdfjsLib;
+        if (existing) return resolve(existing);
+
+        const script = document.createElement('script');
+        script.src = PDFJS_CDN_URL;
+        script.async = true;
+        script.onload = () => {
+            const lib = (window as any).pdfjsLib || (globalThis as any).pdfjsLib;
+            if (lib) resolve(lib);
+            else reject(new Error('pdf.js loaded but global pdfjsLib is not available'));
+        };
+        script.onerror = async () => {
+            // CDN failed; try to load local package (pdfjs-dist) as a fallback.
+            try {
+                // dynamic import from node_modules (works in dev with Vite)
+                const mod = await import('pdfjs-dist');
+                // Some builds export a default or named exports; normalize
+                const lib = (mod && (mod as any).default) ? (mod as any).default : mod;
+                if (lib) return resolve(lib);
+                // Try legacy subpath as last resort
+                const legacy = await import('pdfjs-dist/legacy/build/pdf');
+                const legacyLib = (legacy && (legacy as any).default) ? (legacy as any).default : legacy;
+                if (legacyLib) return resolve(legacyLib);
+                reject(new Error('Failed to import pdfjs-dist after CDN failure'));
+            } catch (e) {
+                reject(new Error('Failed to load pdf.js from CDN and failed to import pdfjs-dist: ' + (e instanceof Error ? e.message : String(e))));
+            }
+        };
+        document.head.appendChild(script);
+    });
+};
+
+/**
+ * Load pdf.js (CDN first, local package as fallback) with its worker configured
+ */
+export async function loadPdfJs(): Promise<any> {
+    const pdfjs = await loadPdfJsLibrary();
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        // Try to resolve a local worker URL via Vite's ?url import. This keeps the worker served
+        // by the dev server / build instead of relying on a CDN path which may 404 or be blocked.
+        try {
+            // Vite will return a string URL when importing with ?url
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            const workerUrlModule = await import('pdfjs-dist/legacy/build/pdf.worker.min.mjs?url');
+            const workerUrl = workerUrlModule && (workerUrlModule.default || workerUrlModule);
+            if (workerUrl) {
+                pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+            } else {
+                throw new Error('pdf.worker URL not found from pdfjs-dist');
+            }
+        } catch (e) {
+            // Fallback to the CDN .mjs worker URL (use .mjs for newer pdf.js releases)
+            pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_CDN_URL;
+        }
+    }
+    return pdfjs;
+}
+
+/**
+ * Scratch canvases for pdf.js inside a worker, where there is no document
+ */
+class OffscreenCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d') };
+    }
+
+    reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+        target.canvas.width = width;
+        target.canvas.height = height;
+    }
+
+    destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+        if (target.canvas) {
+            target.canvas.width = 0;
+            target.canvas.height = 0;
+        }
+        target.canvas = null;
+        target.context = null;
+    }
+}
+
+/**
+ * Open a PDF document. pdf.js transfers the buffer it is given to its worker,
+ * so a copy is passed to keep the caller's buffer usable.
+ */
+export async function openPdfDocument(data: File | ArrayBuffer): Promise<any> {
+    const pdfjs = await loadPdfJs();
+    const buffer = data instanceof ArrayBuffer ? data.slice(0) : await data.arrayBuffer();
+    return pdfjs.getDocument({
+        data: buffer,
+        // Workers can't load font faces or create DOM canvases; draw glyphs as paths on OffscreenCanvas
+        ...(typeof document === 'undefined' && { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true }),
+    }).promise;
+}
+
+/**
+ * Text of every page, in page order
+ */
+export async function extractPdfPages(
+    data: File | ArrayBuffer,
+    onProgress?: (completed: number, total: number) => void
+): Promise<string[]> {
+    const pdf = await openPdfDocument(data);
+    try {
+        const pages: string[] = [];
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const textContent = await page.getTextContent();
+            pages.push(textContent.items.map((item: any) => item.str).join(' ').trim());
+            onProgress?.(i, pdf.numPages);
+        }
+        return pages;
+    } finally {
+        pdf.destroy();
+    }
+}
+
+/**
+ * Render pages at a resolution suited to OCR. Each canvas is handed to onPage
+ * before the next page is rendered, so only one is held at a time.
+ */
+export async function renderPdfPages(
+    data: File | ArrayBuffer,
+    pageNumbers: number[],
+    onPage: (pageNumber: number, canvas: OffscreenCanvas) => Promise<void>
+): Promise<void> {
+    const pdf = await openPdfDocument(data);
+    try {
+        for (const pageNumber of pageNumbers) {
+            const page = await pdf.getPage(pageNumber);
+            const { width, height } = page.getViewport({ scale: 1 });
+            const scale = Math.min(OCR_RENDER_DPI / 72, OCR_MAX_DIMENSION / Math.max(width, height));
+            const viewport = page.getViewport({ scale });
+            const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+            await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+            page.cleanup();
+            await onPage(pageNumber, canvas);
+        }
+    } finally {
+        pdf.destroy();
+    }
+}
+
+/**
+ * Chunk each page on its own so no chunk spans a page boundary
+ */
+export function chunkPdfPages(pages: string[], options: ChunkingOptions): TextChunk[] {
+    return pages.flatMap((pageText, index) => {
+        if (!pageText) return [];
+        return chunkText(pageText, options).map(chunk => ({ ...chunk, metadata: { ...chunk.metadata, pageNumber: index + 1 } }));
+    });
+}
+
+const toWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+/**
+ * Find a sequence of words in a list of words, returning the index of its first word
+ */
+const findWords = (haystack: string[], needle: string[]): number => {
+    if (needle.length === 0) return -1;
+    outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+        for (let j = 0; j < needle.length; j++) {
+            if (haystack[i + j] !== needle[j]) continue outer;
+        }
+        return i;
+    }
+    return -1;
+};
+
+/**
+ * Indexes of the page's text items that make up a passage. Chunking drops some
+ * punctuation and whitespace, so the passage is located by matching words at its
+ * start and end rather than by exact string search.
+ */
+export function locatePassage(itemTexts: string[], passage: string): number[] {
+    const pageWords: string[] = [];
+    const wordItems: number[] = [];
+    itemTexts.forEach((text, itemIndex) => {
+        for (const word of toWords(text)) {
+            pageWords.push(word);
+            wordItems.push(itemIndex);
+        }
+    });
+
+    const passageWords = toWords(passage);
+    const anchorLength = Math.min(PASSAGE_ANCHOR_WORDS, passageWords.length);
+    if (anchorLength === 0) return [];
+
+    // Slide the anchor inwards when the passage edge doesn't match (e.g. a split word)
+    let start = -1;
+    for (let offset = 0; start === -1 && offset + anchorLength <= passageWords.length; offset++) {
+        const position = findWords(pageWords, passageWords.slice(offset, offset + anchorLength));
+        if (position !== -1) start = Math.max(0, position - offset);
+    }
+    if (start === -1) return [];
+
+    let end = -1;
+    const searchFrom = pageWords.slice(start);
+    for (let offset = 0; end === -1 && offset + anchorLength <= passageWords.length; offset++) {
+        const from = passageWords.length - anchorLength - offset;
+        const position = findWords(searchFrom, passageWords.slice(from, from + anchorLength));
+        if (position !== -1) end = start + position + anchorLength - 1 + offset;
+    }
+    if (end === -1) end = start + passageWords.length - 1;
+    end = Math.min(end, pageWords.length - 1);
+
+    const items = new Set<number>();
+    for (let i = start; i <= end; i++) items.add(wordItems[i]);
+    return Array.from(items);
+}
@@ -0,0 +1,119 @@
+import { GoogleGenAI } from '@google/genai';
+import { StreamOptions } from '../../types';
+import { LLMProvider, LLMRequest, LLMStreamResult, JSONSchema, parseJSONResponse } from './types';
+
+/**
+ * Google Gemini provider
+ *
+ * System messages become the system instruction, earlier turns map to
+ * user/model contents and attachments are sent as inline data parts.
+ */
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export function createGeminiProvider(apiKey: string, defaultModel: string = GEMINI_DEFAULT_MODEL): LLMProvider {
+    let client: GoogleGenAI | null = null;
+
+    // Constructed lazily so a missing key only fails when Gemini is actually used
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new Error('Gemini API key is not configured. Add it in Settings.');
+        }
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    const buildParams = (request: LLMRequest) => {
+        const systemInstruction = request.messages
+            .filter(m => m.role === 'system')
+            .map(m => m.content)
+            .join('\n\n');
+        const turns = request.messages.filter(m => m.role !== 'system');
+        const lastUserIndex = turns.map(m => m.role).lastIndexOf('user');
+
+        const contents = turns.map((message, index) => {
+            const parts: any[] = [];
+            if (index === lastUserIndex) {
+                for (const attachment of request.attachments || []) {
+                    parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+                }
+            }
+            parts.push({ text: message.content });
+            return { role: message.role === 'assistant' ? 'model' : 'user', parts };
+        });
+
+        return {
+            model: request.model || defaultModel,
+            contents,
+            config: {
+                systemInstruction: systemInstruction || undefined,
+                temperature: request.temperature,
+                maxOutputTokens: request.maxTokens,
+            },
+        };
+    };
+
+    const complete = async (request: LLMRequest): Promise<string> => {
+        const response = await getClient().models.generateContent(buildParams(request));
+        return response.text || '';
+    };
+
+    const stream = async (request: LLMRequest, { onText, signal }: StreamOptions): Promise<LLMStreamResult> => {
+        let text = '';
+        try {
+            const params = buildParams(request);
+            const responseStream = await getClient().models.generateContentStream({
+                ...params,
+                config: { ...params.config, abortSignal: signal },
+            });
+            for await (const chunk of responseStream) {
+                if (signal?.aborted) break;
+                if (chunk.text) {
+                    text += chunk.text;
+                    onText?.(text);
+                }
+            }
+            return { text, stopped: !!signal?.aborted };
+        } catch (error) {
+            if (signal?.aborted) {
+                return { text, stopped: true };
+            }
+            throw error;
+        }
+    };
+
+    const completeJSON = async <T>(request: LLMRequest, schema: JSONSchema): Promise<T> => {
+        const params = buildParams(request);
+        const response = await getClient().models.generateContent({
+            ...params,
+            config: {
+                ...params.config,
+                responseMimeType: 'application/json',
+                responseJsonSchema: schema,
+            },
+        });
+        return parseJSONResponse<T>(response.text || '');
+    };
+
+    // Fetching a model's metadata is free and rejects invalid keys
+    const validate = async (): Promise<void> => {
+        await getClient().models.get({ model: defaultModel });
+    };
+
+    return {
+        id: 'gemini',
+        name: 'Google Gemini',
+        defaultModel,
+        capabilities: {
+            streaming: true,
+            structuredOutput: true,
+            inputModalities: ['image', 'audio'],
+        },
+        complete,
+        stream,
+        completeJSON,
+        validate,
+    };
+}
@@ -0,0 +1,151 @@
+import { EmbeddingConfig, ProviderId } from '../../types';
+import { LLMProvider } from './types';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { ProviderSettings, getProviderSettings, subscribeToSettings } from '../settingsService';
+import { createEmbeddingProvider, getEmbeddingModel, getEmbeddingModelKey, DEFAULT_EMBEDDING_CONFIG, EmbeddingProvider, EmbeddingProviderConfig } from '../embeddingProviders';
+
+export type { LLMProvider, LLMRequest, LLMStreamResult, LLMMessage, LLMAttachment, JSONSchema } from './types';
+
+/**
+ * Provider registry
+ *
+ * Providers are created on first use from the keys, base URLs and default
+ * models saved in Settings, and rebuilt when those change. Notebooks pick one
+ * through ChatConfig.provider / ChatConfig.model, and an embedding provider
+ * (see ../embeddingProviders) through Notebook.embedding, which shares the
+ * same keys.
+ */
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'openrouter';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+export const OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+export interface ProviderOption {
+    id: ProviderId;
+    name: string;
+    description: string;
+    suggestedModels: string[];
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+    {
+        id: 'openrouter',
+        name: 'OpenRouter',
+        description: 'Hosted models from many vendors through one API key.',
+        suggestedModels: ['openai/gpt-4o-mini', 'openai/gpt-4o', 'anthropic/claude-3.5-sonnet', 'google/gemini-pro-1.5', 'meta-llama/llama-3.1-70b-instruct'],
+    },
+    {
+        id: 'gemini',
+        name: 'Google Gemini',
+        description: 'Gemini models directly, with image and audio understanding.',
+        suggestedModels: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+    },
+    {
+        id: 'openai-compatible',
+        name: 'OpenAI-compatible',
+        description: 'A local or self-hosted endpoint such as Ollama, LM Studio or vLLM.',
+        suggestedModels: ['llama3.1', 'qwen2.5', 'mistral'],
+    },
+    {
+        id: 'mock',
+        name: 'Local mock',
+        description: 'Deterministic offline responses for demos and development.',
+        suggestedModels: ['mock-echo'],
+    },
+];
+
+/**
+ * Build a provider from explicit settings, e.g. to test unsaved values in Settings
+ */
+export function createProvider(id: ProviderId, settings: ProviderSettings = {}): LLMProvider {
+    const defaultModel = settings.defaultModel?.trim() || undefined;
+    switch (id) {
+        case 'openrouter':
+            return createOpenAICompatibleProvider({
+                id,
+                name: 'OpenRouter',
+                baseUrl: settings.baseUrl?.trim() || OPENROUTER_BASE_URL,
+                apiKey: settings.apiKey?.trim(),
+                requiresApiKey: true,
+                defaultModel: defaultModel || 'openai/gpt-4o-mini',
+                headers: {
+                    'HTTP-Referer': window.location.origin,
+                    'X-Title': 'NotebookLM Clone',
+                },
+                inputModalities: ['image'],
+                validationPath: '/key',
+            });
+        case 'gemini':
+            return createGeminiProvider(settings.apiKey?.trim() || '', defaultModel);
+        case 'openai-compatible':
+            return createOpenAICompatibleProvider({
+                id,
+                name: 'OpenAI-compatible endpoint',
+                baseUrl: settings.baseUrl?.trim() || OPENAI_COMPATIBLE_BASE_URL,
+                apiKey: settings.apiKey?.trim(),
+                requiresApiKey: false,
+                defaultModel: defaultModel || 'llama3.1',
+            });
+        case 'mock':
+            return createMockProvider();
+        default:
+            throw new Error(`Unknown LLM provider: ${id}`);
+    }
+}
+
+const providers = new Map<ProviderId, LLMProvider>();
+
+/**
+ * Get a provider instance by id (the default provider when omitted)
+ */
+export function getProvider(id: ProviderId = DEFAULT_PROVIDER_ID): LLMProvider {
+    let provider = providers.get(id);
+    if (!provider) {
+        provider = createProvider(id, id === 'mock' ? {} : getProviderSettings(id));
+        providers.set(id, provider);
+    }
+    return provider;
+}
+
+/**
+ * Fill in the saved key and base URL for a notebook's embedding provider. The
+ * result is plain data, so it can be posted to the ingestion workers.
+ */
+export function resolveEmbeddingProviderConfig(embedding: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG): EmbeddingProviderConfig {
+    const model = getEmbeddingModel(embedding);
+    if (embedding.provider === 'local') {
+        return { provider: 'local', model };
+    }
+    const settings = getProviderSettings(embedding.provider);
+    const defaultBaseUrl = embedding.provider === 'openrouter' ? OPENROUTER_BASE_URL : OPENAI_COMPATIBLE_BASE_URL;
+    return {
+        provider: embedding.provider,
+        model,
+        apiKey: settings.apiKey?.trim() || undefined,
+        baseUrl: embedding.provider === 'gemini' ? undefined : settings.baseUrl?.trim() || defaultBaseUrl,
+    };
+}
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Get the embedding provider a notebook is configured to use, e.g. to embed queries
+ */
+export function getEmbeddingProvider(embedding: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG): EmbeddingProvider {
+    const key = getEmbeddingModelKey(embedding);
+    let provider = embeddingProviders.get(key);
+    if (!provider) {
+        provider = createEmbeddingProvider(resolveEmbeddingProviderConfig(embedding));
+        embeddingProviders.set(key, provider);
+    }
+    return provider;
+}
+
+// Saved keys or endpoints changed: rebuild providers on next use
+subscribeToSettings(() => {
+    providers.clear();
+    embeddingProviders.clear();
+});
@@ -0,0 +1,118 @@
+import { StreamOptions } from '../../types';
+import { LLMProvider, LLMRequest, LLMStreamResult, JSONSchema } from './types';
+
+/**
+ * Deterministic local mock provider
+ *
+ * Needs no network or API key. Answers quote the retrieved passages found in
+ * the system prompt with [Source N] markers, so the whole RAG and citation flow
+ * can be exercised offline. The same request always produces the same output.
+ */
+
+const STREAM_DELAY_MS = 15;
+const MAX_CITED_PASSAGES = 3;
+
+const firstSentence = (text: string): string => {
+    const trimmed = text.trim().replace(/\s+/g, ' ');
+    const match = trimmed.match(/^.{20,}?[.!?](?=\s|$)/);
+    const sentence = match ? match[0] : trimmed;
+    return sentence.length > 200 ? `${sentence.slice(0, 200)}...` : sentence;
+};
+
+/**
+ * Pull "[Source N] ... Content: ..." blocks out of the RAG system prompt
+ */
+const extractPassages = (prompt: string): { index: number; content: string }[] => {
+    const passages: { index: number; content: string }[] = [];
+    const regex = /\[Source (\d+)\][^\n]*\nDocument:[^\n]*\nContent: ([\s\S]*?)\n---/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(prompt)) !== null) {
+        passages.push({ index: parseInt(match[1], 10), content: match[2] });
+    }
+    return passages;
+};
+
+const buildAnswer = (request: LLMRequest): string => {
+    const systemPrompt = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    const question = (lastUser?.content || '').replace(/^\*\*Question:\*\*\s*/, '').trim();
+
+    const lines = [`**Mock answer** to: _${question}_`];
+
+    const passages = extractPassages(systemPrompt).slice(0, MAX_CITED_PASSAGES);
+    if (passages.length > 0) {
+        lines.push('', 'Based on your sources:');
+        passages.forEach(p => lines.push(`- ${firstSentence(p.content)} [Source ${p.index}]`));
+    } else {
+        lines.push('', 'No source passages were provided, so this is a placeholder response from the offline mock provider.');
+    }
+
+    if (request.attachments && request.attachments.length > 0) {
+        lines.push('', `Received ${request.attachments.length} attachment(s): ${request.attachments.map(a => a.name).join(', ')}.`);
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * Produce a value shaped like the schema, using property names for realistic placeholders
+ */
+const sampleFromSchema = (schema: JSONSchema, name: string, index = 0): unknown => {
+    switch (schema.type) {
+        case 'object': {
+            const value: Record<string, unknown> = {};
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                value[key] = sampleFromSchema(propertySchema, key, index);
+            }
+            return value;
+        }
+        case 'array':
+            return schema.items ? [0, 1, 2].map(i => sampleFromSchema(schema.items!, name, i)) : [];
+        case 'number':
+        case 'integer':
+            return index + 1;
+        case 'boolean':
+            return index % 2 === 0;
+        case 'string':
+        default:
+            if (/link|url/i.test(name)) return `https://example.com/mock-${index + 1}`;
+            return `Mock ${name} ${index + 1}`;
+    }
+};
+
+export function createMockProvider(): LLMProvider {
+    const complete = async (request: LLMRequest): Promise<string> => buildAnswer(request);
+
+    const stream = async (request: LLMRequest, { onText, signal }: StreamOptions): Promise<LLMStreamResult> => {
+        const tokens = buildAnswer(request).split(/(?<=\s)/);
+        let text = '';
+        for (const token of tokens) {
+            if (signal?.aborted) {
+                return { text, stopped: true };
+            }
+            await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+            text += token;
+            onText?.(text);
+        }
+        return { text, stopped: false };
+    };
+
+    const completeJSON = async <T>(_request: LLMRequest, schema: JSONSchema): Promise<T> => {
+        return sampleFromSchema(schema, 'value') as T;
+    };
+
+    return {
+        id: 'mock',
+        name: 'Local mock',
+        defaultModel: 'mock-echo',
+        capabilities: {
+            streaming: true,
+            structuredOutput: true,
+            inputModalities: ['image', 'audio'],
+        },
+        complete,
+        stream,
+        completeJSON,
+        validate: async () => {},
+    };
+}
@@ -0,0 +1,215 @@
+import { ProviderId, StreamOptions } from '../../types';
+import { LLMProvider, LLMRequest, LLMStreamResult, JSONSchema, InputModality, parseJSONResponse, describeSchema } from './types';
+
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Speaks the /chat/completions protocol shared by OpenRouter and local servers
+ * such as Ollama, LM Studio and vLLM. Streaming uses server-sent events.
+ */
+
+export interface OpenAICompatibleConfig {
+    id: ProviderId;
+    name: string;
+    baseUrl: string;
+    apiKey?: string;
+    requiresApiKey: boolean;
+    defaultModel: string;
+    headers?: Record<string, string>;
+    inputModalities?: InputModality[];
+    validationPath?: string; // GET endpoint used to test the key, defaults to /models
+}
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionRequest {
+    model: string;
+    messages: Array<{ role: string; content: string | ContentPart[] }>;
+    temperature?: number;
+    max_tokens?: number;
+    stream?: boolean;
+}
+
+interface ChatCompletionResponse {
+    choices: Array<{
+        message: {
+            content: string;
+        };
+    }>;
+}
+
+/** One server-sent event of a streamed completion; every field may be missing */
+interface ChatCompletionChunk {
+    choices?: Array<{
+        delta?: {
+            content?: string | null;
+        };
+    }>;
+    error?: {
+        message?: string;
+    };
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    const buildRequest = (request: LLMRequest, stream: boolean): ChatCompletionRequest => {
+        const messages: ChatCompletionRequest['messages'] = request.messages.map(m => ({ role: m.role, content: m.content }));
+
+        // Images ride along with the last user message as data URLs
+        const images = (request.attachments || []).filter(a => a.mimeType.startsWith('image/'));
+        const lastUser = [...messages].reverse().find(m => m.role === 'user');
+        if (lastUser && images.length > 0) {
+            lastUser.content = [
+                ...images.map((image): ContentPart => ({
+                    type: 'image_url',
+                    image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                })),
+                { type: 'text', text: lastUser.content as string },
+            ];
+        }
+
+        return {
+            model: request.model || config.defaultModel,
+            messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: stream || undefined,
+        };
+    };
+
+    /**
+     * Send a request to the endpoint and surface API errors
+     */
+    const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+        if (config.requiresApiKey && !config.apiKey) {
+            throw new Error(`${config.name} API key is not configured. Add it in Settings.`);
+        }
+
+        const response = await fetch(`${baseUrl}${path}`, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+                ...config.headers,
+            },
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(
+                `${config.name} API error: ${response.status} ${response.statusText}. ${
+                    errorData.error?.message || ''
+                }`
+            );
+        }
+
+        return response;
+    };
+
+    const postChatCompletion = (body: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> =>
+        request('/chat/completions', { method: 'POST', body: JSON.stringify(body), signal });
+
+    const complete = async (request: LLMRequest): Promise<string> => {
+        try {
+            const response = await postChatCompletion(buildRequest(request, false));
+            const data: ChatCompletionResponse = await response.json();
+
+            if (!data.choices || data.choices.length === 0) {
+                throw new Error(`No response from ${config.name}`);
+            }
+
+            return data.choices[0].message.content;
+        } catch (error) {
+            console.error(`${config.name} API call failed:`, error);
+            throw error;
+        }
+    };
+
+    const stream = async (request: LLMRequest, { onText, signal }: StreamOptions): Promise<LLMStreamResult> => {
+        let text = '';
+        try {
+            const response = await postChatCompletion(buildRequest(request, true), signal);
+            if (!response.body) {
+                throw new Error('Streaming is not supported by this browser');
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    // Skip blank lines and SSE comments such as ": OPENROUTER PROCESSING"
+                    if (!line.startsWith('data:')) continue;
+
+                    const data = line.slice(5).trim();
+                    if (data === '[DONE]') {
+                        return { text, stopped: false };
+                    }
+
+                    let event: ChatCompletionChunk | null;
+                    try {
+                        event = JSON.parse(data);
+                    } catch {
+                        continue; // Ignore malformed keep-alive payloads
+                    }
+                    if (!event || typeof event !== 'object') continue;
+                    if (event.error) {
+                        throw new Error(`${config.name} API error: ${event.error.message || 'stream failed'}`);
+                    }
+
+                    const delta = event.choices?.[0]?.delta?.content;
+                    if (delta) {
+                        text += delta;
+                        onText?.(text);
+                    }
+                }
+            }
+
+            return { text, stopped: false };
+        } catch (error) {
+            if (signal?.aborted) {
+                return { text, stopped: true };
+            }
+            console.error(`${config.name} streaming call failed:`, error);
+            throw error;
+        }
+    };
+
+    // Not every model behind these endpoints honours response_format, so the schema goes in the prompt
+    const completeJSON = async <T>(request: LLMRequest, schema: JSONSchema): Promise<T> => {
+        const messages = [...request.messages];
+        const last = messages[messages.length - 1];
+        messages[messages.length - 1] = { ...last, content: `${last.content}\n\n${describeSchema(schema)}` };
+        return parseJSONResponse<T>(await complete({ ...request, messages }));
+    };
+
+    const validate = async (): Promise<void> => {
+        await request(config.validationPath || '/models');
+    };
+
+    return {
+        id: config.id,
+        name: config.name,
+        defaultModel: config.defaultModel,
+        capabilities: {
+            streaming: true,
+            structuredOutput: false,
+            inputModalities: config.inputModalities || [],
+        },
+        complete,
+        stream,
+        completeJSON,
+        validate,
+    };
+}
@@ -0,0 +1,87 @@
+import { ProviderId, StreamOptions } from '../../types';
+
+/**
+ * Shared contract for LLM providers. The chat service builds prompts once and
+ * hands them to whichever provider the notebook is configured to use.
+ */
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Inline binary input (image or audio) sent alongside the last user message
+ */
+export interface LLMAttachment {
+    name: string;
+    mimeType: string;
+    data: string; // base64 without the data: prefix
+}
+
+export interface LLMRequest {
+    messages: LLMMessage[];
+    model?: string; // Falls back to the provider's default model
+    temperature?: number;
+    maxTokens?: number;
+    attachments?: LLMAttachment[];
+}
+
+export interface LLMStreamResult {
+    text: string;
+    stopped: boolean; // True when the caller aborted through the signal
+}
+
+/**
+ * The subset of JSON Schema used for structured output
+ */
+export interface JSONSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JSONSchema>;
+    items?: JSONSchema;
+    required?: string[];
+}
+
+export type InputModality = 'image' | 'audio';
+
+export interface LLMCapabilities {
+    streaming: boolean;
+    structuredOutput: boolean; // Native JSON schema support; otherwise the schema is described in the prompt
+    inputModalities: InputModality[];
+}
+
+export interface LLMProvider {
+    id: ProviderId;
+    name: string;
+    defaultModel: string;
+    capabilities: LLMCapabilities;
+    /** Return the full completion text */
+    complete(request: LLMRequest): Promise<string>;
+    /** Report accumulated text through onText. Aborting keeps the partial answer instead of throwing. */
+    stream(request: LLMRequest, options: StreamOptions): Promise<LLMStreamResult>;
+    /** Return a parsed object matching the schema */
+    completeJSON<T>(request: LLMRequest, schema: JSONSchema): Promise<T>;
+    /** Make a cheap test call that fails when the key or endpoint is unusable */
+    validate(): Promise<void>;
+}
+
+/**
+ * Parse a JSON completion, tolerating Markdown code fences around it
+ */
+export function parseJSONResponse<T>(responseText: string): T {
+    let jsonText = responseText.trim();
+    if (jsonText.startsWith('```json')) {
+        jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (jsonText.startsWith('```')) {
+        jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+    return JSON.parse(jsonText) as T;
+}
+
+/**
+ * Instruction appended to prompts for providers without native structured output
+ */
+export function describeSchema(schema: JSONSchema): string {
+    return `Respond with only a JSON value (no prose) matching this JSON Schema:\n${JSON.stringify(schema, null, 2)}`;
+}
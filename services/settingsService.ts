@@ -0,0 +1,200 @@
+import { ProviderId } from '../types';
+
+/**
+ * Settings Service
+ *
+ * Keeps API keys, base URLs and default models for each LLM provider, plus
+ * the CORS proxy used for web sources, in localStorage, so nothing secret is
+ * baked into the build. Settings can optionally be encrypted with a passphrase
+ * (PBKDF2 + AES-GCM via WebCrypto); encrypted settings stay locked until the
+ * passphrase is entered in Settings.
+ */
+
+export type ConfigurableProviderId = Exclude<ProviderId, 'mock'>;
+
+export interface ProviderSettings {
+    apiKey?: string;
+    baseUrl?: string;
+    defaultModel?: string;
+}
+
+export type AppSettings = Partial<Record<ConfigurableProviderId, ProviderSettings>> & {
+    corsProxyUrl?: string; // Used to fetch website sources, see websiteService
+};
+
+const STORAGE_KEY = 'omnibooklm-settings';
+const PBKDF2_ITERATIONS = 250000;
+
+interface PlainEnvelope {
+    version: 1;
+    encrypted: false;
+    settings: AppSettings;
+}
+
+interface EncryptedEnvelope {
+    version: 1;
+    encrypted: true;
+    salt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+type SettingsEnvelope = PlainEnvelope | EncryptedEnvelope;
+
+let currentSettings: AppSettings = {};
+let locked = false;
+// Kept in memory after unlocking so later saves stay encrypted without asking again
+let sessionPassphrase: string | null = null;
+const listeners = new Set<() => void>();
+
+// --- Encoding helpers ---
+
+const bytesToBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+const readEnvelope = (): SettingsEnvelope | null => {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw) as SettingsEnvelope;
+    } catch (error) {
+        console.error('Stored settings are corrupted and will be ignored:', error);
+        return null;
+    }
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// --- Public API ---
+
+/**
+ * Load settings from localStorage. Encrypted settings are left locked.
+ */
+export function loadSettings(): void {
+    const envelope = readEnvelope();
+    locked = !!envelope?.encrypted;
+    currentSettings = envelope?.encrypted === false ? envelope.settings : {};
+    notify();
+}
+
+export function getSettings(): AppSettings {
+    return currentSettings;
+}
+
+export function getProviderSettings(id: ConfigurableProviderId): ProviderSettings {
+    return currentSettings[id] || {};
+}
+
+/**
+ * Whether stored settings are encrypted (regardless of being unlocked)
+ */
+export function isSettingsEncrypted(): boolean {
+    return !!readEnvelope()?.encrypted;
+}
+
+export function isSettingsLocked(): boolean {
+    return locked;
+}
+
+/**
+ * Decrypt stored settings with the passphrase
+ */
+export async function unlockSettings(passphrase: string): Promise<void> {
+    const envelope = readEnvelope();
+    if (!envelope?.encrypted) {
+        locked = false;
+        return;
+    }
+
+    try {
+        const key = await deriveKey(passphrase, base64ToBytes(envelope.salt));
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+            key,
+            base64ToBytes(envelope.ciphertext)
+        );
+        currentSettings = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch (error) {
+        throw new Error('Incorrect passphrase.');
+    }
+
+    sessionPassphrase = passphrase;
+    locked = false;
+    notify();
+}
+
+/**
+ * Save settings. Pass a passphrase to (re-)encrypt, null to store them
+ * unencrypted, or leave it out to keep the current protection.
+ */
+export async function saveSettings(settings: AppSettings, passphrase?: string | null): Promise<void> {
+    if (passphrase === undefined) {
+        passphrase = isSettingsEncrypted() ? sessionPassphrase : null;
+        if (isSettingsEncrypted() && !passphrase) {
+            throw new Error('Unlock your settings before saving them.');
+        }
+    }
+
+    let envelope: SettingsEnvelope;
+
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const key = await deriveKey(passphrase, salt);
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            key,
+            new TextEncoder().encode(JSON.stringify(settings))
+        );
+        envelope = {
+            version: 1,
+            encrypted: true,
+            salt: bytesToBase64(salt),
+            iv: bytesToBase64(iv),
+            ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+        };
+    } else {
+        envelope = { version: 1, encrypted: false, settings };
+    }
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    currentSettings = settings;
+    sessionPassphrase = passphrase || null;
+    locked = false;
+    notify();
+}
+
+/**
+ * Delete stored settings, e.g. when the passphrase is forgotten
+ */
+export function clearSettings(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    currentSettings = {};
+    sessionPassphrase = null;
+    locked = false;
+    notify();
+}
+
+/**
+ * Subscribe to settings changes. Returns an unsubscribe function.
+ */
+export function subscribeToSettings(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+loadSettings();
@@ -0,0 +1,218 @@
+import { TableCell, TableColumn, TableSheet } from '../types';
+
+/**
+ * Table Query Engine
+ *
+ * Runs a declarative query (filters, group by and aggregations) over one sheet.
+ * Queries are plain data planned by the LLM and are never evaluated as code;
+ * they run in tableQueryWorker.ts so a large sheet can't block the page. Every
+ * result row keeps the data rows it was computed from, so answers can cite them.
+ */
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export const FILTER_OPERATORS: FilterOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'contains'];
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'count', 'min', 'max'];
+
+export interface TableFilter {
+    column: string;
+    operator: FilterOperator;
+    value: string;
+}
+
+export interface TableAggregation {
+    function: AggregateFunction;
+    column?: string; // Optional for count, which then counts rows
+}
+
+export interface TableQuery {
+    filters: TableFilter[];
+    groupBy: string[];
+    aggregations: TableAggregation[];
+    sortBy?: string; // A result column, e.g. "Region" or "sum(Revenue)"
+    sortDirection?: 'asc' | 'desc';
+    limit?: number;
+}
+
+export interface TableQueryResult {
+    columns: string[];
+    rows: TableCell[][];
+    sourceRows: number[][]; // 1-based data rows behind each result row
+    matchedRows: number; // Rows that passed the filters
+    truncated: boolean; // More result rows than the limit
+}
+
+export type TableQueryRequest = { sheet: TableSheet; query: TableQuery };
+
+export type TableQueryResponse =
+    | { type: 'result'; result: TableQueryResult }
+    | { type: 'error'; message: string };
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export const aggregationLabel = (aggregation: TableAggregation): string =>
+    aggregation.column ? `${aggregation.function}(${aggregation.column})` : aggregation.function;
+
+/**
+ * Plain-language summary of a query, e.g. "sum(Revenue) by Region where Year = 2024"
+ */
+export function describeTableQuery(query: TableQuery): string {
+    const parts = [query.aggregations.length > 0 ? query.aggregations.map(aggregationLabel).join(', ') : 'rows'];
+    if (query.groupBy.length > 0) parts.push(`by ${query.groupBy.join(', ')}`);
+    if (query.filters.length > 0) {
+        parts.push(`where ${query.filters.map(filter => `${filter.column} ${filter.operator} ${filter.value}`).join(' and ')}`);
+    }
+    if (query.sortBy) parts.push(`sorted by ${query.sortBy} ${query.sortDirection === 'asc' ? 'ascending' : 'descending'}`);
+    return parts.join(' ');
+}
+
+const round = (value: number): number => Math.round(value * 1e10) / 1e10;
+
+function compareCells(a: TableCell, b: TableCell): number {
+    if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1; // Empty cells sort last
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Test a cell against a filter. Numbers compare numerically, dates as ISO strings
+ * ("=" on a date matches a prefix such as "2024-03") and text case-insensitively.
+ */
+function matchesFilter(cell: TableCell, column: TableColumn, filter: TableFilter): boolean {
+    const value = filter.value.trim();
+    if (filter.operator === 'contains') {
+        return cell !== null && String(cell).toLowerCase().includes(value.toLowerCase());
+    }
+    if (cell === null) return filter.operator === '!=' && value !== '';
+
+    let comparison: number;
+    if (column.type === 'number') {
+        const number = parseFloat(value.replace(/,/g, ''));
+        if (Number.isNaN(number)) throw new Error(`"${filter.value}" is not a number, but ${column.name} holds numbers.`);
+        comparison = (cell as number) - number;
+    } else if (column.type === 'date') {
+        const text = String(cell);
+        if (filter.operator === '=' || filter.operator === '!=') {
+            return text.startsWith(value) === (filter.operator === '=');
+        }
+        comparison = text.localeCompare(value);
+    } else if (column.type === 'boolean') {
+        comparison = String(cell) === value.toLowerCase() ? 0 : 1;
+    } else {
+        comparison = String(cell).localeCompare(value, undefined, { sensitivity: 'accent', numeric: true });
+    }
+
+    switch (filter.operator) {
+        case '=': return comparison === 0;
+        case '!=': return comparison !== 0;
+        case '>': return comparison > 0;
+        case '>=': return comparison >= 0;
+        case '<': return comparison < 0;
+        case '<=': return comparison <= 0;
+        default: throw new Error(`Unknown filter operator "${filter.operator}".`);
+    }
+}
+
+function aggregate(aggregation: TableAggregation, values: TableCell[], column?: TableColumn): TableCell {
+    if (aggregation.function === 'count') {
+        return column ? values.filter(value => value !== null).length : values.length;
+    }
+    if (!column) throw new Error(`${aggregation.function} needs a column.`);
+
+    const present = values.filter((value): value is string | number | boolean => value !== null);
+    if (aggregation.function === 'min' || aggregation.function === 'max') {
+        if (present.length === 0) return null;
+        const sorted = [...present].sort(compareCells);
+        return aggregation.function === 'min' ? sorted[0] : sorted[sorted.length - 1];
+    }
+
+    if (column.type !== 'number') throw new Error(`Can't ${aggregation.function} ${column.name}: it doesn't hold numbers.`);
+    const numbers = present as number[];
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    if (aggregation.function === 'sum') return round(sum);
+    if (aggregation.function === 'avg') return numbers.length > 0 ? round(sum / numbers.length) : null;
+    throw new Error(`Unknown aggregation "${aggregation.function}".`);
+}
+
+/**
+ * Run a query over a sheet
+ */
+export function executeTableQuery(sheet: TableSheet, query: TableQuery): TableQueryResult {
+    const findColumn = (name: string): number => {
+        const index = sheet.columns.findIndex(column => column.name.trim().toLowerCase() === name.trim().toLowerCase());
+        if (index === -1) throw new Error(`The column "${name}" doesn't exist in "${sheet.name}".`);
+        return index;
+    };
+
+    const filters = query.filters.map(filter => ({ filter, index: findColumn(filter.column) }));
+    const matched: number[] = [];
+    sheet.rows.forEach((row, i) => {
+        if (filters.every(({ filter, index }) => matchesFilter(row[index], sheet.columns[index], filter))) matched.push(i);
+    });
+
+    let columns: string[];
+    let rows: TableCell[][];
+    let sourceRows: number[][];
+
+    if (query.groupBy.length === 0 && query.aggregations.length === 0) {
+        // Plain filter: return the matching rows themselves
+        columns = sheet.columns.map(column => column.name);
+        rows = matched.map(i => sheet.rows[i]);
+        sourceRows = matched.map(i => [i + 1]);
+    } else {
+        const groupIndexes = query.groupBy.map(findColumn);
+        const aggregations = query.aggregations.length > 0 ? query.aggregations : [{ function: 'count' as const }];
+        const aggregationColumns = aggregations.map(aggregation =>
+            aggregation.column ? sheet.columns[findColumn(aggregation.column)] : undefined
+        );
+
+        const groups = new Map<string, number[]>();
+        for (const i of matched) {
+            const key = JSON.stringify(groupIndexes.map(index => sheet.rows[i][index]));
+            const group = groups.get(key);
+            if (group) group.push(i);
+            else groups.set(key, [i]);
+        }
+        // Aggregating without grouping still yields one row, even when nothing matched
+        if (groupIndexes.length === 0 && groups.size === 0) groups.set('[]', []);
+
+        columns = [...groupIndexes.map(index => sheet.columns[index].name), ...aggregations.map(aggregationLabel)];
+        rows = [];
+        sourceRows = [];
+        for (const [key, members] of groups) {
+            rows.push([
+                ...(JSON.parse(key) as TableCell[]),
+                ...aggregations.map((aggregation, a) => {
+                    const column = aggregationColumns[a];
+                    const values = members.map(i => column ? sheet.rows[i][sheet.columns.indexOf(column)] : null);
+                    return aggregate(aggregation, values, column);
+                }),
+            ]);
+            sourceRows.push(members.map(i => i + 1));
+        }
+    }
+
+    if (query.sortBy) {
+        const sortIndex = columns.findIndex(column => column.toLowerCase() === query.sortBy!.trim().toLowerCase());
+        if (sortIndex === -1) throw new Error(`Can't sort by "${query.sortBy}": it isn't a result column.`);
+        const direction = query.sortDirection === 'asc' ? 1 : -1;
+        const order = rows.map((_, i) => i).sort((a, b) => {
+            const comparison = compareCells(rows[a][sortIndex], rows[b][sortIndex]);
+            // Keep empty cells last in both directions
+            return rows[a][sortIndex] === null || rows[b][sortIndex] === null ? comparison : comparison * direction;
+        });
+        rows = order.map(i => rows[i]);
+        sourceRows = order.map(i => sourceRows[i]);
+    }
+
+    const limit = Math.min(Math.max(Math.floor(query.limit || DEFAULT_LIMIT), 1), MAX_LIMIT);
+    return {
+        columns,
+        rows: rows.slice(0, limit),
+        sourceRows: sourceRows.slice(0, limit),
+        matchedRows: matched.length,
+        truncated: rows.length > limit,
+    };
+}
@@ -0,0 +1,48 @@
+import { TableSheet } from '../types';
+import type { TableQuery, TableQueryResponse, TableQueryResult } from './tableQueryEngine';
+
+/**
+ * Table Query Service
+ *
+ * Runs table queries in a sandbox: each query gets a fresh worker that only
+ * receives one sheet and the query, and is terminated as soon as it answers,
+ * times out or is aborted.
+ */
+
+const QUERY_TIMEOUT_MS = 15000;
+
+export function runTableQuery(sheet: TableSheet, query: TableQuery, signal?: AbortSignal): Promise<TableQueryResult> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('The table query was cancelled.', 'AbortError'));
+            return;
+        }
+
+        const worker = new Worker(new URL('./tableQueryWorker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            clearTimeout(timeout);
+            signal?.removeEventListener('abort', onAbort);
+            worker.terminate();
+        };
+        const onAbort = () => {
+            finish();
+            reject(new DOMException('The table query was cancelled.', 'AbortError'));
+        };
+        const timeout = setTimeout(() => {
+            finish();
+            reject(new Error('The table query took too long and was stopped.'));
+        }, QUERY_TIMEOUT_MS);
+
+        signal?.addEventListener('abort', onAbort);
+        worker.addEventListener('message', (event: MessageEvent<TableQueryResponse>) => {
+            finish();
+            if (event.data.type === 'result') resolve(event.data.result);
+            else reject(new Error(event.data.message));
+        });
+        worker.addEventListener('error', event => {
+            finish();
+            reject(new Error(event.message || 'The table query failed.'));
+        });
+        worker.postMessage({ sheet, query });
+    });
+}
@@ -0,0 +1,19 @@
+import { executeTableQuery, TableQueryRequest, TableQueryResponse } from './tableQueryEngine';
+
+/**
+ * Table query worker
+ *
+ * Runs a single query over the sheet it's sent, then waits to be terminated.
+ * It receives nothing but the sheet and the query, so a bad plan can at most
+ * fail or time out.
+ */
+
+const post = (message: TableQueryResponse) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<TableQueryRequest>) => {
+    try {
+        post({ type: 'result', result: executeTableQuery(event.data.sheet, event.data.query) });
+    } catch (error) {
+        post({ type: 'error', message: (error as Error).message });
+    }
+});
@@ -0,0 +1,337 @@
+import { TableCell, TableColumn, TableData, TableSheet } from '../types';
+import type { TextChunk } from './embeddingService';
+import { normalizeChunkingConfig, ChunkingOptions } from './chunkingService';
+import { openZip, resolveZipPath, ZipArchive } from './zipReader';
+import { parseXml, childElement, childElements, descendant, descendants, isElement, XmlElement } from './xmlParser';
+
+/**
+ * Table Service
+ *
+ * Parses CSV files and Excel workbooks (.xlsx) into sheets with a typed schema
+ * and data rows. For retrieval, rows are indexed in groups that repeat the
+ * column headers, so every chunk reads as a small table on its own. Computed
+ * answers run over the stored rows instead (see tableQueryEngine.ts).
+ */
+
+export type TableFormat = 'csv' | 'xlsx';
+
+export const TABLE_MIME_TYPES: Record<string, TableFormat> = {
+    'text/csv': 'csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
+// Row groups stop at whichever limit is reached first: this many rows, or the chunk size
+const ROWS_PER_CHUNK = 25;
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Detect the format from the MIME type, falling back to the file extension
+ */
+export function getTableFormat(file: { name: string; type: string }): TableFormat | null {
+    if (TABLE_MIME_TYPES[file.type]) return TABLE_MIME_TYPES[file.type];
+    const extension = file.name.toLowerCase().split('.').pop();
+    return extension === 'csv' || extension === 'xlsx' ? extension : null;
+}
+
+// --- Schema ---
+
+const NUMBER_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const THOUSANDS_REGEX = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+// "1.234,5" as written in Indonesian and most European locales
+const DECIMAL_COMMA_REGEX = /^[-+]?\d{1,3}(\.\d{3})*(,\d+)?$|^[-+]?\d+,\d+$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const parseNumber = (text: string, decimalComma = false): number | null => {
+    if (decimalComma && DECIMAL_COMMA_REGEX.test(text)) return parseFloat(text.replace(/\./g, '').replace(',', '.'));
+    const normalized = THOUSANDS_REGEX.test(text) ? text.replace(/,/g, '') : text;
+    return NUMBER_REGEX.test(normalized) ? parseFloat(normalized) : null;
+};
+
+function inferColumnType(values: TableCell[], decimalComma: boolean): TableColumn['type'] {
+    const present = values.filter(value => value !== null && value !== '');
+    if (present.length === 0) return 'text';
+    if (present.every(value => typeof value === 'number' || (typeof value === 'string' && parseNumber(value, decimalComma) !== null))) return 'number';
+    if (present.every(value => typeof value === 'boolean' || (typeof value === 'string' && /^(true|false)$/i.test(value)))) return 'boolean';
+    if (present.every(value => typeof value === 'string' && DATE_REGEX.test(value))) return 'date';
+    return 'text';
+}
+
+function convertCell(value: TableCell, type: TableColumn['type'], decimalComma: boolean): TableCell {
+    if (value === null || value === '') return null;
+    if (type === 'number' && typeof value === 'string') return parseNumber(value, decimalComma);
+    if (type === 'boolean' && typeof value === 'string') return value.toLowerCase() === 'true';
+    return value;
+}
+
+/**
+ * Turn raw rows into a sheet: the first non-empty row becomes the header,
+ * blank rows are dropped and each column gets a type from its values
+ */
+function buildSheet(name: string, rawRows: TableCell[][], decimalComma = false): TableSheet | null {
+    const isBlank = (row: TableCell[]) => row.every(cell => cell === null || cell === '');
+    const rows = rawRows.filter(row => !isBlank(row));
+    if (rows.length === 0) return null;
+
+    const [header, ...data] = rows;
+    const width = Math.max(...rows.map(row => row.length));
+    const seen = new Map<string, number>();
+    const names = Array.from({ length: width }, (_, i) => {
+        const base = String(header[i] ?? '').trim() || `Column ${i + 1}`;
+        const count = (seen.get(base) || 0) + 1;
+        seen.set(base, count);
+        return count > 1 ? `${base} (${count})` : base;
+    });
+
+    const columns: TableColumn[] = names.map((columnName, i) => ({
+        name: columnName,
+        type: inferColumnType(data.map(row => row[i] ?? null), decimalComma),
+    }));
+    return {
+        name,
+        columns,
+        rows: data.map(row => columns.map((column, i) => convertCell(row[i] ?? null, column.type, decimalComma))),
+    };
+}
+
+// --- CSV ---
+
+/**
+ * Pick the delimiter that splits the first line into the most fields
+ */
+function detectDelimiter(text: string): string {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const count = (delimiter: string) => firstLine.replace(/"[^"]*"/g, '').split(delimiter).length;
+    return CSV_DELIMITERS.reduce((best, delimiter) => count(delimiter) > count(best) ? delimiter : best);
+}
+
+/**
+ * RFC 4180 fields: quoted fields may contain delimiters, newlines and doubled quotes
+ */
+export function parseCsv(text: string): string[][] {
+    const input = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(input);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.map(cells => cells.map(cell => cell.trim()));
+}
+
+// --- Excel (.xlsx) ---
+
+// Built-in number formats that display dates and times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+async function readXml(zip: ZipArchive, path: string): Promise<XmlElement | null> {
+    const text = await zip.readText(path);
+    return text ? parseXml(text) : null;
+}
+
+const textOf = (element: XmlElement): string =>
+    descendants(element, 't').map(t => t.children.filter(child => !isElement(child)).join('')).join('');
+
+/**
+ * Column index of a cell reference such as "AB12"
+ */
+const columnIndex = (reference: string): number =>
+    reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Style indexes (the "s" attribute of cells) whose number format shows a date
+ */
+async function readDateStyles(zip: ZipArchive): Promise<Set<number>> {
+    const styles = await readXml(zip, 'xl/styles.xml');
+    const dateStyles = new Set<number>();
+    if (!styles) return dateStyles;
+
+    const customDateFormats = new Set(
+        descendants(styles, 'numFmt')
+            // Ignore quoted literals and colors before looking for day, month or year codes
+            .filter(format => /[dmy]/i.test((format.attributes.formatCode || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+            .map(format => parseInt(format.attributes.numFmtId, 10))
+    );
+    const cellXfs = descendant(styles, 'cellXfs');
+    childElements(cellXfs || styles, 'xf').forEach((xf, index) => {
+        const formatId = parseInt(xf.attributes.numFmtId || '0', 10);
+        if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+    });
+    return dateStyles;
+}
+
+/**
+ * Convert an Excel date serial to an ISO date (with the time when it has one)
+ */
+function excelDateToIso(serial: number, date1904: boolean): string {
+    const days = serial + (date1904 ? 1462 : 0) - 25569; // Days since 1970-01-01
+    const iso = new Date(Math.round(days * 86400) * 1000).toISOString();
+    return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+async function parseXlsx(data: ArrayBuffer): Promise<TableSheet[]> {
+    const zip = openZip(data);
+    const workbook = await readXml(zip, 'xl/workbook.xml');
+    if (!workbook) throw new Error('This .xlsx file has no workbook.');
+    const date1904 = ['1', 'true'].includes(descendant(workbook, 'workbookPr')?.attributes.date1904 || '');
+
+    const relationships = new Map<string, string>();
+    const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+    for (const rel of rels ? childElements(rels, 'Relationship') : []) {
+        relationships.set(rel.attributes.Id, resolveZipPath('xl', rel.attributes.Target));
+    }
+
+    const sharedStringsXml = await readXml(zip, 'xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml ? childElements(sharedStringsXml, 'si').map(textOf) : [];
+    const dateStyles = await readDateStyles(zip);
+
+    const sheets: TableSheet[] = [];
+    for (const sheetElement of descendants(workbook, 'sheet')) {
+        const path = relationships.get(sheetElement.attributes['r:id']);
+        const worksheet = path ? await readXml(zip, path) : null;
+        const sheetData = worksheet && descendant(worksheet, 'sheetData');
+        if (!sheetData) continue;
+
+        const rawRows: TableCell[][] = [];
+        for (const rowElement of childElements(sheetData, 'row')) {
+            const row: TableCell[] = [];
+            childElements(rowElement, 'c').forEach((cell, position) => {
+                const index = cell.attributes.r ? columnIndex(cell.attributes.r) : position;
+                const value = childElement(cell, 'v');
+                const raw = value ? value.children.filter(child => !isElement(child)).join('') : '';
+                const type = cell.attributes.t;
+                let parsed: TableCell = null;
+                if (type === 's') parsed = sharedStrings[parseInt(raw, 10)] ?? null;
+                else if (type === 'inlineStr') parsed = textOf(cell);
+                else if (type === 'str' || type === 'e') parsed = raw;
+                else if (type === 'b') parsed = raw === '1';
+                else if (raw !== '') {
+                    const number = parseFloat(raw);
+                    parsed = dateStyles.has(parseInt(cell.attributes.s || '0', 10)) ? excelDateToIso(number, date1904) : number;
+                }
+                row[index] = parsed;
+            });
+            rawRows.push(Array.from(row, cell => cell ?? null));
+        }
+
+        const sheet = buildSheet(sheetElement.attributes.name || `Sheet ${sheets.length + 1}`, rawRows);
+        if (sheet) sheets.push(sheet);
+    }
+    return sheets;
+}
+
+// --- Public API ---
+
+/**
+ * Parse a CSV file or Excel workbook into typed sheets. Workbooks are told
+ * apart by their ZIP signature; CSV sheets are named after the file.
+ */
+export async function parseTable(data: ArrayBuffer, name: string): Promise<TableData> {
+    const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength));
+    const isWorkbook = bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+    let sheets: TableSheet[];
+    if (isWorkbook) {
+        sheets = await parseXlsx(data);
+    } else {
+        const text = new TextDecoder().decode(data);
+        // Files delimited by something other than commas usually write decimals with a comma
+        const sheet = buildSheet(name.replace(/\.csv$/i, ''), parseCsv(text), detectDelimiter(text) !== ',');
+        sheets = sheet ? [sheet] : [];
+    }
+
+    if (sheets.every(sheet => sheet.rows.length === 0)) {
+        throw new Error('No rows were found in this table.');
+    }
+    return { sheets };
+}
+
+export const range = (start: number, end: number): number[] =>
+    Array.from({ length: end - start + 1 }, (_, i) => start + i);
+
+export const formatCell = (value: TableCell): string => value === null ? '' : String(value);
+
+/**
+ * Render rows as a Markdown table under the column headers, with the row number first
+ */
+export function formatRows(sheet: TableSheet, rowNumbers: number[]): string {
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    const lines = [
+        `| Row | ${sheet.columns.map(column => escape(column.name)).join(' | ')} |`,
+        `| --- | ${sheet.columns.map(() => '---').join(' | ')} |`,
+    ];
+    for (const rowNumber of rowNumbers) {
+        const row = sheet.rows[rowNumber - 1];
+        if (row) lines.push(`| ${rowNumber} | ${row.map(cell => escape(formatCell(cell))).join(' | ')} |`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * One line per sheet: its name, row count and typed columns
+ */
+export const describeTable = (table: TableData): string =>
+    table.sheets
+        .map(sheet => `Sheet "${sheet.name}" (${sheet.rows.length} rows): ${sheet.columns.map(column => `${column.name} (${column.type})`).join(', ')}`)
+        .join('\n');
+
+/**
+ * Index each sheet as a schema chunk followed by row groups that repeat the headers
+ */
+export function chunkTable(table: TableData, options: ChunkingOptions): TextChunk[] {
+    const { chunkSize } = normalizeChunkingConfig(options);
+    const chunks: TextChunk[] = [];
+    for (const sheet of table.sheets) {
+        chunks.push({
+            content: describeTable({ sheets: [sheet] }),
+            metadata: { sheetName: sheet.name },
+        });
+
+        let start = 1;
+        while (start <= sheet.rows.length) {
+            let end = start;
+            let content = formatRows(sheet, [start]);
+            while (end < sheet.rows.length && end - start + 1 < ROWS_PER_CHUNK) {
+                const next = formatRows(sheet, range(start, end + 1));
+                if (options.countTokens(next) > chunkSize) break;
+                content = next;
+                end++;
+            }
+            chunks.push({
+                content: `Sheet "${sheet.name}", rows ${start}–${end}\n${content}`,
+                metadata: { sheetName: sheet.name, rowStart: start, rowEnd: end },
+            });
+            start = end + 1;
+        }
+    }
+    return chunks;
+}
@@ -0,0 +1,177 @@
+import { pipeline } from '@xenova/transformers';
+import type { TextChunk } from './embeddingService';
+import { chunkText, normalizeChunkingConfig, ChunkingOptions } from './chunkingService';
+
+/**
+ * Transcription Service
+ *
+ * Transcribes audio sources locally with Whisper through Transformers.js, so a
+ * recording can be searched and cited like any other source. Audio is decoded
+ * and resampled on the main thread, since workers have no Web Audio; the model
+ * runs in the ingestion workers and returns timestamped segments. Those are
+ * chunked with the notebook's chunking settings, like YouTube captions.
+ */
+
+// Multilingual model; the spoken language is detected per 30-second window
+export const WHISPER_MODEL_ID = 'Xenova/whisper-base';
+
+const WHISPER_SAMPLE_RATE = 16000;
+const WINDOW_SECONDS = 30;
+const STRIDE_SECONDS = 5; // Overlap on each side of a window, so words at its edges aren't cut
+
+export interface TranscriptSegment {
+    start: number; // Seconds
+    duration: number;
+    text: string;
+}
+
+interface SpeechRecognitionOutput {
+    text: string;
+    chunks?: { timestamp: [number, number | null]; text: string }[]; // With return_timestamps
+}
+
+// The parts of a Transformers.js speech recognition pipeline this service uses
+interface SpeechRecognitionPipeline {
+    (audio: Float32Array, options: {
+        task: 'transcribe';
+        chunk_length_s: number;
+        stride_length_s: number;
+        return_timestamps: boolean;
+        chunk_callback: () => void;
+    }): Promise<SpeechRecognitionOutput | SpeechRecognitionOutput[]>;
+}
+
+// Singleton for the speech recognition pipeline
+let transcriber: Promise<SpeechRecognitionPipeline> | null = null;
+
+/**
+ * Initialize the Whisper model (loads lazily on first use)
+ */
+function getTranscriber(): Promise<SpeechRecognitionPipeline> {
+    if (!transcriber) {
+        transcriber = pipeline('automatic-speech-recognition', WHISPER_MODEL_ID).catch(error => {
+            // Let the next call try again, e.g. after a failed download
+            transcriber = null;
+            throw error;
+        });
+    }
+    return transcriber;
+}
+
+/**
+ * Decode an audio file to mono samples at Whisper's sample rate
+ */
+export async function decodeAudio(data: ArrayBuffer): Promise<Float32Array> {
+    let buffer: AudioBuffer;
+    try {
+        buffer = await new OfflineAudioContext(1, 1, WHISPER_SAMPLE_RATE).decodeAudioData(data);
+    } catch (error) {
+        throw new Error('This audio file could not be decoded. Try converting it to MP3 or WAV.');
+    }
+
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < buffer.length; i++) {
+            samples[i] += channelData[i] / buffer.numberOfChannels;
+        }
+    }
+    return samples;
+}
+
+/**
+ * Transcribe decoded audio into segments with start times, reporting progress
+ * per window
+ */
+export async function transcribeAudio(
+    samples: Float32Array,
+    onProgress?: (completed: number, total: number) => void
+): Promise<TranscriptSegment[]> {
+    const model = await getTranscriber();
+    const duration = samples.length / WHISPER_SAMPLE_RATE;
+    const windowCount = Math.max(1, Math.ceil(duration / (WINDOW_SECONDS - 2 * STRIDE_SECONDS)));
+    let completed = 0;
+
+    const output = await model(samples, {
+        task: 'transcribe',
+        chunk_length_s: WINDOW_SECONDS,
+        stride_length_s: STRIDE_SECONDS,
+        return_timestamps: true,
+        chunk_callback: () => onProgress?.(++completed, windowCount),
+    });
+
+    // One input gives one output
+    const { chunks = [] } = Array.isArray(output) ? output[0] : output;
+    return chunks
+        .map(({ timestamp: [start, end], text }) => ({
+            start,
+            // The last segment may be left open; it runs to the end of the recording
+            duration: Math.max(0, (end ?? duration) - start),
+            text: text.trim(),
+        }))
+        .filter(segment => segment.text);
+}
+
+/**
+ * Plain transcript text, one segment per line
+ */
+export const transcriptToText = (segments: TranscriptSegment[]): string =>
+    segments.map(segment => segment.text).join('\n');
+
+/**
+ * Group transcript segments into chunks of at most chunkSize tokens, each
+ * carrying the time range it covers. Consecutive chunks share up to
+ * chunkOverlap tokens of whole segments; a segment too long for a chunk of its
+ * own is split with chunkText and keeps its time range.
+ */
+export function chunkTranscript(segments: TranscriptSegment[], options: ChunkingOptions): TextChunk[] {
+    const { countTokens } = options;
+    const { chunkSize, chunkOverlap } = normalizeChunkingConfig(options);
+
+    const pieces = segments.flatMap(segment => {
+        const tokens = countTokens(segment.text);
+        if (tokens <= chunkSize) return [{ segment, tokens }];
+        return chunkText(segment.text, options).map(({ content }) => ({ segment: { ...segment, text: content }, tokens: countTokens(content) }));
+    });
+
+    const chunks: TextChunk[] = [];
+    let current: typeof pieces = [];
+    let tokens = 0;
+    let hasNewContent = false; // False while the chunk holds only the previous chunk's overlap
+
+    const flush = () => {
+        if (!hasNewContent) return;
+        const first = current[0].segment;
+        const last = current[current.length - 1].segment;
+        chunks.push({
+            content: current.map(({ segment }) => segment.text).join(' '),
+            metadata: { startTime: first.start, endTime: last.start + last.duration },
+        });
+
+        // Start the next chunk with the last segments, as long as they fit in the overlap
+        let overlapStart = current.length;
+        let overlapTokens = 0;
+        while (overlapStart > 1 && overlapTokens + current[overlapStart - 1].tokens <= chunkOverlap) {
+            overlapTokens += current[--overlapStart].tokens;
+        }
+        current = current.slice(overlapStart);
+        tokens = overlapTokens;
+        hasNewContent = false;
+    };
+
+    for (const piece of pieces) {
+        if (hasNewContent && tokens + piece.tokens > chunkSize) flush();
+        // The overlap gives way to a segment that doesn't fit beside it
+        if (tokens + piece.tokens > chunkSize) {
+            current = [];
+            tokens = 0;
+        }
+        current.push(piece);
+        tokens += piece.tokens;
+        hasNewContent = true;
+    }
+    flush();
+
+    return chunks;
+}
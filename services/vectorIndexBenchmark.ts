@@ -0,0 +1,93 @@
+import { cosineSimilarity } from './embeddingService';
+import { DEFAULT_EF_SEARCH, HnswIndex, HnswOptions } from './hnswIndex';
+
+/**
+ * Vector Index Benchmark
+ *
+ * Compares HNSW search with the exact linear scan VectorStore falls back to:
+ * build time, average query latency of both, and recall@k, the share of the
+ * exact top k the index also returns. `npm run benchmark-index` runs it on
+ * vectors from generateClusteredVectors; vectorStore.benchmarkIndex() runs it
+ * on the stored chunks (see the README's Troubleshooting section).
+ */
+
+export interface VectorIndexBenchmarkOptions extends HnswOptions {
+    queries?: number;
+    topK?: number;
+    ef?: number;
+}
+
+export interface VectorIndexBenchmarkResult {
+    vectors: number;
+    dimension: number;
+    queries: number;
+    topK: number;
+    ef: number;
+    buildMs: number;      // Inserting every vector into a new index
+    linearScanMs: number; // Per query
+    indexMs: number;      // Per query
+    recall: number;       // Average recall@k, 0 to 1
+}
+
+// Standard normal sample (Box-Muller)
+const gaussian = (): number => Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+
+/**
+ * Random vectors around a few centres, which resembles embeddings of related
+ * passages better than uniform noise does
+ */
+export function generateClusteredVectors(count: number, dimension: number, clusters: number = 50): number[][] {
+    const centres = Array.from({ length: clusters }, () => Array.from({ length: dimension }, gaussian));
+    return Array.from({ length: count }, () => {
+        const centre = centres[Math.floor(Math.random() * clusters)];
+        return centre.map(value => value + gaussian() * 0.6);
+    });
+}
+
+export function benchmarkVectorIndex(vectors: number[][], options: VectorIndexBenchmarkOptions = {}): VectorIndexBenchmarkResult {
+    if (vectors.length === 0) throw new Error('There are no vectors to benchmark.');
+    const { queries = 100, topK = 8, ef = DEFAULT_EF_SEARCH } = options;
+    const dimension = vectors[0].length;
+
+    let start = performance.now();
+    const index = new HnswIndex(dimension, options);
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+    const buildMs = performance.now() - start;
+
+    // Queries sit near stored vectors, like a question near the passage that answers it
+    const queryVectors = Array.from({ length: queries }, () => {
+        const base = vectors[Math.floor(Math.random() * vectors.length)];
+        return base.map(value => value + gaussian() * 0.05);
+    });
+
+    let linearScanTime = 0;
+    let indexTime = 0;
+    let recallSum = 0;
+    for (const query of queryVectors) {
+        start = performance.now();
+        const exact = vectors
+            .map((vector, i) => ({ id: String(i), score: cosineSimilarity(query, vector) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+        linearScanTime += performance.now() - start;
+
+        start = performance.now();
+        const approximate = index.search(query, topK, { ef });
+        indexTime += performance.now() - start;
+
+        const found = new Set(approximate.map(result => result.id));
+        recallSum += exact.filter(result => found.has(result.id)).length / exact.length;
+    }
+
+    return {
+        vectors: vectors.length,
+        dimension,
+        queries,
+        topK,
+        ef,
+        buildMs: Math.round(buildMs),
+        linearScanMs: Math.round(linearScanTime / queries * 100) / 100,
+        indexMs: Math.round(indexTime / queries * 100) / 100,
+        recall: Math.round(recallSum / queries * 1000) / 1000,
+    };
+}
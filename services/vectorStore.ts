@@ -1,17 +1,47 @@
 import { DocumentChunk, cosineSimilarity } from './embeddingService';
 import { db } from './db';
+import { DEFAULT_EF_SEARCH, HnswIndex } from './hnswIndex';
+import { benchmarkVectorIndex, VectorIndexBenchmarkOptions, VectorIndexBenchmarkResult } from './vectorIndexBenchmark';
 
 export interface SearchResult {
     chunk: DocumentChunk;
     score: number;
 }
 
+// Chunks whose embeddings are at least this similar count as the same passage
+const NEAR_DUPLICATE_SIMILARITY = 0.97;
+
+// Up to this many candidate chunks a linear scan takes a few milliseconds and is exact
+const LINEAR_SCAN_LIMIT = 1000;
+// Collapsing near-duplicates drops results, so the index is asked for this many times topK
+const INDEX_CANDIDATE_FACTOR = 3;
+// Chunks inserted between yields, so building a large index doesn't freeze the page
+const INDEX_BATCH_SIZE = 50;
+
+const normalizeContent = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Whether two chunks say the same thing, e.g. the same paragraph in two
+ * editions of a document or in a page saved twice
+ */
+function isNearDuplicate(a: DocumentChunk, b: DocumentChunk): boolean {
+    if (normalizeContent(a.content) === normalizeContent(b.content)) return true;
+    return !!a.embedding && !!b.embedding && cosineSimilarity(a.embedding, b.embedding) >= NEAR_DUPLICATE_SIMILARITY;
+}
+
 /**
- * In-memory vector store with persistence to IndexedDB
+ * In-memory vector store with persistence to IndexedDB. Chunks of each
+ * embedding model are also kept in an HNSW graph for approximate search; the
+ * graphs are updated in the background as chunks come and go, and searches
+ * scan the chunks they don't hold yet.
  */
 class VectorStore {
     private chunks: Map<string, DocumentChunk> = new Map();
     private sourceChunks: Map<string, Set<string>> = new Map(); // sourceId -> chunk IDs
+    private indexes: Map<string, HnswIndex> = new Map(); // embeddingModel -> graph of its chunks
+    private unindexed: Map<string, Set<string>> = new Map(); // embeddingModel -> chunk IDs not in its graph yet
+    private changedIndexes: Set<string> = new Set(); // embeddingModel of graphs to persist
+    private indexing: Promise<void> | null = null;
     private initialized: boolean = false;
 
     /**
@@ -22,6 +52,7 @@ class VectorStore {
         
         try {
             await this.loadFromDB();
+            await this.loadIndexesFromDB();
             this.initialized = true;
             console.log(`Vector store initialized with ${this.chunks.size} chunks`);
         } catch (error) {
@@ -36,18 +67,23 @@ class VectorStore {
     async addChunks(chunks: DocumentChunk[]): Promise<void> {
         await this.initialize();
         
+        // Replaced chunks may have been embedded with another model
+        this.unindexChunks(chunks.map(chunk => chunk.id));
+
         for (const chunk of chunks) {
             this.chunks.set(chunk.id, chunk);
-            
+
             // Track chunks by source
             if (!this.sourceChunks.has(chunk.sourceId)) {
                 this.sourceChunks.set(chunk.sourceId, new Set());
             }
             this.sourceChunks.get(chunk.sourceId)!.add(chunk.id);
+            this.queueForIndexing(chunk);
         }
         
         // Persist to IndexedDB
         await this.saveToDB(chunks);
+        this.startIndexing();
         
         console.log(`Added ${chunks.length} chunks to vector store`);
     }
@@ -62,6 +98,7 @@ class VectorStore {
         if (!chunkIds) return;
         
         // Remove from memory
+        this.unindexChunks(chunkIds);
         for (const chunkId of chunkIds) {
             this.chunks.delete(chunkId);
         }
@@ -74,42 +111,90 @@ class VectorStore {
     }
 
     /**
-     * Search for similar chunks using semantic similarity
+     * Drop chunks for the given sources from memory only.
+     * Used after their rows were already deleted from IndexedDB (e.g. by a notebook delete).
+     */
+    evictSources(sourceIds: string[]): void {
+        for (const sourceId of sourceIds) {
+            const chunkIds = this.sourceChunks.get(sourceId);
+            if (!chunkIds) continue;
+
+            this.unindexChunks(chunkIds);
+            for (const chunkId of chunkIds) {
+                this.chunks.delete(chunkId);
+            }
+            this.sourceChunks.delete(sourceId);
+        }
+    }
+
+    /**
+     * Search for similar chunks using semantic similarity. Only chunks embedded
+     * with the query's model are compared. Near-identical chunks are collapsed
+     * into the best-scoring one so each of the top K is a different passage.
+     * Small selections are scanned exactly; larger ones go through the index.
      */
     async search(
         queryEmbedding: number[],
         options: {
+            embeddingModel: string; // Model key the query was embedded with
             topK?: number;
             sourceIds?: string[];
             minScore?: number;
-        } = {}
+        }
     ): Promise<SearchResult[]> {
         await this.initialize();
         
-        const { topK = 5, sourceIds, minScore = 0.3 } = options;
-        
-        // Filter chunks by source if specified
-        let chunksToSearch = Array.from(this.chunks.values());
-        if (sourceIds && sourceIds.length > 0) {
-            chunksToSearch = chunksToSearch.filter(chunk => 
-                sourceIds.includes(chunk.sourceId)
-            );
-        }
+        const { embeddingModel, topK = 5, sourceIds, minScore = 0.3 } = options;
+        const selectedSources = sourceIds && sourceIds.length > 0 ? new Set(sourceIds) : null;
+        const index = this.indexes.get(embeddingModel);
+        const unindexed = this.unindexed.get(embeddingModel) ?? new Set<string>();
+        const modelChunkCount = (index?.size ?? 0) + unindexed.size;
+        const candidateCount = selectedSources
+            ? Math.min(modelChunkCount, [...selectedSources].reduce((count, sourceId) => count + (this.sourceChunks.get(sourceId)?.size ?? 0), 0))
+            : modelChunkCount;
         
         // Calculate similarity scores
-        const results: SearchResult[] = [];
-        for (const chunk of chunksToSearch) {
-            if (!chunk.embedding) continue;
-            
-            const score = cosineSimilarity(queryEmbedding, chunk.embedding);
-            if (score >= minScore) {
-                results.push({ chunk, score });
-            }
+        let results: SearchResult[];
+        if (!index || candidateCount <= LINEAR_SCAN_LIMIT) {
+            results = this.scanChunks(queryEmbedding, embeddingModel, selectedSources
+                ? [...selectedSources].flatMap(sourceId => [...(this.sourceChunks.get(sourceId) ?? [])])
+                : this.chunks.keys());
+        } else {
+            const k = topK * INDEX_CANDIDATE_FACTOR;
+            // A selective filter leaves fewer matches along the way, so widen the search to match
+            const ef = Math.ceil(Math.max(DEFAULT_EF_SEARCH, k) * modelChunkCount / Math.max(candidateCount, 1));
+            const filter = selectedSources ? (chunkId: string) => selectedSources.has(this.chunks.get(chunkId)?.sourceId ?? '') : undefined;
+            results = index.search(queryEmbedding, k, { ef, filter })
+                .map(({ id, score }) => ({ chunk: this.chunks.get(id)!, score }))
+                .filter(result => result.chunk);
+            // Chunks the graph doesn't hold yet
+            results.push(...this.scanChunks(queryEmbedding, embeddingModel, filter ? [...unindexed].filter(filter) : unindexed));
         }
+        results = results.filter(result => result.score >= minScore);
         
-        // Sort by score descending and return top K
+        // Sort by score descending and return top K, skipping near-duplicates of higher-ranked chunks
         results.sort((a, b) => b.score - a.score);
-        return results.slice(0, topK);
+        const selected: SearchResult[] = [];
+        for (const result of results) {
+            if (selected.length >= topK) break;
+            if (selected.some(kept => isNearDuplicate(kept.chunk, result.chunk))) continue;
+            selected.push(result);
+        }
+        return selected;
+    }
+
+    /**
+     * Exact similarity of the query to each of the given chunks embedded with its model
+     */
+    private scanChunks(queryEmbedding: number[], embeddingModel: string, chunkIds: Iterable<string>): SearchResult[] {
+        const results: SearchResult[] = [];
+        for (const chunkId of chunkIds) {
+            const chunk = this.chunks.get(chunkId);
+            // Vectors of other models live in a different space
+            if (!chunk?.embedding || chunk.embeddingModel !== embeddingModel) continue;
+            results.push({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) });
+        }
+        return results;
     }
 
     /**
@@ -133,6 +218,23 @@ class VectorStore {
         return chunks;
     }
 
+    /**
+     * Sources with chunks embedded by a model other than the given one. They
+     * can't be searched with that model until they are re-embedded.
+     */
+    async findSourcesWithOtherEmbeddings(sourceIds: string[], embeddingModel: string): Promise<string[]> {
+        await this.initialize();
+
+        return sourceIds.filter(sourceId => {
+            const chunkIds = this.sourceChunks.get(sourceId);
+            if (!chunkIds) return false;
+            for (const chunkId of chunkIds) {
+                if (this.chunks.get(chunkId)?.embeddingModel !== embeddingModel) return true;
+            }
+            return false;
+        });
+    }
+
     /**
      * Get statistics about the vector store
      */
@@ -140,6 +242,7 @@ class VectorStore {
         totalChunks: number;
         totalSources: number;
         averageChunksPerSource: number;
+        indexedChunks: number;
     } {
         const totalChunks = this.chunks.size;
         const totalSources = this.sourceChunks.size;
@@ -150,20 +253,125 @@ class VectorStore {
         return {
             totalChunks,
             totalSources,
-            averageChunksPerSource: Math.round(averageChunksPerSource * 10) / 10
+            averageChunksPerSource: Math.round(averageChunksPerSource * 10) / 10,
+            indexedChunks: [...this.indexes.values()].reduce((count, index) => count + index.size, 0)
         };
     }
 
+    /**
+     * Compare the index with a linear scan on the stored vectors of one
+     * embedding model, the most common one unless options.embeddingModel is
+     * set. Builds a fresh index, so it takes a while on large collections.
+     */
+    async benchmarkIndex(options: VectorIndexBenchmarkOptions & { embeddingModel?: string } = {}): Promise<VectorIndexBenchmarkResult> {
+        await this.initialize();
+
+        const { embeddingModel, ...benchmarkOptions } = options;
+
+        const vectorsByModel = new Map<string, number[][]>();
+        for (const chunk of this.chunks.values()) {
+            if (!chunk.embedding) continue;
+            if (!vectorsByModel.has(chunk.embeddingModel)) vectorsByModel.set(chunk.embeddingModel, []);
+            vectorsByModel.get(chunk.embeddingModel)!.push(chunk.embedding);
+        }
+        const model = embeddingModel ?? [...vectorsByModel.entries()].sort((a, b) => b[1].length - a[1].length)[0]?.[0];
+        const vectors = model ? vectorsByModel.get(model) : undefined;
+        if (!vectors) throw new Error('There are no embedded chunks to benchmark. Index a source first.');
+
+        console.log(`Benchmarking the vector index on ${vectors.length} chunks embedded with ${model}...`);
+        return benchmarkVectorIndex(vectors, benchmarkOptions);
+    }
+
     /**
      * Clear all chunks from the vector store
      */
     async clear(): Promise<void> {
         this.chunks.clear();
         this.sourceChunks.clear();
+        this.indexes.clear();
+        this.unindexed.clear();
+        this.changedIndexes.clear();
         await db.vectorChunks?.clear();
+        await db.vectorIndexes?.clear();
         console.log('Vector store cleared');
     }
 
+    // ===== Index Maintenance =====
+
+    /**
+     * Queue a chunk for insertion into its model's graph
+     */
+    private queueForIndexing(chunk: DocumentChunk): void {
+        if (!chunk.embedding?.length) return;
+        if (!this.unindexed.has(chunk.embeddingModel)) {
+            this.unindexed.set(chunk.embeddingModel, new Set());
+        }
+        this.unindexed.get(chunk.embeddingModel)!.add(chunk.id);
+    }
+
+    /**
+     * Take chunks out of their model's graph and out of the queue. Call before
+     * they leave this.chunks, which records their model.
+     */
+    private unindexChunks(chunkIds: Iterable<string>): void {
+        const indexedByModel = new Map<string, string[]>();
+        for (const chunkId of chunkIds) {
+            const chunk = this.chunks.get(chunkId);
+            if (!chunk) continue;
+            this.unindexed.get(chunk.embeddingModel)?.delete(chunkId);
+            if (this.indexes.get(chunk.embeddingModel)?.has(chunkId)) {
+                if (!indexedByModel.has(chunk.embeddingModel)) indexedByModel.set(chunk.embeddingModel, []);
+                indexedByModel.get(chunk.embeddingModel)!.push(chunkId);
+            }
+        }
+
+        for (const [embeddingModel, ids] of indexedByModel) {
+            this.indexes.get(embeddingModel)!.removeMany(ids);
+            this.changedIndexes.add(embeddingModel);
+        }
+        if (indexedByModel.size > 0) this.startIndexing();
+    }
+
+    /**
+     * Insert queued chunks and persist the changed graphs in the background,
+     * unless that is already running
+     */
+    private startIndexing(): void {
+        if (this.indexing) return;
+        this.indexing = this.buildIndexes()
+            .catch(error => console.error('Error building vector index:', error))
+            .finally(() => {
+                this.indexing = null;
+            });
+    }
+
+    private async buildIndexes(): Promise<void> {
+        let inserted = 0;
+        do {
+            for (const [embeddingModel, chunkIds] of this.unindexed) {
+                for (const chunkId of chunkIds) {
+                    chunkIds.delete(chunkId);
+                    const chunk = this.chunks.get(chunkId);
+                    if (!chunk?.embedding) continue;
+
+                    let index = this.indexes.get(embeddingModel);
+                    if (!index) {
+                        index = new HnswIndex(chunk.embedding.length);
+                        this.indexes.set(embeddingModel, index);
+                    }
+                    index.add(chunkId, chunk.embedding);
+                    this.changedIndexes.add(embeddingModel);
+
+                    if (++inserted % INDEX_BATCH_SIZE === 0) {
+                        await new Promise(resolve => setTimeout(resolve, 0));
+                    }
+                }
+            }
+            await this.saveIndexesToDB();
+            // Chunks may have been queued while the graphs were saved
+        } while ([...this.unindexed.values()].some(chunkIds => chunkIds.size > 0));
+    }
+
     // ===== Persistence Methods =====
 
     /**
@@ -209,6 +417,53 @@ class VectorStore {
         }
     }
 
+    /**
+     * Load the saved graphs and queue the chunks they don't hold, e.g. chunks
+     * added after the last save or, on first run, all of them
+     */
+    private async loadIndexesFromDB(): Promise<void> {
+        try {
+            const stored = await db.vectorIndexes.toArray();
+            for (const { embeddingModel, ...graph } of stored) {
+                // Nodes of chunks deleted since the save drop out here
+                const index = HnswIndex.deserialize(graph, chunkId => {
+                    const chunk = this.chunks.get(chunkId);
+                    return chunk?.embeddingModel === embeddingModel ? chunk.embedding : undefined;
+                });
+                this.indexes.set(embeddingModel, index);
+                if (index.size !== graph.ids.length) this.changedIndexes.add(embeddingModel);
+            }
+        } catch (error) {
+            console.error('Error loading vector indexes from DB:', error);
+        }
+
+        for (const chunk of this.chunks.values()) {
+            if (!this.indexes.get(chunk.embeddingModel)?.has(chunk.id)) this.queueForIndexing(chunk);
+        }
+        this.startIndexing();
+    }
+
+    /**
+     * Save the graphs that changed since the last save
+     */
+    private async saveIndexesToDB(): Promise<void> {
+        const changed = [...this.changedIndexes];
+        this.changedIndexes.clear();
+        try {
+            for (const embeddingModel of changed) {
+                const index = this.indexes.get(embeddingModel);
+                if (index && index.size > 0) {
+                    await db.vectorIndexes.put({ embeddingModel, ...index.serialize() });
+                } else {
+                    this.indexes.delete(embeddingModel);
+                    await db.vectorIndexes.delete(embeddingModel);
+                }
+            }
+        } catch (error) {
+            console.error('Error saving vector indexes to DB:', error);
+        }
+    }
+
     /**
      * Delete specific chunks from IndexedDB
      */
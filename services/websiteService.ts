@@ -0,0 +1,253 @@
+import { SourceMetadata } from '../types';
+import { getSettings } from './settingsService';
+
+/**
+ * Website Service
+ *
+ * Fetches web pages through a CORS proxy and extracts the main article text,
+ * Readability-style: boilerplate (navigation, footers, sidebars, ads) is
+ * removed, the densest block of paragraphs is picked as the article, and title,
+ * author and publish date are read from meta tags and JSON-LD.
+ */
+
+// Served by the dev/preview server (see vite.config.ts). {url} is replaced by the encoded page URL;
+// a proxy without the placeholder is used as a prefix, e.g. "https://corsproxy.example/?".
+export const DEFAULT_CORS_PROXY = '/cors-proxy?url={url}';
+
+const MIN_ARTICLE_LENGTH = 200;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+export interface WebPage {
+    url: string;
+    text: string;
+    metadata: SourceMetadata;
+}
+
+const BOILERPLATE_SELECTORS = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'input', 'select', 'textarea',
+    'nav', 'header', 'footer', 'aside',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+    '[aria-hidden="true"]', '[hidden]',
+].join(', ');
+
+const UNLIKELY_CANDIDATE = /comment|sidebar|footer|masthead|menu|nav|share|social|promo|advert|sponsor|cookie|consent|newsletter|subscribe|related|popup|modal|breadcrumb|pagination/i;
+const LIKELY_CANDIDATE = /article|content|main|body|post|entry|story|text/i;
+
+const TEXT_BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, figcaption, dt, dd, td, th';
+
+const collapseWhitespace = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Build the proxied URL for a page
+ */
+export function buildProxyUrl(url: string, proxy: string = getSettings().corsProxyUrl?.trim() || DEFAULT_CORS_PROXY): string {
+    return proxy.includes('{url}') ? proxy.replace('{url}', encodeURIComponent(url)) : `${proxy}${url}`;
+}
+
+// --- Metadata ---
+
+/**
+ * ISO 8601 form of a date string, or undefined when it can't be parsed
+ */
+export const toISODate = (value?: string | null): string | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+/**
+ * Flatten JSON-LD blocks (including @graph arrays) into a list of objects
+ */
+function readJsonLd(doc: Document): Record<string, unknown>[] {
+    const items: Record<string, unknown>[] = [];
+    doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+        try {
+            const data: unknown = JSON.parse(script.textContent || '');
+            const queue: unknown[] = Array.isArray(data) ? [...data] : [data];
+            while (queue.length > 0) {
+                const item = queue.shift();
+                if (!isObject(item) || Array.isArray(item)) continue;
+                items.push(item);
+                if (Array.isArray(item['@graph'])) queue.push(...item['@graph']);
+            }
+        } catch {
+            // Ignore malformed structured data
+        }
+    });
+    return items;
+}
+
+const jsonLdAuthor = (author: unknown): string | undefined => {
+    const authors = Array.isArray(author) ? author : [author];
+    const names = authors
+        .map(a => (isObject(a) ? asString(a.name) : asString(a)))
+        .filter((name): name is string => !!name && !/^https?:\/\//.test(name));
+    return names.length > 0 ? names.join(', ') : undefined;
+};
+
+function extractMetadata(doc: Document, url: string): SourceMetadata {
+    const meta = (...selectors: string[]): string | undefined => {
+        for (const selector of selectors) {
+            const content = collapseWhitespace(doc.querySelector(`meta[${selector}]`)?.getAttribute('content'));
+            if (content) return content;
+        }
+        return undefined;
+    };
+
+    const article = readJsonLd(doc).find(item => item.headline || item.datePublished || item.author);
+    const canonical = doc.querySelector('link[rel="canonical"]')?.getAttribute('href');
+
+    const metaAuthor = meta('name="author"', 'property="article:author"', 'name="twitter:creator"');
+    const bylineAuthor = collapseWhitespace(doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent);
+
+    let resolvedUrl = url;
+    try {
+        if (canonical) resolvedUrl = new URL(canonical, url).href;
+    } catch {
+        // Keep the requested URL
+    }
+
+    return {
+        url: resolvedUrl,
+        title: meta('property="og:title"', 'name="twitter:title"')
+            || collapseWhitespace(asString(article?.headline))
+            || collapseWhitespace(doc.title)
+            || collapseWhitespace(doc.querySelector('h1')?.textContent)
+            || undefined,
+        author: jsonLdAuthor(article?.author)
+            || (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : undefined)
+            || (bylineAuthor && bylineAuthor.length < 100 ? bylineAuthor.replace(/^by\s+/i, '') : undefined),
+        publishedAt: toISODate(asString(article?.datePublished))
+            || toISODate(meta('property="article:published_time"', 'name="date"', 'name="pubdate"', 'itemprop="datePublished"'))
+            || toISODate(doc.querySelector('time[datetime]')?.getAttribute('datetime')),
+        siteName: meta('property="og:site_name"') || new URL(url).hostname.replace(/^www\./, ''),
+    };
+}
+
+// --- Article extraction ---
+
+function removeBoilerplate(root: Element): void {
+    root.querySelectorAll(BOILERPLATE_SELECTORS).forEach(el => el.remove());
+    root.querySelectorAll('[class], [id]').forEach(el => {
+        const signature = `${el.getAttribute('class') || ''} ${el.id}`;
+        if (UNLIKELY_CANDIDATE.test(signature) && !LIKELY_CANDIDATE.test(signature) && el.tagName !== 'BODY' && el.tagName !== 'HTML') {
+            el.remove();
+        }
+    });
+}
+
+const linkDensity = (el: Element): number => {
+    const textLength = collapseWhitespace(el.textContent).length;
+    if (textLength === 0) return 1;
+    const linkLength = Array.from(el.querySelectorAll('a')).reduce((sum, a) => sum + collapseWhitespace(a.textContent).length, 0);
+    return linkLength / textLength;
+};
+
+/**
+ * Score paragraph containers and return the one most likely to hold the article
+ */
+function findArticleRoot(doc: Document): Element {
+    const explicit = doc.querySelector('article, main, [role="main"], [itemprop="articleBody"]');
+    if (explicit && collapseWhitespace(explicit.textContent).length >= MIN_ARTICLE_LENGTH) {
+        return explicit;
+    }
+
+    const scores = new Map<Element, number>();
+    doc.body.querySelectorAll('p, pre, td').forEach(paragraph => {
+        const text = collapseWhitespace(paragraph.textContent);
+        if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+        // Longer paragraphs with more clauses look more like prose
+        const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+        const parent = paragraph.parentElement;
+        const grandparent = parent?.parentElement;
+        if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+        if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+    });
+
+    let best: Element = doc.body;
+    let bestScore = 0;
+    scores.forEach((score, candidate) => {
+        const adjusted = score * (1 - linkDensity(candidate));
+        if (adjusted > bestScore) {
+            best = candidate;
+            bestScore = adjusted;
+        }
+    });
+    return best;
+}
+
+/**
+ * Turn the article element into plain text, keeping headings and list items
+ * on their own lines so paragraph-based chunking still sees the structure
+ */
+function articleToText(root: Element): string {
+    const blocks: string[] = [];
+    root.querySelectorAll(TEXT_BLOCK_SELECTOR).forEach(el => {
+        // Nested blocks (a <p> inside an <li>) are covered by their outermost block
+        const outer = el.parentElement?.closest(TEXT_BLOCK_SELECTOR);
+        if (outer && root.contains(outer)) return;
+
+        const text = el.tagName === 'PRE' ? (el.textContent || '').trim() : collapseWhitespace(el.textContent);
+        if (!text) return;
+
+        if (/^H[1-6]$/.test(el.tagName)) {
+            blocks.push(`${'#'.repeat(parseInt(el.tagName[1], 10))} ${text}`);
+        } else if (el.tagName === 'LI') {
+            blocks.push(`- ${text}`);
+        } else {
+            blocks.push(text);
+        }
+    });
+
+    return blocks.length > 0 ? blocks.join('\n\n') : collapseWhitespace(root.textContent);
+}
+
+/**
+ * Extract metadata and main text from an HTML document
+ */
+export function extractArticle(html: string, url: string): WebPage {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const metadata = extractMetadata(doc, url); // Before boilerplate removal drops JSON-LD scripts
+    removeBoilerplate(doc.documentElement);
+    const text = articleToText(findArticleRoot(doc));
+    return { url, text, metadata };
+}
+
+/**
+ * Fetch a web page through the CORS proxy and extract its article
+ */
+export async function fetchWebsite(url: string): Promise<WebPage> {
+    let response: Response;
+    try {
+        response = await fetch(buildProxyUrl(url));
+    } catch (error) {
+        throw new Error(`Could not reach the CORS proxy. Check the proxy URL in Settings. (${(error as Error).message})`);
+    }
+
+    if (!response.ok) {
+        throw new Error(`The page returned ${response.status} ${response.statusText}.`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const body = await response.text();
+
+    let page: WebPage;
+    if (contentType.includes('text/plain')) {
+        page = { url, text: body.trim(), metadata: { url, siteName: new URL(url).hostname.replace(/^www\./, '') } };
+    } else if (contentType.includes('html') || contentType === '') {
+        page = extractArticle(body, url);
+    } else {
+        throw new Error(`Unsupported content type: ${contentType.split(';')[0]}`);
+    }
+
+    if (page.text.length < MIN_ARTICLE_LENGTH) {
+        throw new Error('No readable article text was found on this page.');
+    }
+
+    return page;
+}
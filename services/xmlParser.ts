@@ -0,0 +1,131 @@
+/**
+ * Minimal XML parser
+ *
+ * DOMParser isn't available in workers, so document formats parsed by the
+ * ingestion workers (Office Open XML, OpenDocument, EPUB) use this small
+ * non-validating parser instead. It keeps qualified names as written
+ * (e.g. "w:p") and decodes the predefined, numeric and common XHTML entities.
+ */
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = {
+    lt: '<', gt: '>', amp: '&', quot: '"', apos: "'",
+    // XHTML entities that EPUB content documents use without declaring them
+    nbsp: '\u00a0', shy: '\u00ad', ndash: '\u2013', mdash: '\u2014', hellip: '\u2026',
+    lsquo: '\u2018', rsquo: '\u2019', ldquo: '\u201c', rdquo: '\u201d', laquo: '\u00ab', raquo: '\u00bb',
+    copy: '\u00a9', reg: '\u00ae', trade: '\u2122', bull: '\u2022', middot: '\u00b7', times: '\u00d7', deg: '\u00b0',
+};
+
+const decodeEntities = (text: string): string =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return ENTITIES[entity] ?? match;
+    });
+
+const ATTRIBUTE_REGEX = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+    const stack: XmlElement[] = [root];
+    let position = 0;
+
+    while (position < xml.length) {
+        const tagStart = xml.indexOf('<', position);
+        if (tagStart === -1) break;
+
+        if (tagStart > position) {
+            stack[stack.length - 1].children.push(decodeEntities(xml.slice(position, tagStart)));
+        }
+
+        if (xml.startsWith('<!--', tagStart)) {
+            position = xml.indexOf('-->', tagStart) + 3;
+        } else if (xml.startsWith('<![CDATA[', tagStart)) {
+            const end = xml.indexOf(']]>', tagStart);
+            stack[stack.length - 1].children.push(xml.slice(tagStart + 9, end));
+            position = end + 3;
+        } else if (xml.startsWith('<?', tagStart)) {
+            position = xml.indexOf('?>', tagStart) + 2;
+        } else if (xml.startsWith('<!', tagStart)) {
+            // DOCTYPE; internal subsets aren't supported
+            position = xml.indexOf('>', tagStart) + 1;
+        } else if (xml[tagStart + 1] === '/') {
+            const end = xml.indexOf('>', tagStart);
+            const name = xml.slice(tagStart + 2, end).trim();
+            // Pop to the matching element, tolerating unclosed children
+            const index = stack.map(el => el.name).lastIndexOf(name);
+            if (index > 0) stack.length = index;
+            position = end + 1;
+        } else {
+            const end = xml.indexOf('>', tagStart);
+            if (end === -1) throw new Error('Malformed XML: unterminated tag.');
+            const selfClosing = xml[end - 1] === '/';
+            const body = xml.slice(tagStart + 1, selfClosing ? end - 1 : end);
+            const nameEnd = body.search(/[\s]/);
+            const element: XmlElement = {
+                name: nameEnd === -1 ? body : body.slice(0, nameEnd),
+                attributes: {},
+                children: [],
+            };
+            for (const match of body.matchAll(ATTRIBUTE_REGEX)) {
+                element.attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+            }
+            stack[stack.length - 1].children.push(element);
+            if (!selfClosing) stack.push(element);
+            position = end + 1;
+        }
+
+        if (position <= tagStart) throw new Error('Malformed XML.');
+    }
+
+    const documentElement = root.children.find((node): node is XmlElement => typeof node !== 'string');
+    if (!documentElement) throw new Error('The XML document is empty.');
+    return documentElement;
+}
+
+// --- Traversal helpers ---
+
+export const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+/**
+ * Direct children with the given qualified name (all element children when omitted)
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+    return element.children.filter((node): node is XmlElement => isElement(node) && (!name || node.name === name));
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+    return childElements(element, name)[0];
+}
+
+/**
+ * All descendants with the given qualified name, in document order
+ */
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+    const found: XmlElement[] = [];
+    const visit = (el: XmlElement) => {
+        for (const child of el.children) {
+            if (!isElement(child)) continue;
+            if (child.name === name) found.push(child);
+            visit(child);
+        }
+    };
+    visit(element);
+    return found;
+}
+
+export function descendant(element: XmlElement, name: string): XmlElement | undefined {
+    return descendants(element, name)[0];
+}
@@ -0,0 +1,237 @@
+import { SourceMetadata } from '../types';
+import { buildProxyUrl, toISODate } from './websiteService';
+import type { TranscriptSegment } from './transcriptionService';
+
+/**
+ * YouTube Service
+ *
+ * Loads the caption track of a video as timestamped segments, which are chunked
+ * with chunkTranscript so citations can point at the exact moment in the
+ * video. Transcripts come from a pluggable fetcher; the default one reads the
+ * watch page and caption track through the same CORS proxy used for websites.
+ */
+
+const PLAYER_RESPONSE_MARKER = 'ytInitialPlayerResponse';
+
+export interface Transcript {
+    videoId: string;
+    metadata: SourceMetadata;
+    segments: TranscriptSegment[];
+}
+
+export type TranscriptFetcher = (videoId: string) => Promise<Transcript>;
+
+// --- URL helpers ---
+
+/**
+ * Extract the video ID from watch, short, embed, shorts and live URLs
+ */
+export function parseYouTubeVideoId(url: string): string | null {
+    try {
+        const parsed = new URL(url);
+        const host = parsed.hostname.replace(/^(www\.|m\.|music\.)/, '');
+        if (host === 'youtu.be') {
+            return parsed.pathname.slice(1).split('/')[0] || null;
+        }
+        if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+            const fromQuery = parsed.searchParams.get('v');
+            if (fromQuery) return fromQuery;
+            const match = parsed.pathname.match(/^\/(?:embed|shorts|live|v)\/([\w-]{6,})/);
+            return match ? match[1] : null;
+        }
+    } catch {
+        // Not a URL
+    }
+    return null;
+}
+
+export const isYouTubeUrl = (url: string): boolean => parseYouTubeVideoId(url) !== null;
+
+/**
+ * Link to a moment in the video
+ */
+export function buildYouTubeTimestampUrl(url: string, seconds: number): string | null {
+    const videoId = parseYouTubeVideoId(url);
+    return videoId ? `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s` : null;
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// --- Default fetcher (watch page + caption track through the CORS proxy) ---
+
+/**
+ * Read the JSON object assigned to `marker` in an inline script
+ */
+function extractJsonAfter(html: string, marker: string): unknown {
+    const markerIndex = html.indexOf(marker);
+    if (markerIndex === -1) return null;
+    const start = html.indexOf('{', markerIndex);
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < html.length; i++) {
+        const char = html[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            try {
+                return JSON.parse(html.slice(start, i + 1));
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+}
+
+interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    kind?: string; // 'asr' for auto-generated captions
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Walk nested objects of the player response, e.g. field(response, 'videoDetails', 'title')
+ */
+function field(value: unknown, ...keys: string[]): unknown {
+    return keys.reduce<unknown>((current, key) => isObject(current) ? current[key] : undefined, value);
+}
+
+const stringField = (value: unknown, ...keys: string[]): string | undefined => {
+    const result = field(value, ...keys);
+    return typeof result === 'string' ? result : undefined;
+};
+
+const isCaptionTrack = (value: unknown): value is CaptionTrack =>
+    isObject(value)
+    && typeof value.baseUrl === 'string'
+    && typeof value.languageCode === 'string'
+    && (value.kind === undefined || typeof value.kind === 'string');
+
+/**
+ * Prefer manual captions in the browser language or English, then auto-generated ones
+ */
+function pickCaptionTrack(tracks: CaptionTrack[]): CaptionTrack | undefined {
+    const preferred = [navigator.language.split('-')[0], 'en'];
+    const inLanguage = (track: CaptionTrack) => preferred.includes(track.languageCode.split('-')[0]);
+    return tracks.find(t => t.kind !== 'asr' && inLanguage(t))
+        || tracks.find(t => inLanguage(t))
+        || tracks.find(t => t.kind !== 'asr')
+        || tracks[0];
+}
+
+const decodeEntities = (text: string): string =>
+    new DOMParser().parseFromString(text, 'text/html').documentElement.textContent || '';
+
+/**
+ * Parse a caption track in YouTube's json3 format, falling back to the XML format
+ */
+function parseCaptionTrack(body: string): TranscriptSegment[] {
+    const cleanText = (text: string) => decodeEntities(text).replace(/\s+/g, ' ').trim();
+
+    if (body.trimStart().startsWith('{')) {
+        const data = JSON.parse(body) as { events?: { tStartMs?: number; dDurationMs?: number; segs?: { utf8?: string }[] }[] };
+        return (data.events || [])
+            .filter(event => event.segs)
+            .map(event => ({
+                start: (event.tStartMs || 0) / 1000,
+                duration: (event.dDurationMs || 0) / 1000,
+                text: cleanText(event.segs!.map(seg => seg.utf8 || '').join('')),
+            }))
+            .filter(segment => segment.text.length > 0);
+    }
+
+    const xml = new DOMParser().parseFromString(body, 'text/xml');
+    return Array.from(xml.getElementsByTagName('text'))
+        .map(node => ({
+            start: parseFloat(node.getAttribute('start') || '0'),
+            duration: parseFloat(node.getAttribute('dur') || '0'),
+            text: cleanText(node.textContent || ''),
+        }))
+        .filter(segment => segment.text.length > 0);
+}
+
+export const proxyTranscriptFetcher: TranscriptFetcher = async (videoId) => {
+    const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const pageResponse = await fetch(buildProxyUrl(watchUrl));
+    if (!pageResponse.ok) {
+        throw new Error(`YouTube returned ${pageResponse.status} ${pageResponse.statusText}.`);
+    }
+
+    const playerResponse = extractJsonAfter(await pageResponse.text(), PLAYER_RESPONSE_MARKER);
+    if (!isObject(playerResponse)) {
+        throw new Error('Could not read the video page. YouTube may be asking for consent or blocking the proxy.');
+    }
+    const playabilityStatus = stringField(playerResponse, 'playabilityStatus', 'status');
+    if (playabilityStatus && playabilityStatus !== 'OK') {
+        throw new Error(stringField(playerResponse, 'playabilityStatus', 'reason') || 'This video is not available.');
+    }
+
+    const captionTracks = field(playerResponse, 'captions', 'playerCaptionsTracklistRenderer', 'captionTracks');
+    const tracks = Array.isArray(captionTracks) ? captionTracks.filter(isCaptionTrack) : [];
+    const track = pickCaptionTrack(tracks);
+    if (!track) {
+        throw new Error('This video has no captions to index.');
+    }
+
+    const trackResponse = await fetch(buildProxyUrl(`${track.baseUrl}&fmt=json3`));
+    if (!trackResponse.ok) {
+        throw new Error(`Could not download captions (${trackResponse.status}).`);
+    }
+
+    return {
+        videoId,
+        metadata: {
+            url: watchUrl,
+            title: stringField(playerResponse, 'videoDetails', 'title'),
+            author: stringField(playerResponse, 'videoDetails', 'author'),
+            publishedAt: toISODate(stringField(playerResponse, 'microformat', 'playerMicroformatRenderer', 'publishDate')),
+            siteName: 'YouTube',
+        },
+        segments: parseCaptionTrack(await trackResponse.text()),
+    };
+};
+
+let transcriptFetcher: TranscriptFetcher = proxyTranscriptFetcher;
+
+/**
+ * Replace the transcript fetcher, e.g. with one backed by a transcript API
+ */
+export function setTranscriptFetcher(fetcher: TranscriptFetcher): void {
+    transcriptFetcher = fetcher;
+}
+
+// --- Public API ---
+
+/**
+ * Fetch the transcript of a YouTube video
+ */
+export async function fetchYouTubeTranscript(url: string): Promise<Transcript> {
+    const videoId = parseYouTubeVideoId(url);
+    if (!videoId) {
+        throw new Error('This is not a YouTube video URL.');
+    }
+
+    const transcript = await transcriptFetcher(videoId);
+    if (transcript.segments.length === 0) {
+        throw new Error('The caption track for this video is empty.');
+    }
+    return transcript;
+}
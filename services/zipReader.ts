@@ -0,0 +1,112 @@
+/**
+ * ZIP reader
+ *
+ * Reads entries from ZIP containers such as .docx, .pptx, .odt and .epub using
+ * the browser's DecompressionStream, so it works on the main thread and in
+ * workers without a bundled inflate implementation. ZIP64 is not supported.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+    paths: string[];
+    has(path: string): boolean;
+    readBytes(path: string): Promise<Uint8Array | null>;
+    readText(path: string): Promise<string | null>;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+    // The record is 22 bytes plus a comment of up to 65535 bytes
+    const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error('This file is not a valid ZIP archive.');
+}
+
+async function inflateRaw(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Index the entries of a ZIP archive. Entries are decompressed on demand.
+ */
+export function openZip(data: ArrayBuffer): ZipArchive {
+    const view = new DataView(data);
+    const eocd = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    if (offset === 0xffffffff) {
+        throw new Error('ZIP64 archives are not supported.');
+    }
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipEntry>();
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+            throw new Error('The ZIP archive is corrupted.');
+        }
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const readBytes = async (path: string): Promise<Uint8Array | null> => {
+        const entry = entries.get(path);
+        if (!entry) return null;
+
+        const header = entry.localHeaderOffset;
+        if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+            throw new Error(`The ZIP entry ${path} is corrupted.`);
+        }
+        // Sizes are taken from the central directory; the local header may defer them to a data descriptor
+        const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+        const bytes = new Uint8Array(data.slice(start, start + entry.compressedSize));
+
+        if (entry.method === METHOD_STORED) return bytes;
+        if (entry.method === METHOD_DEFLATE) return inflateRaw(bytes);
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${path}.`);
+    };
+
+    return {
+        paths: Array.from(entries.keys()),
+        has: path => entries.has(path),
+        readBytes,
+        readText: async path => {
+            const bytes = await readBytes(path);
+            return bytes ? decoder.decode(bytes) : null;
+        },
+    };
+}
+
+/**
+ * Resolve a relative path inside an archive, e.g. "../media/a.png" from "ppt/slides/"
+ */
+export function resolveZipPath(baseDir: string, relative: string): string {
+    if (relative.startsWith('/')) return relative.slice(1);
+    const parts = (baseDir ? baseDir.replace(/\/$/, '').split('/') : []);
+    for (const segment of relative.split('/')) {
+        if (segment === '..') parts.pop();
+        else if (segment !== '.' && segment !== '') parts.push(segment);
+    }
+    return parts.join('/');
+}
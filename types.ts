@@ -8,7 +8,7 @@ export enum SourceStatus {
     FAILED = 'failed'
 }
 
-export type SourceType = 'video' | 'pdf' | 'image' | 'file' | 'text' | 'website' | 'youtube' | 'audio';
+export type SourceType = 'video' | 'pdf' | 'image' | 'file' | 'text' | 'website' | 'youtube' | 'audio' | 'docx' | 'pptx' | 'odt' | 'epub' | 'table';
 
 export interface Source {
     id: string;
@@ -21,10 +21,55 @@ export interface Source {
     textContent?: string; // For text content like URLs or pasted text
     base64Content?: string; // For image/audio base64 data
     mimeType?: string; // Mime type for base64 content
+    metadata?: SourceMetadata;
+    table?: TableData; // Parsed rows of CSV and spreadsheet sources
+    contentHash?: string; // SHA-256 of the content, to spot duplicates (see deduplicationService)
 }
 
-export interface Chunk {
-    sourceIndex: number;
+// Descriptive details captured while fetching or parsing a source
+export interface SourceMetadata {
+    url?: string;
+    title?: string;
+    author?: string;
+    publishedAt?: string; // ISO 8601 when the page states a publish date
+    siteName?: string;
+}
+
+export type TableCell = string | number | boolean | null;
+
+export interface TableColumn {
+    name: string;
+    type: 'number' | 'date' | 'boolean' | 'text'; // Dates are ISO 8601 strings
+}
+
+// One CSV file or spreadsheet sheet; the first row holds the column headers
+export interface TableSheet {
+    name: string;
+    columns: TableColumn[];
+    rows: TableCell[][]; // Data rows, numbered from 1 in citations
+}
+
+export interface TableData {
+    sheets: TableSheet[];
+}
+
+// A retrieved passage referenced by a [Source N] marker in an answer
+export interface Citation {
+    chunkId: string; // DocumentChunk id in the vector store; empty for computed table answers
+    sourceId: string;
+    sourceName: string;
+    chunkIndex: number;
+    pageNumber?: number;
+    startTime?: number; // Seconds, for video and audio transcripts
+    sectionNumber?: number; // Word and OpenDocument sections, split at headings
+    slideNumber?: number;
+    sectionTitle?: string; // Heading of the section or title of the slide
+    chapterNumber?: number; // EPUB chapters, in reading order
+    chapterTitle?: string;
+    sheetName?: string; // Tabular sources
+    rowStart?: number; // Row group of a retrieved chunk
+    rowEnd?: number;
+    rowNumbers?: number[]; // Rows a computed answer was derived from
     content: string;
 }
 
@@ -33,7 +78,9 @@ export interface Message {
     sender: 'user' | 'bot';
     text: string;
     sources?: Source[];
-    chunks?: Chunk[];
+    citations?: Citation[];
+    createdAt?: number;
+    isStreaming?: boolean;
 }
 
 export interface StudioTool {
@@ -42,14 +89,18 @@ export interface StudioTool {
     icon: React.ElementType;
 }
 
+export type ArtifactKind = 'note' | 'saved-response' | 'audio-overview' | 'video-overview' | 'mind-map' | 'report' | 'flashcards' | 'quiz';
+
 export interface Artifact {
     id: number;
+    notebookId: number;
+    kind: ArtifactKind;
     title: string;
-    icon: React.ElementType;
-    details: string;
     content?: string;
     sources?: Source[];
-    chunks?: Chunk[];
+    citations?: Citation[];
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface Notebook {
@@ -58,6 +109,10 @@ export interface Notebook {
     title: string;
     date: string;
     sources: number;
+    chatConfig?: ChatConfig;
+    outputLanguage?: string;
+    chunking?: ChunkingConfig; // Falls back to the default chunking when unset
+    embedding?: EmbeddingConfig; // Falls back to the local embedding model when unset
 }
 
 export interface DiscoveredSource {
@@ -74,8 +129,33 @@ export interface DiscoverResults {
 export type ConversationalStyle = 'Default' | 'Learning Guide' | 'Custom';
 export type ResponseLength = 'Default' | 'Longer' | 'Shorter';
 
+export type ProviderId = 'openrouter' | 'gemini' | 'openai-compatible' | 'mock';
+
 export interface ChatConfig {
     style: ConversationalStyle;
     length: ResponseLength;
     customPrompt?: string;
-}
\ No newline at end of file
+    provider?: ProviderId; // Falls back to the default provider when unset
+    model?: string; // Falls back to the provider's default model when unset
+}
+
+export type EmbeddingProviderId = 'local' | 'openrouter' | 'openai-compatible' | 'gemini';
+
+// The languages a notebook's sources are written in; picks the local embedding model
+export type SourceLanguage = 'english' | 'indonesian' | 'mixed';
+
+export interface EmbeddingConfig {
+    provider: EmbeddingProviderId;
+    model?: string; // Falls back to the provider's default embedding model when unset
+    language?: SourceLanguage; // Treated as English when unset
+}
+
+export interface ChunkingConfig {
+    chunkSize: number; // Tokens of the embedding model
+    chunkOverlap: number; // Tokens repeated from the end of the previous chunk
+}
+
+export interface StreamOptions {
+    onText?: (text: string) => void; // Receives the answer text accumulated so far
+    signal?: AbortSignal;
+}
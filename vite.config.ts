@@ -1,20 +1,277 @@
+import dns from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, type Plugin, type Connect } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+/**
+ * Local stand-in for a CORS proxy: GET /cors-proxy?url=<encoded URL> fetches the
+ * page server-side so website sources can be read from the browser.
+ * Available in `npm run dev` and `npm run preview`. The server listens on every
+ * interface, so the proxy only answers this machine and only fetches public
+ * addresses; otherwise anyone on the network could reach the LAN through it.
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+// IPv4 addresses can arrive mapped into IPv6, e.g. ::ffff:127.0.0.1
+const unmapIPv4 = (address: string): string => address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+const isPrivateAddress = (address: string): boolean => {
+  const ip = unmapIPv4(address);
+  return PRIVATE_ADDRESSES.check(ip, net.isIPv6(ip) ? 'ipv6' : 'ipv4');
+};
+
+const isLoopbackClient = (address: string | undefined): boolean => {
+  const ip = unmapIPv4(address || '');
+  return ip === '::1' || (net.isIPv4(ip) && ip.startsWith('127.'));
+};
+
+const MAX_PROXY_REDIRECTS = 5;
+const PROXY_TIMEOUT_MS = 30_000;
+
+interface ProxiedResponse {
+  status: number;
+  contentType?: string;
+  location?: string;
+  body: Buffer;
+}
+
+/**
+ * Resolve a host once and make sure every address it has is public
+ */
+const resolvePublicAddress = async (hostname: string): Promise<LookupAddress> => {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${hostname} is a private or local address`);
+  }
+  return addresses[0];
+};
+
+/**
+ * GET a URL from the given address. The connection goes to that address rather
+ * than to whatever a second lookup returns, so a host can't pass the check and
+ * then rebind to a private one.
+ */
+const requestFromAddress = (url: URL, { address, family }: LookupAddress): Promise<ProxiedResponse> =>
+  new Promise((resolve, reject) => {
+    const lookup: net.LookupFunction = (_hostname, options, callback) => {
+      if (options.all) callback(null, [{ address, family }]);
+      else callback(null, address, family);
+    };
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; OmnibookLM/1.0)', 'Accept': 'text/html,text/plain;q=0.9,*/*;q=0.5' },
+      lookup,
+    }, response => {
+      const body: Buffer[] = [];
+      response.on('data', (part: Buffer) => body.push(part));
+      response.on('error', reject);
+      response.on('end', () => resolve({
+        status: response.statusCode || 502,
+        contentType: response.headers['content-type'],
+        location: response.headers.location,
+        body: Buffer.concat(body),
+      }));
+    });
+    request.setTimeout(PROXY_TIMEOUT_MS, () => request.destroy(new Error('The site took too long to respond')));
+    request.on('error', reject);
+    request.end();
+  });
+
+/**
+ * Fetch a public http(s) URL, checking where every redirect leads before following it
+ */
+const fetchPublicUrl = async (url: string): Promise<ProxiedResponse> => {
+  for (let redirects = 0; ; redirects++) {
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Only http and https URLs can be fetched, not ${target.protocol}`);
+    }
+
+    const response = await requestFromAddress(target, await resolvePublicAddress(target.hostname));
+    if (response.status < 300 || response.status >= 400 || !response.location) return response;
+    if (redirects >= MAX_PROXY_REDIRECTS) throw new Error('Too many redirects');
+    url = new URL(response.location, url).href;
+  }
+};
+
+const corsProxy = (): Plugin => {
+  const handler: Connect.NextHandleFunction = async (req, res) => {
+    if (!isLoopbackClient(req.socket.remoteAddress)) {
+      res.statusCode = 403;
+      res.end('The built-in CORS proxy only serves this machine; set another proxy in Settings');
+      return;
+    }
+
+    const target = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+    if (!target || !/^https?:\/\//i.test(target)) {
+      res.statusCode = 400;
+      res.end('Missing or invalid "url" parameter');
+      return;
+    }
+
+    try {
+      const upstream = await fetchPublicUrl(target);
+      res.statusCode = upstream.status;
+      res.setHeader('Content-Type', upstream.contentType || 'application/octet-stream');
+      res.end(upstream.body);
+    } catch (error) {
+      res.statusCode = 502;
+      res.end(`Could not fetch ${target}: ${(error as Error).message}`);
+    }
+  };
+
+  return {
+    name: 'omnibook-cors-proxy',
+    configureServer(server) {
+      server.middlewares.use('/cors-proxy', handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/cors-proxy', handler);
+    },
+  };
+};
+
+/**
+ * Serves tesseract.js's worker script, WebAssembly cores and the English and
+ * Indonesian language data under /ocr/ so OCR runs without a CDN. The files are
+ * read from node_modules in `npm run dev` and copied into the build otherwise.
+ */
+const OCR_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  // tesseract.js picks the fastest core the browser supports
+  'core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+  'lang/ind.traineddata.gz': '@tesseract.js-data/ind/4.0.0_best_int/ind.traineddata.gz',
+};
+
+const ocrAssets = (): Plugin => {
+  const resolveAsset = (name: string) => path.join(fileURLToPath(new URL('.', import.meta.url)), 'node_modules', OCR_ASSETS[name]);
+
+  const handler: Connect.NextHandleFunction = (req, res, next) => {
+    const name = (req.url || '').split('?')[0].replace(/^\//, '');
+    if (!OCR_ASSETS[name]) return next();
+    // Language data stays gzipped; tesseract.js unpacks it itself
+    res.setHeader('Content-Type', name.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+    fs.createReadStream(resolveAsset(name)).pipe(res);
+  };
+
+  return {
+    name: 'omnibook-ocr-assets',
+    configureServer(server) {
+      server.middlewares.use('/ocr', handler);
+    },
+    generateBundle() {
+      for (const name of Object.keys(OCR_ASSETS)) {
+        this.emitFile({ type: 'asset', fileName: `ocr/${name}`, source: fs.readFileSync(resolveAsset(name)) });
+      }
+    },
+  };
+};
+
+/**
+ * Serves the local embedding models under /models/ so they load without the
+ * Hugging Face hub: the files `npm run download-models` puts in ./models, and
+ * onnxruntime-web's WebAssembly builds from node_modules. Missing files get a
+ * 404 rather than the app's index.html, so Transformers.js falls back to the
+ * hub for models that aren't bundled.
+ */
+const MODELS_DIR = fileURLToPath(new URL('./models', import.meta.url));
+
+const ONNX_RUNTIME_ASSETS: Record<string, string> = {
+  // Single-threaded builds only; see localEmbeddingProvider.ts
+  'onnxruntime/ort-wasm.wasm': 'onnxruntime-web/dist/ort-wasm.wasm',
+  'onnxruntime/ort-wasm-simd.wasm': 'onnxruntime-web/dist/ort-wasm-simd.wasm',
+};
+
+const modelAssets = (): Plugin => {
+  const resolveAsset = (name: string): string | null => {
+    if (ONNX_RUNTIME_ASSETS[name]) {
+      return path.join(fileURLToPath(new URL('.', import.meta.url)), 'node_modules', ONNX_RUNTIME_ASSETS[name]);
+    }
+    const file = path.join(MODELS_DIR, name);
+    return file.startsWith(MODELS_DIR + path.sep) && fs.existsSync(file) && fs.statSync(file).isFile() ? file : null;
+  };
+
+  const listModelFiles = (): string[] => fs.existsSync(MODELS_DIR)
+    ? (fs.readdirSync(MODELS_DIR, { recursive: true }) as string[])
+        .filter(name => !name.endsWith('.part') && fs.statSync(path.join(MODELS_DIR, name)).isFile())
+        .map(name => name.split(path.sep).join('/'))
+    : [];
+
+  const handler: Connect.NextHandleFunction = (req, res) => {
+    const name = decodeURIComponent((req.url || '').split('?')[0]).replace(/^\//, '');
+    const file = resolveAsset(name);
+    if (!file) {
+      res.statusCode = 404;
+      res.end('Not found');
+      return;
+    }
+    // The length lets Transformers.js report download progress
+    res.setHeader('Content-Length', fs.statSync(file).size);
+    res.setHeader('Content-Type', name.endsWith('.json') ? 'application/json' : name.endsWith('.wasm') ? 'application/wasm' : 'application/octet-stream');
+    fs.createReadStream(file).pipe(res);
+  };
+
+  return {
+    name: 'omnibook-model-assets',
+    configureServer(server) {
+      server.middlewares.use('/models', handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/models', handler);
+    },
+    generateBundle() {
+      const modelFiles = listModelFiles();
+      if (modelFiles.length === 0) {
+        this.warn('No local models in ./models; run `npm run download-models` to bundle them for offline use.');
+      }
+      for (const name of [...Object.keys(ONNX_RUNTIME_ASSETS), ...modelFiles]) {
+        this.emitFile({ type: 'asset', fileName: `models/${name}`, source: fs.readFileSync(resolveAsset(name)!) });
+      }
+    },
+  };
+};
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
+      worker: {
+        // Ingestion workers lazy-load pdf.js and the embedding model
+        format: 'es' as const,
+      },
       plugins: [
         react(),
+        corsProxy(),
+        ocrAssets(),
+        modelAssets(),
         VitePWA({
           registerType: 'autoUpdate',
+          workbox: {
+            // OCR assets are several megabytes and only fetched when a scan is indexed
+            globIgnores: ['ocr/**'],
+            // Embedding models and their runtime are precached so indexing and search work offline
+            globPatterns: ['**/*.{js,wasm,css,html}', 'models/**/*'],
+            // The multilingual model's weights alone are about 120 MB
+            maximumFileSizeToCacheInBytes: 160 * 1024 * 1024,
+          },
           includeAssets: [
             'assets/favicon.svg',
             'assets/favicon.png',
@@ -50,10 +307,6 @@ export default defineConfig(({ mode }) => {
           }
         })
       ],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           // Fix: `__dirname` is not available in ES modules. Replaced with an `import.meta.url`-based solution for compatibility.